@@ -1,9 +1,42 @@
 import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { GoogleGenAI, Type } from "@google/genai";
-import * as pdfjsLib from 'pdfjs-dist';
-import { Transaction, Account, Session, JournalEntry, JournalLine, ReconciledTransaction } from './types';
+import { Transaction, Account, AnalysisDimension, Session, JournalEntry, JournalLine, ReconciledTransaction, ColumnProfile, ParsedStatement, StatementFile, StatementFormat, StoredStatement } from './types';
 import { UploadIcon, TrashIcon, DownloadIcon, PlusIcon, PencilIcon, CheckIcon, XIcon, SparklesIcon, ArrowUpDownIcon, SaveIcon, BookOpenIcon, ClipboardListIcon, ArrowsPointingOutIcon, ArrowsPointingInIcon, BrainIcon, FileImportIcon, SearchIcon, FlagIcon, DocumentTextIcon, BanknotesIcon } from './components/icons';
-import { getApiKey, currencyFormatter, generateUUID, safeParseJson, getErrorMessage } from './utils';
+import { getApiKey, currencyFormatter, generateUUID, safeParseJson, getErrorMessage, decodeTextFile } from './utils';
+import { applyColumnProfile, detectHeaderRow, findColumnProfile, loadColumnProfiles, saveColumnProfiles } from './services/spreadsheetImport';
+import { parseOfx } from './services/ofxParser';
+import { parseQif } from './services/qifParser';
+import { looksLikeMt940, parseMt940 } from './services/mt940Parser';
+import { parseCamt053 } from './services/camt053Parser';
+import { buildPdfChunks, extractPdfPageTexts, loadPdfDocument, mergePdfChunkRows, PdfExtractedRow } from './services/pdfExtraction';
+import { estimateRowConfidence, findImageOnlyPages, OcrPage, recognizePdfPages } from './services/pdfOcr';
+import { BalanceCheckResult, inferStatementBalances, validateStatementBalances } from './services/balanceCheck';
+import { getStatementFileRows, mergeStatementRows, removeStatementFileRows } from './services/statementMerge';
+import { DuplicateGroup, DuplicateRules, loadDuplicateRules, saveDuplicateRules } from './services/duplicateDetection';
+import { closePeriod, isPeriodClosed, reopenPeriod } from './services/periodClose';
+import { AccountMerge, addChartVersion, applyAccountMerge, ChartOfAccountsVersion, getCurrentVersion, getUsedAccountIds, loadChartOfAccounts, mergeAccountInChart, migrateToWorkspaceChart, previewAccountMerge, saveChartOfAccounts, summarizeChartChanges, validateAccountMerge, WorkspaceChartOfAccounts } from './services/chartOfAccounts';
+import { findHeaderPostings, getAccountTree, getDescendantIds, isPostingAccount, moveAccount, validateAccountHierarchy } from './services/accountHierarchy';
+import { getYearPeriods, postYearEndClose, reopenYear, YearEndClosePreview } from './services/yearEndClose';
+import { FiscalCalendar, getCurrentPeriodKey, getFiscalPeriod, getNextPeriodKey, getPeriodForDate, getPeriodLabel, isValidPeriodKey, loadFiscalCalendar, saveFiscalCalendar } from './services/fiscalCalendar';
+import { applyLineDimensions, describeLineDimensions, DimensionValues, entryMatchesDimensions, getActiveDimensions, getUsedDimensionValueIds, hasDimensionFilter, loadDimensions, saveDimensions, setLineDimension } from './services/dimensions';
+import { applyBankRule, BankRule, findMatchingRule, loadBankRules, saveBankRules } from './services/bankRules';
+import { AccountSuggestion, HIGH_CONFIDENCE, suggestAccount, trainSuggestionModel } from './services/accountSuggestions';
+import { getAmountCoveredByJournal, getReconciledTotal, getReconciliationStatus, getUnreconciledAmount, withReconciliationStatus } from './services/reconciliationStatus';
+import { buildMatchReconciliations, DEFAULT_MATCH_OPTIONS, getUnreconciledBookItems, MatchOptions, MatchProposal } from './services/bankMatching';
+import { adoptLegacyReconciliations, assignTransactionIds, migrateSessionTransactionIds } from './services/transactionIdentity';
+import ColumnMappingModal from './components/ColumnMappingModal';
+import BalanceCheckPanel from './components/BalanceCheckPanel';
+import AssignStatementFilesModal from './components/AssignStatementFilesModal';
+import DuplicateRulesModal from './components/DuplicateRulesModal';
+import BankMatchingModal from './components/BankMatchingModal';
+import BankReconciliationView from './components/BankReconciliationView';
+import GeneralLedgerView from './components/GeneralLedgerView';
+import TrialBalanceView from './components/TrialBalanceView';
+import FinancialStatementsView from './components/FinancialStatementsView';
+import YearEndCloseModal from './components/YearEndCloseModal';
+import FiscalCalendarModal from './components/FiscalCalendarModal';
+import DimensionsModal from './components/DimensionsModal';
+import BankRulesModal from './components/BankRulesModal';
 
 
 declare var XLSX: any;
@@ -25,6 +58,8 @@ const DEFAULT_ACCOUNTS: Account[] = [
 
 type SortableTxKey = keyof Pick<Transaction, 'date' | 'description'> | 'debit' | 'credit';
 
+type QueuedUpload = { file: File, bankAccountId: string };
+
 
 // --- HOOKS ---
 
@@ -79,6 +114,30 @@ const useAiLimiter = (onError: (error: any) => void) => {
 
 // --- HELPER FUNCTIONS ---
 
+/** Combines consecutive statements for the same account (e.g. one MT940 statement per day) into one. */
+const mergeParsedStatements = (statements: ParsedStatement[]): ParsedStatement => {
+    const first = statements[0];
+    const last = statements[statements.length - 1];
+    return {
+        accountIdentifier: first?.accountIdentifier,
+        currency: first?.currency,
+        openingBalance: first?.openingBalance,
+        closingBalance: last?.closingBalance,
+        closingBalanceDate: last?.closingBalanceDate,
+        lines: statements.flatMap(s => s.lines),
+    };
+};
+
+/**
+ * Flattens the statements stored with a period into one working set. Rows saved before files were tracked per row
+ * are linked to the file they were stored with, and posted/partial/unposted is re-derived from the reconciliations.
+ */
+const loadStoredStatements = (statements: StoredStatement[], reconciledTransactions: ReconciledTransaction[]): Transaction[] =>
+    withReconciliationStatus(statements.flatMap(({ file, transactions }) => transactions.map((tx, line): Transaction => ({
+        ...tx,
+        bankAccountId: tx.bankAccountId || file.bankAccountId,
+        sources: tx.sources?.length ? tx.sources : [{ fileId: file.id, line }],
+    }))), reconciledTransactions);
 
 // --- MODAL & UI COMPONENTS ---
 const TextImproverModal = ({ isOpen, onClose, onApply, tryAiFeature, initialText = '' }: { isOpen: boolean, onClose: () => void, onApply: (text: string) => void, tryAiFeature: () => Promise<boolean>, initialText?: string }) => {
@@ -216,7 +275,7 @@ Now, process the following text:
     );
 };
 
-const SearchableAccountSelect = ({ accounts, value, onChange, placeholder = "Select account...", disabled = false, onSelect }: { accounts: Account[], value: string, onChange?: (id: string) => void, placeholder?: string, disabled?: boolean, onSelect?: (id: string) => void }) => {
+const SearchableAccountSelect = ({ accounts, value, onChange, placeholder = "Select account...", disabled = false, onSelect, allowHeaders = false }: { accounts: Account[], value: string, onChange?: (id: string) => void, placeholder?: string, disabled?: boolean, onSelect?: (id: string) => void, allowHeaders?: boolean }) => {
     const [searchTerm, setSearchTerm] = useState('');
     const [isOpen, setIsOpen] = useState(false);
     const wrapperRef = useRef<HTMLDivElement>(null);
@@ -234,15 +293,18 @@ const SearchableAccountSelect = ({ accounts, value, onChange, placeholder = "Sel
     }, []);
 
     const filteredAccounts = useMemo(() => {
-        if (!searchTerm) return accounts;
+        const tree = getAccountTree(accounts);
+        if (!searchTerm) return tree;
         const lowerSearchTerm = searchTerm.toLowerCase();
-        return accounts.filter(acc =>
+        return tree.filter(({ account: acc }) =>
             acc.name.toLowerCase().includes(lowerSearchTerm) ||
             acc.code.toLowerCase().includes(lowerSearchTerm)
         );
     }, [searchTerm, accounts]);
 
     const handleSelect = (accountId: string) => {
+        // Header accounts are listed to show the structure but cannot receive postings.
+        if (!allowHeaders && !isPostingAccount(accounts.find(a => a.id === accountId))) return;
         if(onChange) onChange(accountId);
         if(onSelect) onSelect(accountId);
         setIsOpen(false);
@@ -276,8 +338,8 @@ const SearchableAccountSelect = ({ accounts, value, onChange, placeholder = "Sel
             </div>
             {isOpen && !disabled && (
                 <ul className="absolute z-30 w-full mt-1 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 rounded-md shadow-lg max-h-60 overflow-y-auto">
-                    {filteredAccounts.length > 0 ? filteredAccounts.map(acc => (
-                        <li key={acc.id} onClick={() => handleSelect(acc.id)} className="px-3 py-2 text-sm hover:bg-indigo-50 dark:hover:bg-slate-700 cursor-pointer">
+                    {filteredAccounts.length > 0 ? filteredAccounts.map(({ account: acc, depth }) => (
+                        <li key={acc.id} onClick={() => handleSelect(acc.id)} style={{ paddingLeft: `${0.75 + (searchTerm ? 0 : depth) * 1}rem` }} className={`px-3 py-2 text-sm ${acc.isHeader && !allowHeaders ? 'font-semibold text-slate-400 dark:text-slate-500 cursor-default' : 'hover:bg-indigo-50 dark:hover:bg-slate-700 cursor-pointer'}`}>
                            {acc.code} - {acc.name}
                         </li>
                     )) : <li className="px-3 py-2 text-sm text-slate-500 dark:text-slate-400">No accounts found.</li>}
@@ -287,16 +349,37 @@ const SearchableAccountSelect = ({ accounts, value, onChange, placeholder = "Sel
     );
 };
 
-const ChartOfAccountsModal = ({ currentAccounts, onSave, onClose }: { currentAccounts: Account[], onSave: (accounts: Account[]) => void, onClose: () => void }) => {
+// Picks one value of an analysis dimension, for a journal line or a filter.
+const DimensionSelect = ({ dimension, value, onChange, emptyLabel = '—', className = 'w-full p-1 border rounded-md text-sm' }: { dimension: AnalysisDimension, value: string, onChange: (valueId: string) => void, emptyLabel?: string, className?: string }) => (
+    <select value={value} onChange={e => onChange(e.target.value)} title={dimension.name} className={`${className} bg-white dark:bg-slate-700 border-slate-300 dark:border-slate-600`}>
+        <option value="">{emptyLabel}</option>
+        {dimension.values.map(v => <option key={v.id} value={v.id}>{v.code} - {v.name}</option>)}
+    </select>
+);
+
+const ChartOfAccountsModal = ({ currentAccounts, versions, sessions, onSave, onClose }: { currentAccounts: Account[], versions: ChartOfAccountsVersion[], sessions: Session[], onSave: (accounts: Account[], merges: AccountMerge[]) => void, onClose: () => void }) => {
     const [accounts, setAccounts] = useState<Account[]>([]);
+    const [merges, setMerges] = useState<AccountMerge[]>([]);
+    const [mergeSourceId, setMergeSourceId] = useState<string | null>(null);
+    const [mergeTargetId, setMergeTargetId] = useState('');
     const [pastedText, setPastedText] = useState('');
-    const [errors, setErrors] = useState<{ [id: string]: { code?: string, name?: string, type?: string } }>({});
+    const [errors, setErrors] = useState<{ [id: string]: { code?: string, name?: string, type?: string, parentId?: string, isHeader?: string } }>({});
     const fileInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         setAccounts(JSON.parse(JSON.stringify(currentAccounts)));
+        setMerges([]);
+        setMergeSourceId(null);
     }, [currentAccounts]);
 
+    // Periods as they will be once the merges made in this dialog are saved.
+    const mergedSessions = useMemo(() => merges.reduce((acc, merge) => acc.map(session => applyAccountMerge(session, merge)), sessions), [sessions, merges]);
+    const usedAccountIds = useMemo(() => getUsedAccountIds(mergedSessions), [mergedSessions]);
+    const mergeSource = accounts.find(a => a.id === mergeSourceId);
+    const mergeTarget = accounts.find(a => a.id === mergeTargetId);
+    const mergePreview = useMemo(() => mergeSourceId ? previewAccountMerge(mergedSessions, mergeSourceId) : null, [mergedSessions, mergeSourceId]);
+    const mergeError = mergeSourceId && mergeTargetId ? validateAccountMerge(accounts, { fromId: mergeSourceId, toId: mergeTargetId }, UNCATEGORIZED_CODE) : '';
+
     const handleUpdateAccount = (id: string, field: keyof Account, value: string | boolean) => {
         setAccounts(prev => prev.map(acc => acc.id === id ? { ...acc, [field]: value } : acc));
         if(errors[id] && errors[id][field as keyof typeof errors[string]]) {
@@ -320,20 +403,59 @@ const ChartOfAccountsModal = ({ currentAccounts, onSave, onClose }: { currentAcc
             alert(`The '${accToDelete.name}' account is essential and cannot be deleted.`);
             return;
         }
+        // Postings cannot be left pointing at a deleted account, so they have to be moved to another one first.
+        if (usedAccountIds.has(id)) {
+            handleStartMerge(id);
+            return;
+        }
+        if (accounts.some(a => a.parentId === id)) {
+            alert(`'${accToDelete?.name}' has sub-accounts. Move or delete them first.`);
+            return;
+        }
         setAccounts(prev => prev.filter(acc => acc.id !== id));
     };
 
+    const handleStartMerge = (id: string) => {
+        setMergeSourceId(id);
+        setMergeTargetId('');
+    };
+
+    const handleConfirmMerge = () => {
+        if (!mergeSourceId || !mergeTargetId || mergeError) return;
+        const merge = { fromId: mergeSourceId, toId: mergeTargetId };
+        setAccounts(prev => mergeAccountInChart(prev, merge));
+        setMerges(prev => [...prev, merge]);
+        setErrors(prev => {
+            const newErrors = { ...prev };
+            delete newErrors[merge.fromId];
+            return newErrors;
+        });
+        setMergeSourceId(null);
+    };
+
     const parseAndImportData = (data: (string | number)[][]) => {
-        const importedAccounts: Account[] = data.filter(row => row.length >= 3 && row[0] && row[1] && row[2]).map((row, index) => ({
-            id: `imported-${Date.now()}-${index}`,
-            code: String(row[0]).trim(),
-            name: String(row[1]).trim(),
-            type: String(row[2]).trim(),
+        const importedRows = data.filter(row => row.length >= 3 && row[0] && row[1] && row[2]).map((row, index) => ({
+            account: {
+                id: `imported-${Date.now()}-${index}`,
+                code: String(row[0]).trim(),
+                name: String(row[1]).trim(),
+                type: String(row[2]).trim(),
+            } as Account,
+            parentCode: row[3] !== undefined ? String(row[3]).trim() : '',
         }));
         
-        const uniqueImported = importedAccounts.filter(imp => !accounts.some(exist => exist.code === imp.code));
-        setAccounts(prev => [...prev, ...uniqueImported]);
-        alert(`${uniqueImported.length} new accounts imported.`);
+        const uniqueImported = importedRows.filter(imp => !accounts.some(exist => exist.code === imp.account.code));
+        // Parent codes can point at existing accounts or at other rows of the same import.
+        const merged = [...accounts, ...uniqueImported.map(imp => imp.account)];
+        let unresolvedParents = 0;
+        uniqueImported.forEach(imp => {
+            if (!imp.parentCode) return;
+            const parent = merged.find(a => a.code === imp.parentCode);
+            if (parent && parent.id !== imp.account.id) imp.account.parentId = parent.id;
+            else unresolvedParents++;
+        });
+        setAccounts(merged);
+        alert(`${uniqueImported.length} new accounts imported.${unresolvedParents > 0 ? ` ${unresolvedParents} parent code(s) were not found, so those accounts were added at the top level.` : ''}`);
     };
     
     const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -366,20 +488,26 @@ const ChartOfAccountsModal = ({ currentAccounts, onSave, onClose }: { currentAcc
             setPastedText('');
         } catch(err) {
              console.error("Paste error:", err);
-             alert("Failed to parse pasted text. Please ensure it is tab-separated with columns: Code, Name, Type.");
+             alert("Failed to parse pasted text. Please ensure it is tab-separated with columns: Code, Name, Type and optionally Parent Code.");
         }
     };
     
     const validateAndSave = () => {
-        const newErrors: { [id: string]: { code?: string, name?: string, type?: string } } = {};
+        const newErrors: { [id: string]: { code?: string, name?: string, type?: string, parentId?: string, isHeader?: string } } = {};
         const seenCodes = new Set<string>();
+        const hierarchyErrors = validateAccountHierarchy(accounts);
 
         accounts.forEach(acc => {
-            const accErrors: { code?: string, name?: string, type?: string } = {};
+            const accErrors: { code?: string, name?: string, type?: string, parentId?: string, isHeader?: string } = {};
             if (!acc.code.trim()) accErrors.code = "Code cannot be empty.";
             if (seenCodes.has(acc.code.trim().toLowerCase())) accErrors.code = "Code must be unique.";
             if (!acc.name.trim()) accErrors.name = "Name cannot be empty.";
             if (!acc.type.trim()) accErrors.type = "Type cannot be empty.";
+            if (hierarchyErrors[acc.id]) accErrors.parentId = hierarchyErrors[acc.id];
+            if (acc.isHeader) {
+                if (acc.isBankAccount || acc.code === UNCATEGORIZED_CODE) accErrors.isHeader = "Bank and suspense accounts must accept postings.";
+                else if (usedAccountIds.has(acc.id)) accErrors.isHeader = "Has postings in at least one period.";
+            }
             
             if (Object.keys(accErrors).length > 0) {
                 newErrors[acc.id] = accErrors;
@@ -390,7 +518,7 @@ const ChartOfAccountsModal = ({ currentAccounts, onSave, onClose }: { currentAcc
         setErrors(newErrors);
         
         if (Object.keys(newErrors).length === 0) {
-            onSave(accounts);
+            onSave(accounts, merges);
             onClose();
         } else {
             alert("Please fix the errors before saving.");
@@ -411,7 +539,7 @@ const ChartOfAccountsModal = ({ currentAccounts, onSave, onClose }: { currentAcc
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
                         <div className="p-4 border dark:border-slate-700 rounded-lg bg-slate-50 dark:bg-slate-900/40">
                             <h4 className="font-semibold mb-2 flex items-center gap-2"><FileImportIcon className="w-5 h-5" /> Import from File</h4>
-                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Upload a CSV or Excel file with columns: Code, Name, Type.</p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Upload a CSV or Excel file with columns: Code, Name, Type and optionally Parent Code.</p>
                             <input type="file" accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel" ref={fileInputRef} onChange={handleFileImport} className="hidden" />
                             <button onClick={() => fileInputRef.current?.click()} className="text-sm bg-white dark:bg-slate-700 dark:hover:bg-slate-600 border dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-100">Choose File</button>
                         </div>
@@ -422,6 +550,33 @@ const ChartOfAccountsModal = ({ currentAccounts, onSave, onClose }: { currentAcc
                         </div>
                     </div>
 
+                    {mergeSource && mergePreview && (
+                        <div className="mb-4 p-4 border border-indigo-200 dark:border-indigo-800 rounded-lg bg-indigo-50 dark:bg-indigo-900/20 text-sm">
+                            <h4 className="font-semibold mb-2 flex items-center gap-2"><ArrowsPointingInIcon className="w-5 h-5" /> Merge {mergeSource.code} - {mergeSource.name}</h4>
+                            <p className="text-slate-600 dark:text-slate-300 mb-3">
+                                {mergePreview.periods.length === 0
+                                    ? 'Nothing has been posted to this account yet.'
+                                    : `${mergePreview.lineCount} journal line(s) in ${mergePreview.entryCount} entr${mergePreview.entryCount === 1 ? 'y' : 'ies'}, ${mergePreview.reconciliationCount} reconciliation(s) and ${mergePreview.statementFileCount} statement file(s) across ${mergePreview.periods.length} period(s) (${mergePreview.periods.join(', ')}) will move to the account chosen below.`}
+                                {' '}The account is then removed from the chart{accounts.some(a => a.parentId === mergeSource.id) ? ' and its sub-accounts move below the chosen account' : ''}.
+                            </p>
+                            <div className="flex flex-wrap items-center gap-2">
+                                <label htmlFor="merge-target" className="font-medium">Merge into</label>
+                                <select id="merge-target" value={mergeTargetId} onChange={e => setMergeTargetId(e.target.value)} className="p-1.5 border rounded-md bg-white dark:bg-slate-700 border-slate-300 dark:border-slate-600 min-w-[16rem]">
+                                    <option value="">— Choose an account —</option>
+                                    {getAccountTree(accounts).filter(({ account }) => account.id !== mergeSource.id).map(({ account, depth }) => (
+                                        <option key={account.id} value={account.id} disabled={account.isHeader}>{'\u00A0\u00A0'.repeat(depth)}{account.code} - {account.name}</option>
+                                    ))}
+                                </select>
+                                <button onClick={() => setMergeSourceId(null)} className="text-sm font-semibold text-slate-600 hover:text-slate-800 px-3 py-1.5 rounded-md hover:bg-slate-200 dark:text-slate-300 dark:hover:bg-slate-700">Cancel</button>
+                                <button onClick={handleConfirmMerge} disabled={!mergeTargetId || !!mergeError} className="bg-indigo-600 text-white font-semibold py-1.5 px-4 rounded-md hover:bg-indigo-700 disabled:bg-indigo-300 disabled:cursor-not-allowed">Merge</button>
+                            </div>
+                            {mergeError && <p className="text-xs text-red-600 mt-2">{mergeError}</p>}
+                            {!mergeError && mergeTarget && mergeTarget.type !== mergeSource.type && <p className="text-xs text-amber-700 dark:text-amber-400 mt-2">The accounts are of different types ({mergeSource.type} into {mergeTarget.type}), so the postings will be reported under {mergeTarget.type}.</p>}
+                            {mergePreview.closedPeriods.length > 0 && <p className="text-xs text-amber-700 dark:text-amber-400 mt-2">{mergePreview.closedPeriods.join(', ')} {mergePreview.closedPeriods.length === 1 ? 'is' : 'are'} closed. The account balances reported for {mergePreview.closedPeriods.length === 1 ? 'it' : 'them'} will change, although their totals stay the same.</p>}
+                        </div>
+                    )}
+                    {merges.length > 0 && <p className="mb-4 text-xs text-slate-500 dark:text-slate-400">{merges.length} merge(s) will be applied to every saved period when you save.</p>}
+
                     <div className="overflow-x-auto">
                         <table className="w-full text-sm">
                             <thead className="bg-slate-100 dark:bg-slate-700">
@@ -429,14 +584,16 @@ const ChartOfAccountsModal = ({ currentAccounts, onSave, onClose }: { currentAcc
                                     <th className="p-2 text-left font-semibold">Account Code</th>
                                     <th className="p-2 text-left font-semibold">Account Name</th>
                                     <th className="p-2 text-left font-semibold">Account Type</th>
+                                    <th className="p-2 text-left font-semibold">Parent Account</th>
                                     <th className="p-2 text-center font-semibold">Is Bank?</th>
+                                    <th className="p-2 text-center font-semibold" title="Header accounts group sub-accounts and cannot receive postings">Header?</th>
                                     <th className="p-2 text-center font-semibold">Actions</th>
                                 </tr>
                             </thead>
                             <tbody>
-                                {accounts.map(acc => (
-                                    <tr key={acc.id} className="border-b dark:border-slate-700">
-                                        <td className="p-1.5">
+                                {getAccountTree(accounts).map(({ account: acc, depth }) => (
+                                    <tr key={acc.id} className={`border-b dark:border-slate-700 ${acc.isHeader ? 'bg-slate-50 dark:bg-slate-900/40 font-semibold' : ''}`}>
+                                        <td className="p-1.5" style={{ paddingLeft: `${0.375 + depth * 1.25}rem` }}>
                                             <input type="text" value={acc.code} onChange={e => handleUpdateAccount(acc.id, 'code', e.target.value)} className={`w-full p-1 border rounded-md text-sm ${errors[acc.id]?.code ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'} bg-white dark:bg-slate-700`} />
                                             {errors[acc.id]?.code && <p className="text-xs text-red-500 mt-1">{errors[acc.id].code}</p>}
                                         </td>
@@ -448,11 +605,25 @@ const ChartOfAccountsModal = ({ currentAccounts, onSave, onClose }: { currentAcc
                                             <input type="text" value={acc.type} onChange={e => handleUpdateAccount(acc.id, 'type', e.target.value)} className={`w-full p-1 border rounded-md text-sm ${errors[acc.id]?.type ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'} bg-white dark:bg-slate-700`} />
                                             {errors[acc.id]?.type && <p className="text-xs text-red-500 mt-1">{errors[acc.id].type}</p>}
                                         </td>
+                                        <td className="p-1.5">
+                                            <select value={acc.parentId || ''} onChange={e => handleUpdateAccount(acc.id, 'parentId', e.target.value)} className={`w-full p-1 border rounded-md text-sm font-normal ${errors[acc.id]?.parentId ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'} bg-white dark:bg-slate-700`}>
+                                                <option value="">— None —</option>
+                                                {accounts.filter(a => a.id !== acc.id && !getDescendantIds(accounts, acc.id).has(a.id)).map(a => <option key={a.id} value={a.id}>{a.code} - {a.name}</option>)}
+                                            </select>
+                                            {errors[acc.id]?.parentId && <p className="text-xs text-red-500 mt-1">{errors[acc.id].parentId}</p>}
+                                        </td>
                                         <td className="p-1.5 text-center">
                                             <input type="checkbox" checked={!!acc.isBankAccount} onChange={e => handleUpdateAccount(acc.id, 'isBankAccount', e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"/>
                                         </td>
                                         <td className="p-1.5 text-center">
-                                            <button onClick={() => handleDeleteAccount(acc.id)} className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full"><TrashIcon className="w-4 h-4" /></button>
+                                            <input type="checkbox" checked={!!acc.isHeader} onChange={e => handleUpdateAccount(acc.id, 'isHeader', e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"/>
+                                            {errors[acc.id]?.isHeader && <p className="text-xs text-red-500 mt-1 font-normal">{errors[acc.id].isHeader}</p>}
+                                        </td>
+                                        <td className="p-1.5 text-center whitespace-nowrap">
+                                            <button onClick={() => setAccounts(prev => moveAccount(prev, acc.id, -1))} title="Move up" className="p-1.5 text-slate-500 hover:text-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full"><ArrowUpDownIcon direction="asc" className="w-4 h-4" /></button>
+                                            <button onClick={() => setAccounts(prev => moveAccount(prev, acc.id, 1))} title="Move down" className="p-1.5 text-slate-500 hover:text-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full"><ArrowUpDownIcon direction="desc" className="w-4 h-4" /></button>
+                                            <button onClick={() => handleStartMerge(acc.id)} title="Merge into another account" className="p-1.5 text-slate-500 hover:text-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full"><ArrowsPointingInIcon className="w-4 h-4" /></button>
+                                            <button onClick={() => handleDeleteAccount(acc.id)} title={usedAccountIds.has(acc.id) ? 'In use: delete by merging into another account' : 'Delete'} className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full"><TrashIcon className="w-4 h-4" /></button>
                                         </td>
                                     </tr>
                                 ))}
@@ -462,6 +633,21 @@ const ChartOfAccountsModal = ({ currentAccounts, onSave, onClose }: { currentAcc
                     <button onClick={handleAddAccount} className="mt-4 flex items-center gap-2 text-sm text-indigo-600 font-semibold hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300">
                         <PlusIcon className="w-4 h-4" /> Add New Account
                     </button>
+
+                    {versions.length > 0 && (
+                        <details className="mt-6 text-sm">
+                            <summary className="cursor-pointer font-semibold text-slate-600 dark:text-slate-300">Version History ({versions.length})</summary>
+                            <p className="text-xs text-slate-500 dark:text-slate-400 mt-2 mb-1">Every period posts to this one chart. Each save is kept as a new version.</p>
+                            <ul className="divide-y dark:divide-slate-700">
+                                {[...versions].reverse().map(v => (
+                                    <li key={v.version} className="py-1.5 flex justify-between gap-4">
+                                        <span><span className="font-semibold">Version {v.version}</span> — {v.summary}</span>
+                                        <span className="text-xs text-slate-500 whitespace-nowrap">{new Date(v.savedAt).toLocaleString()}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </details>
+                    )}
                 </div>
                 
                 <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-end items-center rounded-b-lg border-t dark:border-slate-700 gap-3">
@@ -475,7 +661,7 @@ const ChartOfAccountsModal = ({ currentAccounts, onSave, onClose }: { currentAcc
 };
 
 
-const JournalEntryModal = ({ isOpen, onClose, onSave, accounts, initialEntry = null, linkedTx = null, openTextImprover, selectedBankAccountId, tryAiFeature }: { isOpen: boolean, onClose: () => void, onSave: (entry: JournalEntry) => void, accounts: Account[], initialEntry?: JournalEntry | null, linkedTx?: Transaction | null, openTextImprover: (text: string, cb: (newText: string) => void) => void, selectedBankAccountId: string, tryAiFeature: () => Promise<boolean> }) => {
+const JournalEntryModal = ({ isOpen, onClose, onSave, accounts, dimensions, initialEntry = null, linkedTx = null, linkedAmount, openTextImprover, selectedBankAccountId, tryAiFeature }: { isOpen: boolean, onClose: () => void, onSave: (entry: JournalEntry) => void, accounts: Account[], dimensions: AnalysisDimension[], initialEntry?: JournalEntry | null, linkedTx?: Transaction | null, linkedAmount?: number, openTextImprover: (text: string, cb: (newText: string) => void) => void, selectedBankAccountId: string, tryAiFeature: () => Promise<boolean> }) => {
     const [entry, setEntry] = useState<JournalEntry>({ id: '', date: '', description: '', refNo: '', lines: [] });
     const [memoText, setMemoText] = useState('');
     const [isAiLoading, setIsAiLoading] = useState(false);
@@ -494,14 +680,15 @@ const JournalEntryModal = ({ isOpen, onClose, onSave, accounts, initialEntry = n
                 setEntry(JSON.parse(JSON.stringify(initialEntry)));
             } else if (linkedTx && selectedBankAccountId) {
                 const uncategorizedAccount = accounts.find(a => a.code === UNCATEGORIZED_CODE);
+                const amount = linkedAmount ?? linkedTx.amount;
                 setEntry({
                     id: generateUUID(),
                     date: linkedTx.date,
                     description: linkedTx.description,
                     refNo: '',
                     lines: [
-                        { id: generateUUID(), accountId: selectedBankAccountId, debit: linkedTx.type === 'credit' ? linkedTx.amount : 0, credit: linkedTx.type === 'debit' ? linkedTx.amount : 0 },
-                        { id: generateUUID(), accountId: uncategorizedAccount?.id || '', debit: linkedTx.type === 'debit' ? linkedTx.amount : 0, credit: linkedTx.type === 'credit' ? linkedTx.amount : 0 }
+                        { id: generateUUID(), accountId: selectedBankAccountId, debit: linkedTx.type === 'credit' ? amount : 0, credit: linkedTx.type === 'debit' ? amount : 0 },
+                        { id: generateUUID(), accountId: uncategorizedAccount?.id || '', debit: linkedTx.type === 'debit' ? amount : 0, credit: linkedTx.type === 'credit' ? amount : 0 }
                     ]
                 });
             } else {
@@ -519,7 +706,7 @@ const JournalEntryModal = ({ isOpen, onClose, onSave, accounts, initialEntry = n
                 });
             }
         }
-    }, [isOpen, initialEntry, linkedTx, selectedBankAccountId, accounts]);
+    }, [isOpen, initialEntry, linkedTx, linkedAmount, selectedBankAccountId, accounts]);
 
     const handleGenerateFromMemo = async () => {
         if (!memoText.trim() || !await tryAiFeature()) return;
@@ -529,7 +716,7 @@ const JournalEntryModal = ({ isOpen, onClose, onSave, accounts, initialEntry = n
 
         try {
             const ai = new GoogleGenAI({ apiKey: getApiKey() });
-            const chartOfAccountsForAI = accounts.map(({ id, code, name, type }) => ({ id, code, name, type }));
+            const chartOfAccountsForAI = accounts.filter(isPostingAccount).map(({ id, code, name, type }) => ({ id, code, name, type }));
             const prompt = `
 You are an expert AI bookkeeper. Your task is to analyze an unstructured text memo and create a balanced, two-line journal entry.
 
@@ -600,6 +787,10 @@ ${JSON.stringify(chartOfAccountsForAI, null, 2)}
         }));
     };
 
+    const handleUpdateLineDimension = (lineId: string, dimensionId: string, valueId: string) => {
+        setEntry(prev => ({ ...prev, lines: prev.lines.map(line => line.id === lineId ? setLineDimension(line, dimensionId, valueId) : line) }));
+    };
+
     const handleAddLine = () => {
         setEntry(prev => ({ ...prev, lines: [...prev.lines, { id: generateUUID(), accountId: '', debit: 0, credit: 0 }] }));
     };
@@ -630,6 +821,11 @@ ${JSON.stringify(chartOfAccountsForAI, null, 2)}
             alert("All journal lines must have an account selected.");
             return;
         }
+        const headerPostings = findHeaderPostings(accounts, entry.lines);
+        if (headerPostings.length > 0) {
+            alert(`Header accounts cannot receive postings: ${headerPostings.join(', ')}. Please choose one of their sub-accounts.`);
+            return;
+        }
         onSave(entry);
     };
 
@@ -643,7 +839,7 @@ ${JSON.stringify(chartOfAccountsForAI, null, 2)}
                         <ClipboardListIcon className="w-6 h-6 text-indigo-500" />
                         {initialEntry ? 'Edit' : 'Create'} Journal Entry
                     </h3>
-                     {linkedTx && <p className="text-xs text-slate-500 mt-1">Linked to Transaction: "{linkedTx.description}"</p>}
+                     {linkedTx && <p className="text-xs text-slate-500 mt-1">Linked to Transaction: "{linkedTx.description}"{!initialEntry && linkedAmount !== undefined && linkedAmount < linkedTx.amount && ` · ${currencyFormatter(linkedAmount)} of ${currencyFormatter(linkedTx.amount)} still to reconcile. Post less to leave the rest for another journal.`}</p>}
                 </div>
                 
                 <div className="p-5 overflow-y-auto flex-grow">
@@ -693,6 +889,7 @@ ${JSON.stringify(chartOfAccountsForAI, null, 2)}
                             <thead className="bg-slate-100 dark:bg-slate-700">
                                 <tr>
                                     <th className="p-2 text-left font-semibold w-2/5">Account</th>
+                                    {dimensions.map(d => <th key={d.id} className="p-2 text-left font-semibold">{d.name}</th>)}
                                     <th className="p-2 text-right font-semibold">Debit</th>
                                     <th className="p-2 text-right font-semibold">Credit</th>
                                     <th className="p-2 text-center font-semibold"></th>
@@ -702,6 +899,7 @@ ${JSON.stringify(chartOfAccountsForAI, null, 2)}
                                 {entry.lines.map(line => (
                                     <tr key={line.id} className="border-b dark:border-slate-700">
                                         <td className="p-1.5"><SearchableAccountSelect accounts={accounts} value={line.accountId} onChange={accId => handleUpdateLine(line.id, 'accountId', accId)} /></td>
+                                        {dimensions.map(d => <td key={d.id} className="p-1.5"><DimensionSelect dimension={d} value={line.dimensions?.[d.id] || ''} onChange={valueId => handleUpdateLineDimension(line.id, d.id, valueId)} /></td>)}
                                         <td className="p-1.5"><input type="number" value={line.debit || ''} onChange={e => handleUpdateLine(line.id, 'debit', parseFloat(e.target.value))} className="w-full p-1 text-right border rounded-md dark:bg-slate-700 dark:border-slate-600 font-mono" /></td>
                                         <td className="p-1.5"><input type="number" value={line.credit || ''} onChange={e => handleUpdateLine(line.id, 'credit', parseFloat(e.target.value))} className="w-full p-1 text-right border rounded-md dark:bg-slate-700 dark:border-slate-600 font-mono" /></td>
                                         <td className="p-1.5 text-center"><button onClick={() => handleDeleteLine(line.id)} className="p-1.5 text-red-500 hover:bg-red-100 rounded-full"><TrashIcon className="w-4 h-4" /></button></td>
@@ -710,7 +908,7 @@ ${JSON.stringify(chartOfAccountsForAI, null, 2)}
                             </tbody>
                             <tfoot>
                                 <tr className="bg-slate-50 dark:bg-slate-800/50 font-semibold">
-                                    <td className="p-2 text-right">Totals</td>
+                                    <td colSpan={1 + dimensions.length} className="p-2 text-right">Totals</td>
                                     <td className="p-2 text-right font-mono">{currencyFormatter(totals.debit)}</td>
                                     <td className="p-2 text-right font-mono">{currencyFormatter(totals.credit)}</td>
                                     <td></td>
@@ -734,24 +932,137 @@ ${JSON.stringify(chartOfAccountsForAI, null, 2)}
     );
 };
 
-const PeriodManagerModal = ({ isOpen, onClose, periods, activePeriod, onSetActive, onDelete, onRename, onCreate }: {
+const StatementAccountsModal = ({ fileName, statements, bankAccounts, defaultAccountIds, onImport, onCancel }: {
+    fileName: string;
+    statements: ParsedStatement[];
+    bankAccounts: Account[];
+    defaultAccountIds: Record<string, string>; // Bank account per account identifier; empty to skip
+    onImport: (accountIds: Record<string, string>) => void;
+    onCancel: () => void;
+}) => {
+    const [accountIds, setAccountIds] = useState(defaultAccountIds);
+    const accountIdentifiers = Array.from(new Set<string>(statements.map(st => st.accountIdentifier || '')));
+    const importCount = accountIdentifiers.filter(identifier => accountIds[identifier]).length;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onCancel}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-2xl" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b dark:border-slate-700">
+                    <h3 className="font-semibold text-lg flex items-center gap-2"><BanknotesIcon className="w-5 h-5"/> Choose Statement Accounts</h3>
+                    <p className="text-xs text-slate-500 mt-1">{fileName} contains statements for several accounts. Choose the bank account each one is imported into, or skip it.</p>
+                </div>
+                <ul className="p-4 space-y-2 max-h-[60vh] overflow-y-auto">
+                    {accountIdentifiers.map(accountIdentifier => {
+                        const group = statements.filter(st => (st.accountIdentifier || '') === accountIdentifier);
+                        const merged = mergeParsedStatements(group);
+                        return (
+                            <li key={accountIdentifier} className="p-3 rounded-md bg-slate-50 dark:bg-slate-900/40 flex items-center justify-between gap-4">
+                                <div>
+                                    <p className="font-medium">{accountIdentifier || 'Unidentified account'} {merged.currency && <span className="text-xs text-slate-500">{merged.currency}</span>}</p>
+                                    <p className="text-xs text-slate-500">{group.length} statement(s), {merged.lines.length} transaction(s){merged.closingBalance !== undefined && `, closing balance ${currencyFormatter(merged.closingBalance)}`}</p>
+                                </div>
+                                <select value={accountIds[accountIdentifier] || ''} onChange={e => setAccountIds(prev => ({ ...prev, [accountIdentifier]: e.target.value }))} className="text-sm p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                    <option value="">Skip</option>
+                                    {bankAccounts.map(a => <option key={a.id} value={a.id}>{a.code} - {a.name}</option>)}
+                                </select>
+                            </li>
+                        );
+                    })}
+                </ul>
+                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-3 flex justify-end items-center rounded-b-lg border-t dark:border-slate-700 gap-3">
+                    <button onClick={onCancel} className="text-sm font-semibold px-4 py-2 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700">Cancel</button>
+                    <button onClick={() => onImport(accountIds)} disabled={importCount === 0} className="text-sm bg-indigo-600 text-white font-semibold py-2 px-4 rounded-md shadow-sm hover:bg-indigo-700 disabled:bg-slate-400">Import {importCount} Account{importCount === 1 ? '' : 's'}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const ExportModal = ({ isOpen, onClose, defaultStartDate, defaultEndDate, onExport }: {
+    isOpen: boolean;
+    onClose: () => void;
+    defaultStartDate: string;
+    defaultEndDate: string;
+    onExport: (options: { format: 'csv', type: 'transactions' | 'journals', startDate: string, endDate: string }) => void;
+}) => {
+    const [type, setType] = useState<'transactions' | 'journals'>('transactions');
+    const [startDate, setStartDate] = useState(defaultStartDate);
+    const [endDate, setEndDate] = useState(defaultEndDate);
+
+    useEffect(() => {
+        if (isOpen) {
+            setStartDate(defaultStartDate);
+            setEndDate(defaultEndDate);
+        }
+    }, [isOpen, defaultStartDate, defaultEndDate]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-md transform transition-all duration-300 scale-95 opacity-0 animate-fade-in-scale" onClick={e => e.stopPropagation()}>
+                <div className="p-5 border-b dark:border-slate-700">
+                    <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <DownloadIcon className="w-6 h-6 text-indigo-500" />
+                        Export
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">Dates default to the active fiscal period.</p>
+                </div>
+                <div className="p-5 space-y-4 text-sm">
+                    <div>
+                        <label className="block text-xs font-medium text-slate-500 mb-1">Data</label>
+                        <select value={type} onChange={e => setType(e.target.value as 'transactions' | 'journals')} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                            <option value="transactions">Bank transactions</option>
+                            <option value="journals">Journal entries</option>
+                        </select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">From</label>
+                            <input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">To</label>
+                            <input type="date" value={endDate} onChange={e => setEndDate(e.target.value)} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                        </div>
+                    </div>
+                </div>
+                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-end items-center rounded-b-lg border-t dark:border-slate-700 gap-3">
+                    <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 transition-colors px-4 py-2 rounded-md hover:bg-slate-200 dark:text-slate-300 dark:hover:text-slate-100 dark:hover:bg-slate-700">Cancel</button>
+                    <button onClick={() => onExport({ format: 'csv', type, startDate, endDate })} disabled={!startDate || !endDate || startDate > endDate} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed">Export CSV</button>
+                </div>
+                <style>{`@keyframes fade-in-scale { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } } .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }`}</style>
+            </div>
+        </div>
+    );
+};
+
+const PeriodManagerModal = ({ isOpen, onClose, periods, activePeriod, calendar, onSetActive, onDelete, onRename, onCreate, onClosePeriod, onReopenPeriod, onOpenYearEnd, onOpenFiscalCalendar }: {
     isOpen: boolean;
     onClose: () => void;
     periods: Session[];
     activePeriod: string;
+    calendar: FiscalCalendar;
     onSetActive: (period: string) => void;
     onDelete: (period: string) => void;
     onRename: (oldPeriod: string, newPeriod: string) => void;
     onCreate: (period: string) => void;
+    onClosePeriod: (period: string) => void;
+    onReopenPeriod: (period: string) => void;
+    onOpenYearEnd: () => void;
+    onOpenFiscalCalendar: () => void;
 }) => {
-    const [newPeriodInput, setNewPeriodInput] = useState(new Date().toISOString().slice(0, 7));
+    const [newPeriodDate, setNewPeriodDate] = useState(new Date().toISOString().slice(0, 10));
     const [editing, setEditing] = useState<{ old: string, new: string } | null>(null);
 
     if (!isOpen) return null;
 
+    const newPeriod = newPeriodDate ? getPeriodForDate(calendar, newPeriodDate) : null;
+
     const handleCreate = () => {
-        onCreate(newPeriodInput);
-        setNewPeriodInput(new Date().toISOString().slice(0, 7)); // Reset
+        if (!newPeriod) return;
+        onCreate(newPeriod.key);
+        setNewPeriodDate(new Date().toISOString().slice(0, 10)); // Reset
     };
 
     const handleSaveRename = () => {
@@ -778,13 +1089,14 @@ const PeriodManagerModal = ({ isOpen, onClose, periods, activePeriod, onSetActiv
                         <h4 className="font-semibold mb-2">Create New Period</h4>
                         <div className="flex gap-2">
                             <input
-                                type="month"
-                                value={newPeriodInput}
-                                onChange={e => setNewPeriodInput(e.target.value)}
+                                type="date"
+                                value={newPeriodDate}
+                                onChange={e => setNewPeriodDate(e.target.value)}
                                 className="w-full p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600"
                             />
-                            <button onClick={handleCreate} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-indigo-700">Create</button>
+                            <button onClick={handleCreate} disabled={!newPeriod} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-sm hover:bg-indigo-700 disabled:bg-slate-400">Create</button>
                         </div>
+                        {newPeriod && <p className="text-xs text-slate-500 mt-1">Creates the period containing this date: {newPeriod.label}, {newPeriod.startDate} to {newPeriod.endDate}.</p>}
                     </div>
 
                     <div>
@@ -798,17 +1110,30 @@ const PeriodManagerModal = ({ isOpen, onClose, periods, activePeriod, onSetActiv
                                                 type="text" 
                                                 value={editing.new}
                                                 onChange={e => setEditing({...editing, new: e.target.value})}
-                                                pattern="\d{4}-\d{2}"
+                                                placeholder={calendar.kind === 'monthly' ? 'YYYY-MM' : 'FY2025-P01'}
                                                 className="w-32 p-1 border rounded-md dark:bg-slate-700 dark:border-slate-600 text-sm"
                                             />
                                             <button onClick={handleSaveRename} className="p-1.5 text-green-600 hover:bg-green-100 rounded-full"><CheckIcon className="w-4 h-4"/></button>
                                             <button onClick={() => setEditing(null)} className="p-1.5 text-slate-500 hover:bg-slate-200 rounded-full"><XIcon className="w-4 h-4"/></button>
                                         </div>
                                     ) : (
-                                        <span className="font-medium">{p.period} {p.period === activePeriod && <span className="text-xs text-indigo-600 dark:text-indigo-400 font-normal">(Active)</span>}</span>
+                                        <div>
+                                            <span className="font-medium">{getPeriodLabel(calendar, p.period)} {p.period === activePeriod && <span className="text-xs text-indigo-600 dark:text-indigo-400 font-normal">(Active)</span>}</span>
+                                            {p.closedAt && <span className="ml-2 text-xs font-semibold bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-300 px-2 py-0.5 rounded-full">Closed</span>}
+                                            {p.statusHistory && p.statusHistory.length > 0 && (
+                                                <ul className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                                                    {p.statusHistory.map((change, index) => (
+                                                        <li key={index}>{change.action === 'closed' ? 'Closed' : 'Reopened'} {new Date(change.timestamp).toLocaleString()}{change.reason && ` — ${change.reason}`}</li>
+                                                    ))}
+                                                </ul>
+                                            )}
+                                        </div>
                                     )}
                                     <div className="flex items-center gap-2">
                                         {p.period !== activePeriod && <button onClick={() => onSetActive(p.period)} className="text-sm font-semibold text-indigo-600 hover:underline">Set Active</button>}
+                                        {p.closedAt
+                                            ? <button onClick={() => onReopenPeriod(p.period)} className="text-sm font-semibold text-amber-600 hover:underline">Reopen</button>
+                                            : <button onClick={() => onClosePeriod(p.period)} className="text-sm font-semibold text-slate-600 dark:text-slate-300 hover:underline">Close Period</button>}
                                         <button onClick={() => setEditing({ old: p.period, new: p.period })} title="Rename" className="p-1.5 text-slate-500 hover:text-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full"><PencilIcon className="w-4 h-4"/></button>
                                         <button onClick={() => onDelete(p.period)} title="Delete" className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full"><TrashIcon className="w-4 h-4"/></button>
                                     </div>
@@ -818,7 +1143,11 @@ const PeriodManagerModal = ({ isOpen, onClose, periods, activePeriod, onSetActiv
                     </div>
                 </div>
 
-                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-end items-center rounded-b-lg border-t dark:border-slate-700">
+                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-between items-center rounded-b-lg border-t dark:border-slate-700">
+                    <div className="flex gap-4">
+                        <button onClick={onOpenYearEnd} className="text-sm font-semibold text-indigo-600 hover:underline">Year-End Close…</button>
+                        <button onClick={onOpenFiscalCalendar} className="text-sm font-semibold text-indigo-600 hover:underline">Fiscal Calendar…</button>
+                    </div>
                     <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 transition-colors px-4 py-2 rounded-md hover:bg-slate-200 dark:text-slate-300 dark:hover:text-slate-100 dark:hover:bg-slate-700">Close</button>
                 </div>
                 <style>{`@keyframes fade-in-scale { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } } .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }`}</style>
@@ -827,7 +1156,7 @@ const PeriodManagerModal = ({ isOpen, onClose, periods, activePeriod, onSetActiv
     );
 };
 
-const AiJournalEntryModal = ({ isOpen, onClose, onSave, accounts, selectedTransactions, selectedBankAccountId, tryAiFeature }: { isOpen: boolean, onClose: () => void, onSave: (entry: JournalEntry, sourceTxs: Transaction[]) => void, accounts: Account[], selectedTransactions: Transaction[], selectedBankAccountId: string, tryAiFeature: () => Promise<boolean> }) => {
+const AiJournalEntryModal = ({ isOpen, onClose, onSave, accounts, dimensions, selectedTransactions, reconciledTransactions, selectedBankAccountId, tryAiFeature }: { isOpen: boolean, onClose: () => void, onSave: (entry: JournalEntry, sourceTxs: Transaction[]) => void, accounts: Account[], dimensions: AnalysisDimension[], selectedTransactions: Transaction[], reconciledTransactions: ReconciledTransaction[], selectedBankAccountId: string, tryAiFeature: () => Promise<boolean> }) => {
     const [entry, setEntry] = useState<JournalEntry | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
@@ -854,8 +1183,9 @@ const AiJournalEntryModal = ({ isOpen, onClose, onSave, accounts, selectedTransa
 
         try {
             const ai = new GoogleGenAI({ apiKey: getApiKey() });
-            const chartOfAccountsForAI = accounts.map(({ id, code, name, type }) => ({ id, code, name, type }));
-            const transactionsForAI = selectedTransactions.map(({ date, description, amount, type }) => ({ date, description, amount, type }));
+            const chartOfAccountsForAI = accounts.filter(isPostingAccount).map(({ id, code, name, type }) => ({ id, code, name, type }));
+            // Partly reconciled rows are journalised for the part no journal covers yet.
+            const transactionsForAI = selectedTransactions.map(tx => ({ date: tx.date, description: tx.description, amount: getUnreconciledAmount(tx, reconciledTransactions), type: tx.type }));
             const bankAccount = accounts.find(a => a.id === selectedBankAccountId);
 
             if (!bankAccount) throw new Error("Selected bank account not found in Chart of Accounts.");
@@ -939,6 +1269,10 @@ ${JSON.stringify(transactionsForAI, null, 2)}
         });
     };
     
+    const handleUpdateLineDimension = (lineId: string, dimensionId: string, valueId: string) => {
+        setEntry(prev => prev && { ...prev, lines: prev.lines.map(line => line.id === lineId ? setLineDimension(line, dimensionId, valueId) : line) });
+    };
+
     const totals = useMemo(() => {
         if (!entry) return { debit: 0, credit: 0 };
         return entry.lines.reduce((acc, line) => ({
@@ -952,6 +1286,8 @@ ${JSON.stringify(transactionsForAI, null, 2)}
     const handleSave = () => {
         if (!entry || !isBalanced) return alert("Journal entry must be balanced.");
         if (entry.lines.some(l => !l.accountId)) return alert("All lines must have an account.");
+        const headerPostings = findHeaderPostings(accounts, entry.lines);
+        if (headerPostings.length > 0) return alert(`Header accounts cannot receive postings: ${headerPostings.join(', ')}. Please choose one of their sub-accounts.`);
         onSave(entry, selectedTransactions);
     };
 
@@ -984,6 +1320,7 @@ ${JSON.stringify(transactionsForAI, null, 2)}
                                     <thead className="bg-slate-100 dark:bg-slate-700">
                                         <tr>
                                             <th className="p-2 text-left font-semibold w-2/5">Account</th>
+                                            {dimensions.map(d => <th key={d.id} className="p-2 text-left font-semibold">{d.name}</th>)}
                                             <th className="p-2 text-right font-semibold">Debit</th>
                                             <th className="p-2 text-right font-semibold">Credit</th>
                                         </tr>
@@ -992,6 +1329,7 @@ ${JSON.stringify(transactionsForAI, null, 2)}
                                         {entry.lines.map(line => (
                                             <tr key={line.id} className="border-b dark:border-slate-700">
                                                 <td className="p-1.5"><SearchableAccountSelect accounts={accounts} value={line.accountId} onChange={accId => handleUpdateLine(line.id, 'accountId', accId)} /></td>
+                                                {dimensions.map(d => <td key={d.id} className="p-1.5"><DimensionSelect dimension={d} value={line.dimensions?.[d.id] || ''} onChange={valueId => handleUpdateLineDimension(line.id, d.id, valueId)} /></td>)}
                                                 <td className="p-1.5"><input type="number" value={line.debit || ''} onChange={e => handleUpdateLine(line.id, 'debit', parseFloat(e.target.value))} className="w-full p-1 text-right border rounded-md dark:bg-slate-700 dark:border-slate-600 font-mono" /></td>
                                                 <td className="p-1.5"><input type="number" value={line.credit || ''} onChange={e => handleUpdateLine(line.id, 'credit', parseFloat(e.target.value))} className="w-full p-1 text-right border rounded-md dark:bg-slate-700 dark:border-slate-600 font-mono" /></td>
                                             </tr>
@@ -999,7 +1337,7 @@ ${JSON.stringify(transactionsForAI, null, 2)}
                                     </tbody>
                                     <tfoot>
                                         <tr className="bg-slate-50 dark:bg-slate-800/50 font-semibold">
-                                            <td className="p-2 text-right">Totals</td>
+                                            <td colSpan={1 + dimensions.length} className="p-2 text-right">Totals</td>
                                             <td className="p-2 text-right font-mono">{currencyFormatter(totals.debit)}</td>
                                             <td className="p-2 text-right font-mono">{currencyFormatter(totals.credit)}</td>
                                         </tr>
@@ -1024,18 +1362,23 @@ ${JSON.stringify(transactionsForAI, null, 2)}
 const App: React.FC = () => {
     // --- STATE MANAGEMENT ---
     const [statementTransactions, setStatementTransactions] = useState<Transaction[]>([]);
-    const [accounts, setAccounts] = useState<Account[]>(DEFAULT_ACCOUNTS);
+    const [statementFiles, setStatementFiles] = useState<StatementFile[]>([]);
+    const [chartOfAccounts, setChartOfAccounts] = useState<WorkspaceChartOfAccounts | null>(loadChartOfAccounts);
+    // One chart of accounts is shared by every period; see services/chartOfAccounts.ts
+    const accounts = useMemo(() => chartOfAccounts ? getCurrentVersion(chartOfAccounts).accounts : DEFAULT_ACCOUNTS, [chartOfAccounts]);
     const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
     const [reconciledTransactions, setReconciledTransactions] = useState<ReconciledTransaction[]>([]);
     
     const [periods, setPeriods] = useState<Session[]>([]);
-    const [activePeriod, setActivePeriod] = useState<string>(new Date().toISOString().slice(0, 7)); // e.g. "2024-07"
-    const [duplicateGroups, setDuplicateGroups] = useState<string[][]>([]);
+    const [fiscalCalendar, setFiscalCalendar] = useState<FiscalCalendar>(loadFiscalCalendar);
+    const [activePeriod, setActivePeriod] = useState<string>(() => getCurrentPeriodKey(loadFiscalCalendar())); // e.g. "2024-07" or "FY2025-P01"
+    const [duplicateGroups, setDuplicateGroups] = useState<DuplicateGroup[]>([]);
 
-    const [activeView, setActiveView] = useState<'statement' | 'journal'>('statement');
+    const [activeView, setActiveView] = useState<'statement' | 'journal' | 'ledger' | 'trialBalance' | 'statements' | 'reconciliation'>('statement');
     const [isLoading, setIsLoading] = useState(false);
     const [loadingMessage, setLoadingMessage] = useState("Processing...");
     const [error, setError] = useState<string | null>(null);
+    const [warning, setWarning] = useState<string | null>(null); // For imports that succeeded but need checking
 
     // Bank Statement View State
     const [selectedBankAccountId, setSelectedBankAccountId] = useState<string>('');
@@ -1055,8 +1398,12 @@ const App: React.FC = () => {
     const [txMinAmount, setTxMinAmount] = useState('');
     const [txMaxAmount, setTxMaxAmount] = useState('');
     const [txTypeFilter, setTxTypeFilter] = useState<'all' | 'debit' | 'credit'>('all');
-    const [txStatusFilter, setTxStatusFilter] = useState<'all' | 'posted' | 'unposted'>('all');
+    const [txStatusFilter, setTxStatusFilter] = useState<'all' | 'posted' | 'partial' | 'unposted'>('all');
+    const [txAccountFilter, setTxAccountFilter] = useState('');
+    const [txFileFilter, setTxFileFilter] = useState('');
+    const [txDimensionFilter, setTxDimensionFilter] = useState<DimensionValues>({});
     const [jeSearchTerm, setJeSearchTerm] = useState('');
+    const [jeDimensionFilter, setJeDimensionFilter] = useState<DimensionValues>({});
 
 
     // Modal State
@@ -1069,26 +1416,58 @@ const App: React.FC = () => {
     const [improverCallback, setImproverCallback] = useState<(text: string) => void>(() => () => {});
     const [isAiJournalModalOpen, setIsAiJournalModalOpen] = useState(false);
     const [isImportJournalModalOpen, setIsImportJournalModalOpen] = useState(false);
+    const [isYearEndModalOpen, setIsYearEndModalOpen] = useState(false);
+    const [isFiscalCalendarModalOpen, setIsFiscalCalendarModalOpen] = useState(false);
+    const [dimensions, setDimensions] = useState<AnalysisDimension[]>(loadDimensions);
+    const activeDimensions = useMemo(() => getActiveDimensions(dimensions), [dimensions]);
+    const [isDimensionsModalOpen, setIsDimensionsModalOpen] = useState(false);
+    const [bulkDimensions, setBulkDimensions] = useState<DimensionValues>({}); // Applied to the contra lines of bulk-posted transactions
+    const [bankRules, setBankRules] = useState<BankRule[]>(loadBankRules);
+    const [isBankRulesModalOpen, setIsBankRulesModalOpen] = useState(false);
     const [isExportModalOpen, setIsExportModalOpen] = useState(false);
     const [isPeriodManagerOpen, setIsPeriodManagerOpen] = useState(false);
     const [isSummaryModalOpen, setIsSummaryModalOpen] = useState(false);
     const [summaryContent, setSummaryContent] = useState('');
     const [isSummaryLoading, setIsSummaryLoading] = useState(false);
+    const [columnProfiles, setColumnProfiles] = useState<ColumnProfile[]>(loadColumnProfiles);
+    const [isDuplicateModalOpen, setIsDuplicateModalOpen] = useState(false);
+    const [duplicateRules, setDuplicateRules] = useState<DuplicateRules>(loadDuplicateRules);
+    const [isMatchingModalOpen, setIsMatchingModalOpen] = useState(false);
+    const [matchOptions, setMatchOptions] = useState<MatchOptions>(DEFAULT_MATCH_OPTIONS);
+    const [pendingSpreadsheet, setPendingSpreadsheet] = useState<{ rows: unknown[][], fileName: string, bankAccountId: string } | null>(null);
+    const [pendingStatements, setPendingStatements] = useState<{ statements: ParsedStatement[], fileName: string, format: StatementFormat, bankAccountId: string } | null>(null);
+    const [filesToAssign, setFilesToAssign] = useState<File[] | null>(null);
+    const [uploadQueue, setUploadQueue] = useState<QueuedUpload[]>([]);
+    const [activeUpload, setActiveUpload] = useState<QueuedUpload | null>(null);
 
     const { usage, tryAiFeature } = useAiLimiter((e) => setError(getErrorMessage(e)));
     const fileInputRef = useRef<HTMLInputElement>(null);
     const highlightedRef = useRef<HTMLTableRowElement>(null);
+    // The rows and reconciliations an import merges into. Imports finish after awaits, when the state they closed over
+    // may be out of date, so this follows every render and every import.
+    const importBaseRef = useRef({ statementTransactions, reconciledTransactions });
+    importBaseRef.current = { statementTransactions, reconciledTransactions };
     
     // --- EFFECTS ---
     // Load all periods from local storage on initial app load
     useEffect(() => {
         try {
             const storedPeriods = localStorage.getItem('aiBookkeeper_periods');
-            if (storedPeriods) {
-                const loadedPeriods = JSON.parse(storedPeriods);
-                const periodsArray = Object.values(loadedPeriods) as Session[];
-                setPeriods(periodsArray);
+            const loadedPeriods: Record<string, Session> = storedPeriods ? JSON.parse(storedPeriods) : {};
+            let periodsArray = (Object.values(loadedPeriods) as Session[]).map(migrateSessionTransactionIds);
+            // Persist periods whose statement rows were moved to fingerprint ids so the migration runs once.
+            if (periodsArray.some(p => p !== loadedPeriods[p.period])) {
+                localStorage.setItem('aiBookkeeper_periods', JSON.stringify(Object.fromEntries(periodsArray.map(p => [p.period, p]))));
+            }
+            // Periods saved with their own copy of the chart are moved onto the workspace chart, matching accounts by code.
+            const migrated = migrateToWorkspaceChart(Object.fromEntries(periodsArray.map(p => [p.period, p])), loadChartOfAccounts(), DEFAULT_ACCOUNTS);
+            if (migrated) {
+                saveChartOfAccounts(migrated.chart);
+                localStorage.setItem('aiBookkeeper_periods', JSON.stringify(migrated.periods));
+                setChartOfAccounts(migrated.chart);
+                periodsArray = Object.values(migrated.periods);
             }
+            setPeriods(periodsArray);
         } catch (e) {
             console.error("Could not load periods from local storage.", e);
             setError("Warning: Could not load saved periods. Your previous work might be missing.");
@@ -1099,23 +1478,32 @@ const App: React.FC = () => {
     // Load data for the active period whenever it changes
     useEffect(() => {
         const periodData = periods.find(p => p.period === activePeriod);
+        const storedStatements = periodData?.statements || [];
         if (periodData) {
-            setAccounts(periodData.accounts);
             setJournalEntries(periodData.journalEntries);
             setReconciledTransactions(periodData.reconciledTransactions || []);
         } else {
-            // New period, start with defaults
-            setAccounts(DEFAULT_ACCOUNTS);
+            // New period, start empty
             setJournalEntries([]);
             setReconciledTransactions([]);
         }
-        // Clear statement-specific state when period changes
-        setStatementTransactions([]);
+        // Reload the period's statements so unreconciled items survive a browser restart
+        setStatementTransactions(loadStoredStatements(storedStatements, periodData?.reconciledTransactions || []));
+        setStatementFiles(storedStatements.map(s => s.file));
         setSelectedTx(new Set());
         setDuplicateGroups([]);
-        setSelectedBankAccountId('');
+        setSelectedBankAccountId(storedStatements.length === 1 ? storedStatements[0].file.bankAccountId : '');
     }, [activePeriod, periods]);
 
+    // Statement files are imported one at a time so each can stop for column mapping or account choice.
+    useEffect(() => {
+        if (activeUpload || uploadQueue.length === 0) return;
+        const [next, ...rest] = uploadQueue;
+        setUploadQueue(rest);
+        setActiveUpload(next);
+        importStatementFile(next);
+    }, [uploadQueue, activeUpload]);
+
 
     useEffect(() => {
         if (highlightedItem && highlightedRef.current) {
@@ -1124,38 +1512,109 @@ const App: React.FC = () => {
         }
     }, [highlightedItem]);
 
-    const handleFileUpload = async (file: File) => {
-        if (!file || !selectedBankAccountId) {
-            alert("Please select a bank account before uploading a file.");
-            return;
+    const handleFilesSelected = (files: File[]) => {
+        if (files.length === 0) return;
+        if (files.length === 1 && selectedBankAccountId) {
+            handleQueueUploads([{ file: files[0], bankAccountId: selectedBankAccountId }]);
+        } else if (bankAccounts.length === 0) {
+            alert("Please add a bank account to your Chart of Accounts before uploading statements.");
+        } else {
+            setFilesToAssign(files);
         }
-        setIsLoading(true);
-        setLoadingMessage(`Reading ${file.name}...`);
+    };
+
+    const handleQueueUploads = (uploads: QueuedUpload[]) => {
+        setFilesToAssign(null);
         setError(null);
+        setWarning(null);
         setDuplicateGroups([]);
+        setUploadQueue(prev => [...prev, ...uploads]);
+    };
 
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-            try {
-                const fileBuffer = e.target?.result as ArrayBuffer;
-                if (file.type.includes('pdf')) {
-                    await parsePdf(fileBuffer);
-                } else {
-                    await parseSpreadsheet(fileBuffer);
-                }
-            } catch (err) {
-                console.error("File processing error:", err);
-                setError(getErrorMessage(err));
-                setIsLoading(false);
+    const finishUpload = () => {
+        setIsLoading(false);
+        setActiveUpload(null);
+    };
+
+    const importStatementFile = async ({ file, bankAccountId }: QueuedUpload) => {
+        setIsLoading(true);
+        setLoadingMessage(`Reading ${file.name}...`);
+        try {
+            const fileBuffer = await file.arrayBuffer();
+            const extension = file.name.split('.').pop()?.toLowerCase() || '';
+            if (file.type.includes('pdf') || extension === 'pdf') {
+                await parsePdf(fileBuffer, file.name, bankAccountId);
+            } else if (extension === 'ofx' || extension === 'qfx') {
+                setLoadingMessage("Parsing OFX statement...");
+                importParsedStatements(parseOfx(decodeTextFile(fileBuffer)), file.name, 'ofx', bankAccountId);
+            } else if (extension === 'qif') {
+                setLoadingMessage("Parsing QIF statement...");
+                importParsedStatements(parseQif(decodeTextFile(fileBuffer)), file.name, 'qif', bankAccountId);
+            } else if (extension === 'xml') {
+                setLoadingMessage("Parsing camt.053 statement...");
+                importParsedStatements(parseCamt053(decodeTextFile(fileBuffer)), file.name, 'camt053', bankAccountId);
+            } else if (['sta', 'mt940', '940'].includes(extension) || (extension === 'txt' && looksLikeMt940(decodeTextFile(fileBuffer)))) {
+                setLoadingMessage("Parsing MT940 statement...");
+                importParsedStatements(parseMt940(decodeTextFile(fileBuffer)), file.name, 'mt940', bankAccountId);
+            } else {
+                await parseSpreadsheet(fileBuffer, file.name, bankAccountId);
             }
-        };
-        reader.readAsArrayBuffer(file);
+        } catch (err) {
+            console.error("File processing error:", err);
+            setError(`${file.name}: ${getErrorMessage(err)}`);
+            finishUpload();
+        }
     };
     
-    const processAndSetTransactions = (parsedTxs: any[]) => {
-        const reconciledIds = new Set(reconciledTransactions.map(rt => rt.id));
+    const importParsedStatements = (statements: ParsedStatement[], fileName: string, format: StatementFormat, bankAccountId: string) => {
+        const accountIdentifiers = new Set(statements.map(s => s.accountIdentifier || ''));
+        if (accountIdentifiers.size > 1) {
+            // The file covers several accounts; ask which bank account each one belongs to.
+            setPendingStatements({ statements, fileName, format, bankAccountId });
+            setIsLoading(false);
+            return;
+        }
+        const { lines, ...balances } = mergeParsedStatements(statements);
+        processAndSetTransactions(lines, { fileName, format, bankAccountId, ...balances });
+    };
+
+    /**
+     * Bank accounts to offer for each account in a multi-account file: the one that account was imported into before,
+     * otherwise the bank account chosen for the upload for the first account still unassigned. The rest are skipped.
+     */
+    const getStatementAccountDefaults = ({ statements, bankAccountId }: { statements: ParsedStatement[], bankAccountId: string }) => {
+        const previous = new Map<string, string>(bookSessions.flatMap(s => s.statements || [])
+            .filter(({ file }) => file.accountIdentifier && bankAccounts.some(a => a.id === file.bankAccountId))
+            .map(({ file }) => [file.accountIdentifier!, file.bankAccountId]));
+        const defaults: Record<string, string> = {};
+        new Set<string>(statements.map(s => s.accountIdentifier || '')).forEach(accountIdentifier => {
+            defaults[accountIdentifier] = previous.get(accountIdentifier) || '';
+        });
+        const unassigned = Object.keys(defaults).find(accountIdentifier => !defaults[accountIdentifier]);
+        if (unassigned !== undefined && !Object.values(defaults).includes(bankAccountId)) defaults[unassigned] = bankAccountId;
+        return defaults;
+    };
+
+    const handleImportStatementAccounts = (accountIds: Record<string, string>) => {
+        if (!pendingStatements) return;
+        const { statements, fileName, format } = pendingStatements;
+        setPendingStatements(null);
+        // Each account is imported as its own file, so its balances are checked on their own.
+        Object.entries(accountIds).filter(([, bankAccountId]) => bankAccountId).forEach(([accountIdentifier, bankAccountId]) => {
+            const { lines, ...balances } = mergeParsedStatements(statements.filter(s => (s.accountIdentifier || '') === accountIdentifier));
+            processAndSetTransactions(lines, { fileName, format, bankAccountId, ...balances });
+        });
+    };
+
+    const handleCancelStatementAccount = () => {
+        setPendingStatements(null);
+        finishUpload();
+    };
+
+    const processAndSetTransactions = (parsedTxs: any[], source: Omit<StatementFile, 'id' | 'importedAt'>) => {
+        const fileId = generateUUID();
         
-        const newTransactions: Transaction[] = parsedTxs.map((tx: any) => {
+        const parsedTransactions: Transaction[] = parsedTxs.map((tx: any, line: number) => {
              // Sanitize amount
             const amount = Math.abs(parseFloat(String(tx.debit || tx.credit || 0)));
 
@@ -1191,83 +1650,225 @@ const App: React.FC = () => {
                 }
             }
             
-            const id = `${date}-${description}-${amount}-${type}`;
-            // Fix: Explicitly type the reconciliationStatus to prevent TypeScript from inferring a broad 'string' type.
-            const reconciliationStatus: 'posted' | 'unposted' = reconciledIds.has(id) ? 'posted' : 'unposted';
+            // A bank-assigned id (OFX FITID) is stable across downloads, so it becomes part of the row's identity.
+            const externalId = typeof tx.externalId === 'string' && tx.externalId.trim() ? tx.externalId.trim() : undefined;
+            const balance = typeof tx.balance === 'number' && !isNaN(tx.balance) ? tx.balance : undefined;
+            const valueDate = typeof tx.valueDate === 'string' && tx.valueDate !== date ? tx.valueDate : undefined;
+            const reference = typeof tx.reference === 'string' && tx.reference.trim() ? tx.reference.trim() : undefined;
+            const ocrConfidence = typeof tx.ocrConfidence === 'number' ? tx.ocrConfidence : undefined;
 
             return {
-                id,
+                id: '', // Assigned below, once the whole statement is known
                 date,
                 description,
                 amount,
                 type,
-                reconciliationStatus: reconciliationStatus,
+                ...(balance !== undefined && { balance }),
+                ...(externalId && { externalId }),
+                ...(valueDate && { valueDate }),
+                ...(reference && { reference }),
+                ...(ocrConfidence !== undefined && { ocrConfidence }),
+                bankAccountId: source.bankAccountId,
+                sources: [{ fileId, line }],
             }
         }).filter(tx => !isNaN(tx.amount)); // Filter out transactions where amount couldn't be parsed
-
-        setStatementTransactions(newTransactions);
-        setIsLoading(false);
+        const newTransactions = assignTransactionIds(parsedTransactions, source.bankAccountId);
+
+        // Formats without statement balances (PDF, spreadsheets, QIF) may still print a running balance per row.
+        const inferred = inferStatementBalances(newTransactions);
+        const file: StatementFile = {
+            ...source,
+            openingBalance: source.openingBalance ?? inferred.openingBalance,
+            closingBalance: source.closingBalance ?? inferred.closingBalance,
+            id: fileId,
+            importedAt: Date.now(),
+        };
+        // Rows already imported from an overlapping file for the same account are collapsed into one.
+        const base = importBaseRef.current;
+        const merged = mergeStatementRows(base.statementTransactions, newTransactions, fileId).transactions;
+        // Postings saved before rows had fingerprint ids are matched to this statement's rows now.
+        const adoptedReconciliations = adoptLegacyReconciliations(merged, base.reconciledTransactions);
+        const updatedTransactions = withReconciliationStatus(merged, adoptedReconciliations);
+        importBaseRef.current = { statementTransactions: updatedTransactions, reconciledTransactions: adoptedReconciliations };
+        if (adoptedReconciliations !== base.reconciledTransactions) setReconciledTransactions(adoptedReconciliations);
+        setStatementTransactions(updatedTransactions);
+        setStatementFiles(prev => [...prev, file]);
+        setSelectedTx(new Set());
+        finishUpload();
     };
     
-    const parsePdf = async (fileBuffer: ArrayBuffer) => {
+    const parsePdf = async (fileBuffer: ArrayBuffer, fileName: string, bankAccountId: string) => {
         if (!(await tryAiFeature())) {
-            setIsLoading(false);
+            finishUpload();
             return;
         }
 
         try {
             setLoadingMessage("Extracting text from PDF...");
-            // Set worker source. It's crucial for performance and to avoid issues in some environments.
-            pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs`;
-
-            const pdfDoc = await pdfjsLib.getDocument({ data: fileBuffer }).promise;
-            let fullText = '';
-            for (let i = 1; i <= pdfDoc.numPages; i++) {
-                const page = await pdfDoc.getPage(i);
-                const textContent = await page.getTextContent();
-                fullText += textContent.items.map((item: any) => (item as {str: string}).str).join(' ') + '\n';
+            const pdfDoc = await loadPdfDocument(fileBuffer);
+            const pageTexts = await extractPdfPageTexts(pdfDoc);
+
+            // Scanned pages have no text layer; read them with local OCR before the normal extraction.
+            const imageOnlyPages = findImageOnlyPages(pageTexts);
+            const ocrPages = new Map<number, OcrPage>();
+            if (imageOnlyPages.length > 0) {
+                try {
+                    const recognized = await recognizePdfPages(pdfDoc, imageOnlyPages, (page, index) => {
+                        setLoadingMessage(`Running OCR on scanned page ${page} (${index + 1} of ${imageOnlyPages.length})...`);
+                    });
+                    recognized.forEach(ocrPage => {
+                        ocrPages.set(ocrPage.page, ocrPage);
+                        pageTexts[ocrPage.page - 1] = ocrPage.text;
+                    });
+                } catch (ocrErr) {
+                    console.error("OCR failed:", ocrErr);
+                    if (imageOnlyPages.length === pageTexts.length) {
+                        throw new Error(`This PDF is a scan and OCR failed: ${getErrorMessage(ocrErr)}`);
+                    }
+                }
+            }
+
+            const chunks = buildPdfChunks(pageTexts);
+            if (chunks.length === 0 || pageTexts.every(text => !text.trim())) {
+                throw new Error("No text could be extracted from this PDF.");
             }
 
-            setLoadingMessage("AI is analyzing statement...");
             const ai = new GoogleGenAI({ apiKey: getApiKey() });
-            
-            const prompt = `Extract structured transaction data from the following bank statement text. For each transaction, provide the date, description, and either a debit or credit amount. Ignore balance columns. Format the output as a JSON array of objects. Each object should have keys: "date" (YYYY-MM-DD), "description", "debit" (as a number), and "credit" (as a number). If a value is not present, use null.
+            const results: PdfExtractedRow[][] = [];
+            const failedPages: number[] = [];
+
+            // Chunks are processed one after another so results stay in document order.
+            for (const chunk of chunks) {
+                const firstPage = chunk.pages[0];
+                const lastPage = chunk.pages[chunk.pages.length - 1];
+                setLoadingMessage(`AI is analyzing page${firstPage === lastPage ? ` ${firstPage}` : `s ${firstPage}–${lastPage}`} of ${pageTexts.length}...`);
+
+                const prompt = `Extract structured transaction data from the following bank statement text. Each page starts with a marker like "--- Page N ---". For each transaction, provide the date, description, either a debit or credit amount, the running balance printed on that row, and the number of the page it appears on. Ignore opening/closing balance lines and page totals. Format the output as a JSON array of objects. Each object should have keys: "date" (YYYY-MM-DD), "description", "debit" (as a number), "credit" (as a number), "balance" (as a number, negative when overdrawn) and "page" (as a number). If a value is not present, use null. If there are no transactions, return [].
             Text:
-            ${fullText.substring(0, 30000)}
+            ${chunk.text}
             `;
 
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: prompt,
-                config: { responseMimeType: "application/json" }
+                try {
+                    const response = await ai.models.generateContent({
+                        model: "gemini-2.5-flash",
+                        contents: prompt,
+                        config: { responseMimeType: "application/json" }
+                    });
+                    const rows = safeParseJson(response.text);
+                    results.push(Array.isArray(rows) ? rows : []);
+                } catch (chunkErr) {
+                    console.error(`PDF chunk (pages ${chunk.pages.join(', ')}) failed:`, chunkErr);
+                    failedPages.push(...chunk.pages);
+                    results.push([]);
+                }
+            }
+
+            if (failedPages.length === pageTexts.length) {
+                throw new Error("The AI could not analyze any page of this statement.");
+            }
+
+            const { rows, emptyPages } = mergePdfChunkRows(chunks, results);
+            const rowsWithConfidence = rows.map(row => {
+                const ocrPage = row.page ? ocrPages.get(row.page) : undefined;
+                return ocrPage ? { ...row, ocrConfidence: estimateRowConfidence(row, ocrPage) } : row;
             });
-            
-            processAndSetTransactions(safeParseJson(response.text));
+            processAndSetTransactions(rowsWithConfidence, { fileName, format: 'pdf', bankAccountId });
+
+            const warnings: string[] = [];
+            if (failedPages.length > 0) warnings.push(`page(s) ${failedPages.join(', ')} could not be analyzed`);
+            const pagesWithoutRows = emptyPages.filter(p => !failedPages.includes(p));
+            if (pagesWithoutRows.length > 0) warnings.push(`no transactions were found on page(s) ${pagesWithoutRows.join(', ')}`);
+            if (warnings.length > 0) {
+                setWarning(`${fileName}: ${warnings.join('; ')}. Please check these pages against the original statement.`);
+            }
         } catch (err) {
             console.error("PDF Parsing Error:", err);
-            setError(`Failed to process PDF. The library may have failed to load or the file is corrupted. Please check your internet connection and try again. Error: ${getErrorMessage(err)}`);
-            setIsLoading(false);
+            setError(`Failed to process ${fileName}. The library may have failed to load or the file is corrupted. Please check your internet connection and try again. Error: ${getErrorMessage(err)}`);
+            finishUpload();
         }
     };
     
-    const parseSpreadsheet = async (fileBuffer: ArrayBuffer) => {
+    const parseSpreadsheet = async (fileBuffer: ArrayBuffer, fileName: string, bankAccountId: string) => {
         setLoadingMessage("Parsing spreadsheet...");
         const data = new Uint8Array(fileBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
+        // CSV cells are kept as text, so dates are read with the statement's date format rather than guessed month-first.
+        const workbook = XLSX.read(data, { type: 'array', raw: true });
         const sheetName = workbook.SheetNames[0];
         const worksheet = workbook.Sheets[sheetName];
-        const json: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-        
+        const json: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, blankrows: false });
+
+        // Reuse a saved column profile for this bank account when the export layout is recognised.
+        const headerRowIndex = detectHeaderRow(json);
+        const profile = findColumnProfile(columnProfiles, bankAccountId, json[headerRowIndex] || []);
+        if (profile) {
+            setLoadingMessage(`Importing with profile "${profile.name}"...`);
+            const { lines } = applyColumnProfile(json, headerRowIndex, profile);
+            if (lines.length > 0) {
+                processAndSetTransactions(lines, { fileName, format: 'spreadsheet', bankAccountId });
+                return;
+            }
+        }
+
+        setPendingSpreadsheet({ rows: json, fileName, bankAccountId });
+        setIsLoading(false);
+    };
+
+    const handleImportWithColumnProfile = (profile: ColumnProfile, headerRowIndex: number, saveProfile: boolean) => {
+        if (!pendingSpreadsheet) return;
+        if (saveProfile) {
+            // A bank account keeps one profile per export layout, so re-mapping the same layout replaces the old profile.
+            const updatedProfiles = [
+                ...columnProfiles.filter(p => !(p.bankAccountId === profile.bankAccountId && p.headerSignature === profile.headerSignature)),
+                profile,
+            ];
+            try {
+                saveColumnProfiles(updatedProfiles);
+            } catch (e) {
+                console.error("Failed to save column profile", e);
+                setError("Failed to save column profile. Your browser's local storage might be full or disabled.");
+            }
+            setColumnProfiles(updatedProfiles);
+        }
+        const { lines } = applyColumnProfile(pendingSpreadsheet.rows, headerRowIndex, profile);
+        setPendingSpreadsheet(null);
+        processAndSetTransactions(lines, { fileName: pendingSpreadsheet.fileName, format: 'spreadsheet', bankAccountId: pendingSpreadsheet.bankAccountId });
+    };
+
+    const handleDeleteColumnProfile = (id: string) => {
+        const updatedProfiles = columnProfiles.filter(p => p.id !== id);
+        try {
+            saveColumnProfiles(updatedProfiles);
+        } catch (e) {
+            console.error("Failed to delete column profile", e);
+        }
+        setColumnProfiles(updatedProfiles);
+    };
+
+    const handleInterpretSpreadsheetWithAi = async () => {
+        if (!pendingSpreadsheet) return;
+        const { rows, fileName, bankAccountId } = pendingSpreadsheet;
+        setPendingSpreadsheet(null);
         if (!(await tryAiFeature())) {
-             setIsLoading(false);
-             return;
+            finishUpload();
+            return;
         }
-        
+
+        setIsLoading(true);
+        try {
+            await parseSpreadsheetWithAi(rows as any[][], fileName, bankAccountId);
+        } catch (err) {
+            console.error("File processing error:", err);
+            setError(`${fileName}: ${getErrorMessage(err)}`);
+            finishUpload();
+        }
+    };
+
+    const parseSpreadsheetWithAi = async (json: any[][], fileName: string, bankAccountId: string) => {
         setLoadingMessage("AI is interpreting spreadsheet...");
         const headerSample = json.slice(0, 5).map(row => row.join(', ')).join('\n');
         
         const ai = new GoogleGenAI({ apiKey: getApiKey() });
-        const prompt = `Based on this spreadsheet sample, identify the columns for date, description, debit, and credit. Then, extract all rows into a JSON array of objects with keys: "date", "description", "debit", "credit". Normalize dates to YY-MM-DD. Treat money withdrawn as debit and money deposited as credit.
+        const prompt = `Based on this spreadsheet sample, identify the columns for date, description, debit, credit and running balance. Then, extract all rows into a JSON array of objects with keys: "date", "description", "debit", "credit", "balance". Normalize dates to YY-MM-DD. Treat money withdrawn as debit and money deposited as credit.
         Sample:
         ${headerSample}
         
@@ -1281,19 +1882,17 @@ const App: React.FC = () => {
             config: { responseMimeType: "application/json" }
         });
 
-        processAndSetTransactions(safeParseJson(response.text));
+        processAndSetTransactions(safeParseJson(response.text), { fileName, format: 'spreadsheet', bankAccountId });
     };
 
     const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
         e.preventDefault();
         e.stopPropagation();
-        const file = e.dataTransfer.files?.[0];
-        if (file) handleFileUpload(file);
+        handleFilesSelected(Array.from(e.dataTransfer.files || []));
     };
 
     const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) handleFileUpload(file);
+        handleFilesSelected(Array.from(e.target.files || []));
         e.target.value = ''; // Reset input
     };
 
@@ -1344,13 +1943,27 @@ const App: React.FC = () => {
         return journalEntries.find(je => je.id === reconciledTx.journalEntryId);
     };
 
+    // A bank line matched to several journals has a reconciliation record for each.
+    const getJournalsForTransaction = (txId: string): JournalEntry[] => {
+        const journalIds = new Set(reconciledTransactions.filter(rt => rt.id === txId).map(rt => rt.journalEntryId));
+        return journalEntries.filter(je => journalIds.has(je.id));
+    };
+
     const handleSaveNote = (txId: string) => {
         if(!notesEdit || notesEdit.id !== txId) return;
         setStatementTransactions(txs => txs.map(tx => tx.id === txId ? {...tx, notes: notesEdit.text} : tx));
         setNotesEdit(null);
     };
     
+    // Journals and reconciliations of a closed period stay as they were reported until the period is reopened.
+    const ensurePeriodOpen = () => {
+        if (!isPeriodLocked) return true;
+        alert(`Period ${getPeriodLabel(fiscalCalendar, activePeriod)} is closed. Reopen it from Manage Periods to change its journals or reconciliations.`);
+        return false;
+    };
+
     const handleOpenJournalModal = (tx: Transaction | null, entryToEdit: JournalEntry | null = null) => {
+        if (!ensurePeriodOpen()) return;
         if (entryToEdit) {
             setEditingJournal(entryToEdit);
             const linkedReconciledTx = reconciledTransactions.find(rt => rt.journalEntryId === entryToEdit.id);
@@ -1374,26 +1987,38 @@ const App: React.FC = () => {
     };
     
     const handleSaveJournal = (entry: JournalEntry) => {
+        if (!ensurePeriodOpen()) return;
         const isEditing = journalEntries.some(je => je.id === entry.id);
         if (isEditing) {
             setJournalEntries(prev => prev.map(je => je.id === entry.id ? entry : je));
+            // A journal posted from one bank line covers what it now posts to the bank, so the line may become partial.
+            const linkedRecons = reconciledTransactions.filter(rt => rt.journalEntryId === entry.id);
+            if (linkedRecons.length === 1) {
+                const [recon] = linkedRecons;
+                const others = reconciledTransactions.filter(rt => rt !== recon);
+                const amount = getAmountCoveredByJournal(entry, recon.bankAccountId, Math.max(recon.originalAmount - getReconciledTotal(recon.id, others), 0));
+                const nextReconciled = reconciledTransactions.map(rt => rt === recon ? { ...rt, amount } : rt);
+                setReconciledTransactions(nextReconciled);
+                setStatementTransactions(prev => withReconciliationStatus(prev, nextReconciled, new Set([recon.id])));
+            }
         } else {
             setJournalEntries(prev => [...prev, entry]);
-             if (journalLinkedTx && !reconciledTransactions.some(rt => rt.id === journalLinkedTx.id)) {
+             if (journalLinkedTx && getReconciliationStatus(journalLinkedTx, reconciledTransactions) !== 'posted') {
+                const bankAccountId = journalLinkedTx.bankAccountId || selectedBankAccountId;
                 const newRecon: ReconciledTransaction = {
                     id: journalLinkedTx.id,
                     period: activePeriod,
-                    bankAccountId: selectedBankAccountId,
+                    bankAccountId,
                     journalEntryId: entry.id,
                     originalDate: journalLinkedTx.date,
                     originalDescription: journalLinkedTx.description,
                     originalAmount: journalLinkedTx.amount,
-                    originalType: journalLinkedTx.type
+                    originalType: journalLinkedTx.type,
+                    amount: getAmountCoveredByJournal(entry, bankAccountId, getUnreconciledAmount(journalLinkedTx, reconciledTransactions)),
                 };
-                setReconciledTransactions(prev => [...prev, newRecon]);
-                setStatementTransactions(prev => prev.map(st => 
-                    st.id === journalLinkedTx.id ? { ...st, reconciliationStatus: 'posted' } : st
-                ));
+                const nextReconciled = [...reconciledTransactions, newRecon];
+                setReconciledTransactions(nextReconciled);
+                setStatementTransactions(prev => withReconciliationStatus(prev, nextReconciled, new Set([journalLinkedTx.id])));
             }
         }
         
@@ -1404,30 +2029,30 @@ const App: React.FC = () => {
     };
 
     const handleSaveAiJournal = (entry: JournalEntry, sourceTxs: Transaction[]) => {
+        if (!ensurePeriodOpen()) return;
         setJournalEntries(prev => [...prev, entry]);
 
         const newReconciledTxs: ReconciledTransaction[] = sourceTxs.map(tx => ({
             id: tx.id,
             period: activePeriod,
-            bankAccountId: selectedBankAccountId,
+            bankAccountId: tx.bankAccountId || selectedBankAccountId,
             journalEntryId: entry.id,
             originalDate: tx.date,
             originalDescription: tx.description,
             originalAmount: tx.amount,
-            originalType: tx.type
+            originalType: tx.type,
+            amount: getUnreconciledAmount(tx, reconciledTransactions),
         }));
-        setReconciledTransactions(prev => [...prev, ...newReconciledTxs]);
-        
-        const postedIds = new Set(sourceTxs.map(tx => tx.id));
-        setStatementTransactions(prev => prev.map(st => 
-            postedIds.has(st.id) ? { ...st, reconciliationStatus: 'posted' } : st
-        ));
+        const nextReconciled = [...reconciledTransactions, ...newReconciledTxs];
+        setReconciledTransactions(nextReconciled);
+        setStatementTransactions(prev => withReconciliationStatus(prev, nextReconciled, new Set(sourceTxs.map(tx => tx.id))));
         
         setSelectedTx(new Set());
         setIsAiJournalModalOpen(false);
     };
 
     const handleDeleteJournal = (id: string) => {
+        if (!ensurePeriodOpen()) return;
         if (confirm("Are you sure you want to delete this journal entry? This will un-reconcile all linked bank transactions.")) {
             // Find all reconciled transactions linked to this journal entry ID before state updates
             const linkedReconTxs = reconciledTransactions.filter(rt => rt.journalEntryId === id);
@@ -1436,21 +2061,18 @@ const App: React.FC = () => {
             setJournalEntries(prev => prev.filter(je => je.id !== id));
 
             if (linkedReconTxs.length > 0) {
-                const idsToUnpost = new Set(linkedReconTxs.map(rt => rt.id));
-                
                 // Remove the reconciled transaction records for the deleted journal
-                setReconciledTransactions(prev => prev.filter(rt => rt.journalEntryId !== id));
+                const remaining = reconciledTransactions.filter(rt => rt.journalEntryId !== id);
+                setReconciledTransactions(remaining);
                 
-                // Update the status of the original statement transactions to 'unposted'
-                setStatementTransactions(prev => prev.map(st => 
-                    idsToUnpost.has(st.id) ? { ...st, reconciliationStatus: 'unposted' } : st
-                ));
+                // Bank lines also linked to another journal become partial rather than unposted
+                setStatementTransactions(prev => withReconciliationStatus(prev, remaining, new Set(linkedReconTxs.map(rt => rt.id))));
             }
         }
     };
 
-    const handlePostToCashbook = (txsToPost: Transaction[]) => {
-        if (txsToPost.length === 0 || !selectedBankAccountId) return;
+    const handlePostToCashbook = (txsToPost: Transaction[], dimensionValues: DimensionValues = {}, suggestions?: Map<string, AccountSuggestion>) => {
+        if (txsToPost.length === 0 || txsToPost.some(isTxPostingBlocked) || !ensurePeriodOpen()) return;
 
         const newJournalEntries: JournalEntry[] = [];
         const newReconciledTxs: ReconciledTransaction[] = [];
@@ -1462,48 +2084,69 @@ const App: React.FC = () => {
         }
 
         txsToPost.forEach(tx => {
-            if(tx.reconciliationStatus === 'posted') return;
-
+            const bankAccountId = tx.bankAccountId || selectedBankAccountId;
+            // A partly reconciled row posts what is left of it.
+            const amount = getUnreconciledAmount(tx, reconciledTransactions);
+            if(tx.reconciliationStatus === 'posted' || amount === 0 || !bankAccountId) return;
+
+            // The first matching bank rule picks the other side, then an accepted suggestion; otherwise it waits in suspense to be categorised.
+            const rule = findMatchingRule(bankRules, accounts, tx, bankAccountId);
+            const suggestion = rule ? undefined : suggestions?.get(tx.id);
+            const contra = rule ? applyBankRule(rule, tx) : { accountId: suggestion?.accountId || uncategorizedAccount.id, narration: tx.description, dimensions: {} };
+            const contraLine = applyLineDimensions({ id: generateUUID(), accountId: contra.accountId, debit: tx.type === 'debit' ? amount : 0, credit: tx.type === 'credit' ? amount : 0 }, contra.dimensions);
             const newJournal: JournalEntry = {
                 id: generateUUID(),
                 date: tx.date,
-                description: tx.description,
+                description: contra.narration,
                 lines: [
-                    { id: generateUUID(), accountId: selectedBankAccountId, debit: tx.type === 'credit' ? tx.amount : 0, credit: tx.type === 'debit' ? tx.amount : 0 },
-                    { id: generateUUID(), accountId: uncategorizedAccount.id, debit: tx.type === 'debit' ? tx.amount : 0, credit: tx.type === 'credit' ? tx.amount : 0 }
-                ]
+                    { id: generateUUID(), accountId: bankAccountId, debit: tx.type === 'credit' ? amount : 0, credit: tx.type === 'debit' ? amount : 0 },
+                    applyLineDimensions(contraLine, dimensionValues) // Values picked when posting win over the rule's
+                ],
+                notes: rule ? `Categorised by bank rule "${rule.name}"` : suggestion ? `Suggested from ${suggestion.basedOn} similar past transaction(s), ${Math.round(suggestion.confidence * 100)}% confidence` : undefined,
             };
             newJournalEntries.push(newJournal);
 
             const newRecon: ReconciledTransaction = {
                 id: tx.id,
                 period: activePeriod,
-                bankAccountId: selectedBankAccountId,
+                bankAccountId,
                 journalEntryId: newJournal.id,
                 originalDate: tx.date,
                 originalDescription: tx.description,
                 originalAmount: tx.amount,
-                originalType: tx.type
+                originalType: tx.type,
+                amount,
             };
             newReconciledTxs.push(newRecon);
         });
         
         setJournalEntries(prev => [...prev, ...newJournalEntries]);
-        setReconciledTransactions(prev => [...prev, ...newReconciledTxs]);
-        
-        const postedIds = new Set(newReconciledTxs.map(rt => rt.id));
-        setStatementTransactions(prev => prev.map(st => 
-            postedIds.has(st.id) ? { ...st, reconciliationStatus: 'posted' } : st
-        ));
+        const nextReconciled = [...reconciledTransactions, ...newReconciledTxs];
+        setReconciledTransactions(nextReconciled);
+        setStatementTransactions(prev => withReconciliationStatus(prev, nextReconciled, new Set(newReconciledTxs.map(rt => rt.id))));
         
         setSelectedTx(new Set()); // Clear selection
     };
 
+    const handleAcceptMatches = (proposals: MatchProposal[], options: MatchOptions) => {
+        setMatchOptions(options);
+        setIsMatchingModalOpen(false);
+        if (proposals.length === 0 || !ensurePeriodOpen()) return;
+
+        const nextReconciled = [...reconciledTransactions, ...proposals.flatMap(p => buildMatchReconciliations(p, activePeriod))];
+        setReconciledTransactions(nextReconciled);
+        setStatementTransactions(prev => withReconciliationStatus(prev, nextReconciled, new Set(proposals.flatMap(p => p.transactions.map(tx => tx.id)))));
+        setSelectedTx(new Set());
+    };
+
     const handleAiJournalize = () => {
-        if (selectedTx.size > 0 && selectedBankAccountId) {
-            setIsAiJournalModalOpen(true);
-        } else {
+        if (!ensurePeriodOpen()) return;
+        if (selectedTx.size === 0 || !aiJournalBankAccountId) {
             alert("Please select at least one transaction and ensure a bank account is active.");
+        } else if (new Set(statementTransactions.filter(tx => selectedTx.has(tx.id)).map(tx => tx.bankAccountId || selectedBankAccountId)).size > 1) {
+            alert("One journal entry can only post to one bank account. Please select transactions from a single bank account.");
+        } else {
+            setIsAiJournalModalOpen(true);
         }
     };
 
@@ -1511,15 +2154,18 @@ const App: React.FC = () => {
         try {
             const currentPeriodData: Omit<Session, 'id' | 'period'> = {
                 timestamp: Date.now(),
-                accounts,
+                chartVersion: chartOfAccounts ? getCurrentVersion(chartOfAccounts).version : undefined,
                 journalEntries,
                 reconciledTransactions,
+                // Each row is stored once, with the first file it was imported from.
+                statements: statementFiles.map(file => ({ file, transactions: statementTransactions.filter(tx => tx.sources?.[0]?.fileId === file.id) })),
             };
             
             const storedPeriods = localStorage.getItem('aiBookkeeper_periods');
             const allPeriods = storedPeriods ? JSON.parse(storedPeriods) : {};
             
-            allPeriods[activePeriod] = { ...currentPeriodData, id: activePeriod, period: activePeriod };
+            // Keep the period's close status and history
+            allPeriods[activePeriod] = { ...allPeriods[activePeriod], ...currentPeriodData, id: activePeriod, period: activePeriod };
             
             localStorage.setItem('aiBookkeeper_periods', JSON.stringify(allPeriods));
 
@@ -1535,7 +2181,11 @@ const App: React.FC = () => {
 
     
     const handleDeletePeriod = (periodToDelete: string) => {
-        if(confirm(`Are you sure you want to delete the period ${periodToDelete}? This action cannot be undone.`)){
+        if (isPeriodClosed(periods.find(p => p.period === periodToDelete))) {
+            alert(`${getPeriodLabel(fiscalCalendar, periodToDelete)} is closed. Reopen it before deleting it.`);
+            return;
+        }
+        if(confirm(`Are you sure you want to delete the period ${getPeriodLabel(fiscalCalendar, periodToDelete)}? This action cannot be undone.`)){
             try {
                 const storedPeriods = localStorage.getItem('aiBookkeeper_periods');
                 const allPeriods = storedPeriods ? JSON.parse(storedPeriods) : {};
@@ -1548,7 +2198,7 @@ const App: React.FC = () => {
                 setPeriods(updatedPeriods);
 
                 if (activePeriod === periodToDelete) {
-                     const nextPeriod = updatedPeriods.length > 0 ? updatedPeriods[0].period : new Date().toISOString().slice(0, 7);
+                     const nextPeriod = updatedPeriods.length > 0 ? updatedPeriods[0].period : getCurrentPeriodKey(fiscalCalendar);
                      setActivePeriod(nextPeriod);
                 }
             } catch (e) {
@@ -1559,8 +2209,8 @@ const App: React.FC = () => {
     };
     
     const handleRenamePeriod = (oldPeriod: string, newPeriod: string) => {
-        if (!/^\d{4}-\d{2}$/.test(newPeriod)) {
-            alert("Invalid period format. Please use YYYY-MM.");
+        if (!isValidPeriodKey(fiscalCalendar, newPeriod)) {
+            alert(`Invalid period. Please use a period of the fiscal calendar, e.g. ${getCurrentPeriodKey(fiscalCalendar)}.`);
             return;
         }
         if (oldPeriod === newPeriod) return;
@@ -1598,9 +2248,95 @@ const App: React.FC = () => {
         }
     };
     
+    // Whether the active period on screen differs from what is saved. Saved rows are compared as they are loaded.
+    const hasUnsavedChanges = () => {
+        const saved = periods.find(p => p.period === activePeriod);
+        if (!saved) return journalEntries.length > 0 || reconciledTransactions.length > 0 || statementFiles.length > 0;
+        const savedStatements = saved.statements || [];
+        return JSON.stringify(journalEntries) !== JSON.stringify(saved.journalEntries)
+            || JSON.stringify(reconciledTransactions) !== JSON.stringify(saved.reconciledTransactions || [])
+            || JSON.stringify(statementFiles) !== JSON.stringify(savedStatements.map(s => s.file))
+            || JSON.stringify(statementTransactions) !== JSON.stringify(loadStoredStatements(savedStatements, saved.reconciledTransactions || []));
+    };
+
+    // Actions that rewrite saved periods save the active period with them, so they ask before saving unsaved changes.
+    const confirmSavingUnsavedChanges = (action: string) =>
+        !hasUnsavedChanges() || confirm(`${getPeriodLabel(fiscalCalendar, activePeriod)} has unsaved changes. ${action} saves them as well. Continue?`);
+
+    // Stored periods, with what is on screen for the active period (including unsaved changes) once it has any.
+    const readPeriodsForUpdate = (): Record<string, Session> => {
+        const storedPeriods = localStorage.getItem('aiBookkeeper_periods');
+        const allPeriods: Record<string, Session> = storedPeriods ? JSON.parse(storedPeriods) : {};
+        if (allPeriods[activePeriod] || hasUnsavedChanges()) {
+            allPeriods[activePeriod] = { ...allPeriods[activePeriod], ...bookSessions.find(s => s.period === activePeriod)! };
+        }
+        return allPeriods;
+    };
+
+    const handleClosePeriod = (period: string) => {
+        let nextPeriod: string;
+        try {
+            nextPeriod = getNextPeriodKey(fiscalCalendar, period);
+        } catch (e) {
+            setError(getErrorMessage(e));
+            return;
+        }
+        if (!confirmSavingUnsavedChanges('Closing the period')) return;
+        if (!confirm(`Close ${getPeriodLabel(fiscalCalendar, period)}? Its journals and reconciliations will be locked, and its closing balances will be written as the opening balances of ${getPeriodLabel(fiscalCalendar, nextPeriod)}.`)) return;
+        try {
+            const updatedPeriods = closePeriod(readPeriodsForUpdate(), accounts, period, fiscalCalendar);
+            localStorage.setItem('aiBookkeeper_periods', JSON.stringify(updatedPeriods));
+            setPeriods(Object.values(updatedPeriods));
+        } catch (e) {
+            console.error("Failed to close period", e);
+            setError(`Failed to close period: ${getErrorMessage(e)}`);
+        }
+    };
+
+    const handleReopenPeriod = (period: string) => {
+        if (!confirmSavingUnsavedChanges('Reopening the period')) return;
+        const reason = prompt(`Why does ${getPeriodLabel(fiscalCalendar, period)} need to be reopened? The reason is recorded in the period history.`);
+        if (!reason?.trim()) return;
+        try {
+            const updatedPeriods = reopenPeriod(readPeriodsForUpdate(), period, reason.trim(), fiscalCalendar);
+            localStorage.setItem('aiBookkeeper_periods', JSON.stringify(updatedPeriods));
+            setPeriods(Object.values(updatedPeriods));
+        } catch (e) {
+            console.error("Failed to reopen period", e);
+            setError(`Failed to reopen period: ${getErrorMessage(e)}`);
+        }
+    };
+
+    const handlePostYearEndClose = (fiscalYear: number, preview: YearEndClosePreview) => {
+        if (!confirmSavingUnsavedChanges('Closing the year')) return;
+        try {
+            const updatedPeriods = postYearEndClose(readPeriodsForUpdate(), fiscalCalendar, fiscalYear, preview);
+            handleSaveChartOfAccounts(preview.accounts); // Adds the retained earnings account if the preview created it
+            localStorage.setItem('aiBookkeeper_periods', JSON.stringify(updatedPeriods));
+            setPeriods(Object.values(updatedPeriods));
+            setIsYearEndModalOpen(false);
+        } catch (e) {
+            console.error("Failed to close year", e);
+            setError(`Failed to close year: ${getErrorMessage(e)}`);
+        }
+    };
+
+    const handleReopenYear = (fiscalYear: number) => {
+        if (!confirmSavingUnsavedChanges('Reopening the year')) return;
+        if (!confirm(`Reopen FY${fiscalYear}? The year-end closing entry will be removed so the year can be corrected and closed again.`)) return;
+        try {
+            const updatedPeriods = reopenYear(readPeriodsForUpdate(), fiscalCalendar, fiscalYear);
+            localStorage.setItem('aiBookkeeper_periods', JSON.stringify(updatedPeriods));
+            setPeriods(Object.values(updatedPeriods));
+        } catch (e) {
+            console.error("Failed to reopen year", e);
+            setError(`Failed to reopen year: ${getErrorMessage(e)}`);
+        }
+    };
+
     const handleCreatePeriod = (period: string) => {
-        if (!/^\d{4}-\d{2}$/.test(period)) {
-            alert("Invalid period format. Please use YYYY-MM.");
+        if (!isValidPeriodKey(fiscalCalendar, period)) {
+            alert(`Invalid period. Please use a period of the fiscal calendar, e.g. ${getCurrentPeriodKey(fiscalCalendar)}.`);
             return;
         }
         if (periods.some(p => p.period === period)) {
@@ -1611,9 +2347,98 @@ const App: React.FC = () => {
         setIsPeriodManagerOpen(false);
     };
 
+    const handleSaveChartOfAccounts = (updatedAccounts: Account[], merges: AccountMerge[] = []) => {
+        if (merges.length > 0 && !confirmSavingUnsavedChanges('Merging accounts')) return;
+        if (merges.length > 0) {
+            try {
+                handleApplyAccountMerges(merges);
+            } catch (e) {
+                console.error("Failed to merge accounts", e);
+                setError(`Failed to merge accounts: ${getErrorMessage(e)}`);
+                return;
+            }
+        }
+        const updatedChart = addChartVersion(chartOfAccounts, updatedAccounts, merges.length > 0 ? summarizeChartChanges(accounts, updatedAccounts, merges) : undefined);
+        if (updatedChart === chartOfAccounts) return;
+        try {
+            saveChartOfAccounts(updatedChart);
+        } catch (e) {
+            console.error("Failed to save chart of accounts", e);
+            setError("Failed to save the chart of accounts to local storage.");
+        }
+        setChartOfAccounts(updatedChart);
+    };
+
+    // Moves the postings of merged accounts in every saved period. The active period is saved with what is on screen
+    // first, so the reload that follows brings back its unsaved changes already merged.
+    const handleApplyAccountMerges = (merges: AccountMerge[]) => {
+        const remap = (id: string) => merges.reduce((current, merge) => current === merge.fromId ? merge.toId : current, id);
+        if (bankRules.some(rule => remap(rule.accountId) !== rule.accountId || (rule.bankAccountId && remap(rule.bankAccountId) !== rule.bankAccountId))) {
+            const updatedRules = bankRules.map(rule => ({ ...rule, accountId: remap(rule.accountId), bankAccountId: rule.bankAccountId && remap(rule.bankAccountId) }));
+            setBankRules(updatedRules);
+            saveBankRules(updatedRules);
+        }
+
+        const allPeriods = readPeriodsForUpdate();
+        const updatedPeriods = Object.fromEntries(Object.entries(allPeriods).map(([key, session]) => [key, merges.reduce(applyAccountMerge, session)]));
+        localStorage.setItem('aiBookkeeper_periods', JSON.stringify(updatedPeriods));
+        setPeriods(Object.values(updatedPeriods));
+
+        // Saved column profiles belong to a bank account, so they follow it.
+        if (columnProfiles.some(p => remap(p.bankAccountId) !== p.bankAccountId)) {
+            const updatedProfiles = columnProfiles.map(p => ({ ...p, bankAccountId: remap(p.bankAccountId) }));
+            setColumnProfiles(updatedProfiles);
+            saveColumnProfiles(updatedProfiles);
+        }
+    };
+
+    const handleSaveBankRules = (updatedRules: BankRule[]) => {
+        try {
+            saveBankRules(updatedRules);
+        } catch (e) {
+            console.error("Failed to save bank rules", e);
+            setError("Failed to save the bank rules to local storage.");
+        }
+        setBankRules(updatedRules);
+        setIsBankRulesModalOpen(false);
+    };
+
+    const handleSaveDimensions = (updatedDimensions: AnalysisDimension[]) => {
+        try {
+            saveDimensions(updatedDimensions);
+        } catch (e) {
+            console.error("Failed to save dimensions", e);
+            setError("Failed to save the analysis dimensions to local storage.");
+        }
+        setDimensions(updatedDimensions);
+        setIsDimensionsModalOpen(false);
+    };
+
+    const handleSaveFiscalCalendar = (calendar: FiscalCalendar) => {
+        // Periods are ordered by their keys, so every saved period must belong to the new calendar.
+        const incompatiblePeriods = periods.filter(p => !isValidPeriodKey(calendar, p.period)).map(p => p.period);
+        if (incompatiblePeriods.length > 0) {
+            setError(`The fiscal calendar cannot be changed while saved periods do not fit it: ${incompatiblePeriods.join(', ')}.`);
+            return;
+        }
+        try {
+            saveFiscalCalendar(calendar);
+        } catch (e) {
+            console.error("Failed to save fiscal calendar", e);
+            setError("Failed to save the fiscal calendar to local storage.");
+            return;
+        }
+        setFiscalCalendar(calendar);
+        // An unsaved active period moves to the current period of the new calendar.
+        if (!isValidPeriodKey(calendar, activePeriod) && !periods.some(p => p.period === activePeriod)) {
+            setActivePeriod(getCurrentPeriodKey(calendar));
+        }
+        setIsFiscalCalendarModalOpen(false);
+    };
+
     const handleExport = (options: { format: 'csv', type: 'transactions' | 'journals', startDate: string, endDate: string }) => {
         const { type, startDate, endDate } = options;
-        let dataToExport: any[] = [];
+        let dataToExport: Record<string, string | number | undefined>[] = [];
         let filename = '';
 
         const start = new Date(startDate);
@@ -1650,6 +2475,7 @@ const App: React.FC = () => {
                             Narration: je.description,
                             'Account Code': account?.code || 'N/A',
                             'Account Name': account?.name || 'Unknown',
+                            ...Object.fromEntries(dimensions.map(d => [d.name, d.values.find(v => v.id === line.dimensions?.[d.id])?.code || ''])),
                             Debit: line.debit || '',
                             Credit: line.credit || ''
                         });
@@ -1665,44 +2491,15 @@ const App: React.FC = () => {
         setIsExportModalOpen(false);
     };
 
-    const handleFindDuplicates = async () => {
-        if (statementTransactions.length < 2 || !(await tryAiFeature())) return;
-        setIsLoading(true);
-        setLoadingMessage("AI is searching for duplicates...");
-        setDuplicateGroups([]);
+    const handleApplyDuplicateGroups = (groups: DuplicateGroup[], rules: DuplicateRules) => {
         try {
-            const txDataForAI = statementTransactions.map(tx => ({
-                id: tx.id,
-                date: tx.date,
-                description: tx.description.replace(/[^a-zA-Z0-9\s]/g, "").substring(0, 50),
-                amount: tx.amount
-            }));
-
-            const ai = new GoogleGenAI({ apiKey: getApiKey() });
-            const prompt = `Analyze the following list of transactions and identify potential duplicates. A duplicate is a transaction with a very similar date (within 1-2 days), the same amount, and a similar description. Group the IDs of potential duplicates together. Return the result as a JSON array of arrays, where each inner array contains the string IDs of the duplicate transactions.
-            Example output: [["tx-id-1", "tx-id-5"], ["tx-id-8", "tx-id-12"]]
-            Transaction Data:
-            ${JSON.stringify(txDataForAI)}
-            `;
-
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash",
-                contents: prompt,
-                config: { responseMimeType: "application/json" }
-            });
-            const groups = safeParseJson(response.text);
-            if (Array.isArray(groups) && groups.every(g => Array.isArray(g))) {
-                setDuplicateGroups(groups);
-                alert(`AI found ${groups.length} potential duplicate group(s). They have been flagged in the table.`);
-            } else {
-                 throw new Error("AI returned an invalid format for duplicate groups.");
-            }
-        } catch (err) {
-            console.error(err);
-            setError(getErrorMessage(err));
-        } finally {
-            setIsLoading(false);
+            saveDuplicateRules(rules);
+        } catch (e) {
+            console.error("Failed to save duplicate rules", e);
         }
+        setDuplicateRules(rules);
+        setDuplicateGroups(groups);
+        setIsDuplicateModalOpen(false);
     };
     
     const handleGenerateSummary = async () => {
@@ -1752,7 +2549,80 @@ const App: React.FC = () => {
         }
     };
 
+    const handleGoToJournal = (journalId: string) => {
+        setJeSearchTerm('');
+        setActiveView('journal');
+        setTimeout(() => {
+            setHighlightedItem({ type: 'je', id: journalId });
+        }, 100);
+    };
+
+    const handleRemoveStatementFile = (fileId: string) => {
+        const file = statementFiles.find(f => f.id === fileId);
+        if (!file || !confirm(`Remove ${file.fileName} from this period? Rows that only appear in this file are removed; journals already posted from it are kept.`)) return;
+        const remaining = removeStatementFileRows(statementTransactions, fileId);
+        const remainingIds = new Set(remaining.map(tx => tx.id));
+        setStatementTransactions(remaining);
+        setStatementFiles(prev => prev.filter(f => f.id !== fileId));
+        setSelectedTx(prev => new Set([...prev].filter(id => remainingIds.has(id))));
+        if (txFileFilter === fileId) setTxFileFilter('');
+    };
+
+    const handleUpdateStatementBalances = (fileId: string, changes: Partial<Pick<StatementFile, 'openingBalance' | 'closingBalance' | 'balanceDifferenceAccepted'>>) => {
+        setStatementFiles(prev => prev.map(file => {
+            if (file.id !== fileId) return file;
+            // Changing a balance invalidates an earlier acceptance of the difference.
+            const balanceChanged = 'openingBalance' in changes || 'closingBalance' in changes;
+            return { ...file, ...(balanceChanged && { balanceDifferenceAccepted: false }), ...changes };
+        }));
+    };
+
+    const handleAcceptBalanceDifference = (fileId: string) => {
+        const check = balanceChecks.get(fileId);
+        if (!check) return;
+        const message = check.status === 'difference'
+            ? `The statement does not balance (difference ${currencyFormatter(check.difference || 0)}). Transactions may be missing or misread. Accept the difference and allow posting anyway?`
+            : "The statement balances have not been entered, so the import cannot be validated. Allow posting anyway?";
+        if (window.confirm(message)) {
+            handleUpdateStatementBalances(fileId, { balanceDifferenceAccepted: true });
+        }
+    };
+
+    const handleShowBalanceBreak = (transactionId: string) => {
+        // The row can only be scrolled to if the current filters show it.
+        if (!filteredTransactions.some(tx => tx.id === transactionId)) {
+            setTxSearchTerm('');
+            setTxCategoryFilter('');
+            setTxStartDate('');
+            setTxEndDate('');
+            setTxMinAmount('');
+            setTxMaxAmount('');
+            setTxTypeFilter('all');
+            setTxStatusFilter('all');
+            setTxAccountFilter('');
+            setTxFileFilter('');
+        }
+        setTimeout(() => setHighlightedItem({ type: 'tx', id: transactionId }), 100);
+    };
+
     // --- MEMOIZED DATA ---
+    const balanceChecks = useMemo(
+        () => new Map(statementFiles.map((file): [string, BalanceCheckResult] => [file.id, validateStatementBalances(getStatementFileRows(statementTransactions, file.id), file.openingBalance, file.closingBalance)])),
+        [statementTransactions, statementFiles]
+    );
+    const blockedFileIds = useMemo(
+        () => new Set(statementFiles.filter(file => balanceChecks.get(file.id)?.status !== 'balanced' && !file.balanceDifferenceAccepted).map(file => file.id)),
+        [statementFiles, balanceChecks]
+    );
+    // A row can be posted once any statement file it appears in has been validated (or its difference accepted).
+    const isTxPostingBlocked = (tx: Transaction) => !!tx.sources?.length && tx.sources.every(source => blockedFileIds.has(source.fileId));
+    const selectedTransactions = statementTransactions.filter(tx => selectedTx.has(tx.id));
+    const isSelectionBlocked = selectedTransactions.some(isTxPostingBlocked);
+    const aiJournalBankAccountId = selectedTransactions[0]?.bankAccountId || selectedBankAccountId;
+
+    // A parent category also matches transactions posted to any of its sub-accounts.
+    const categoryFilterIds = useMemo(() => txCategoryFilter ? new Set([txCategoryFilter, ...getDescendantIds(accounts, txCategoryFilter)]) : new Set<string>(), [accounts, txCategoryFilter]);
+
     const filteredTransactions = useMemo(() => {
         return statementTransactions
             .filter(tx => {
@@ -1762,15 +2632,22 @@ const App: React.FC = () => {
                  if (txMaxAmount && tx.amount > parseFloat(txMaxAmount)) return false;
                  if(txStartDate && tx.date < txStartDate) return false;
                  if(txEndDate && tx.date > txEndDate) return false;
+                 if (txAccountFilter && tx.bankAccountId !== txAccountFilter) return false;
+                 if (txFileFilter && !tx.sources?.some(source => source.fileId === txFileFilter)) return false;
 
                  if (txStatusFilter !== 'all' && tx.reconciliationStatus !== txStatusFilter) return false;
 
                  if(txCategoryFilter) {
                     const journal = getJournalForTransaction(tx.id);
-                    if(!journal || !journal.lines.some(line => line.accountId === txCategoryFilter && !accounts.find(a=>a.id === line.accountId)?.isBankAccount)) {
+                    if(!journal || !journal.lines.some(line => categoryFilterIds.has(line.accountId) && !accounts.find(a=>a.id === line.accountId)?.isBankAccount)) {
                         return false;
                     }
                  }
+
+                 if (hasDimensionFilter(txDimensionFilter)) {
+                    const journal = getJournalForTransaction(tx.id);
+                    if (!journal || !entryMatchesDimensions(journal, txDimensionFilter)) return false;
+                 }
                  
                  return true;
             })
@@ -1796,22 +2673,53 @@ const App: React.FC = () => {
                 }
                 return txSortDir === 'asc' ? comparison : -comparison;
             });
-    }, [statementTransactions, accounts, txTypeFilter, txStatusFilter, txSortBy, txSortDir, txSearchTerm, txCategoryFilter, txStartDate, txEndDate, txMinAmount, txMaxAmount]);
+    }, [statementTransactions, accounts, txTypeFilter, txStatusFilter, txSortBy, txSortDir, txSearchTerm, txCategoryFilter, categoryFilterIds, txStartDate, txEndDate, txMinAmount, txMaxAmount, txAccountFilter, txFileFilter, txDimensionFilter]);
 
     const filteredJournalEntries = useMemo(() => {
-        if (!jeSearchTerm) return journalEntries;
+        if (!jeSearchTerm && !hasDimensionFilter(jeDimensionFilter)) return journalEntries;
         const lowerCaseSearch = jeSearchTerm.toLowerCase();
         return journalEntries.filter(je => {
-            if (je.description.toLowerCase().includes(lowerCaseSearch)) return true;
+            if (!entryMatchesDimensions(je, jeDimensionFilter)) return false;
+            if (!jeSearchTerm || je.description.toLowerCase().includes(lowerCaseSearch)) return true;
             return je.lines.some(line => {
                 const account = accounts.find(a => a.id === line.accountId);
                 return account && account.name.toLowerCase().includes(lowerCaseSearch);
             });
         });
-    }, [journalEntries, jeSearchTerm, accounts]);
+    }, [journalEntries, jeSearchTerm, jeDimensionFilter, accounts]);
     
     const bankAccounts = useMemo(() => accounts.filter(a => a.isBankAccount), [accounts]);
+
+    const isPeriodLocked = useMemo(() => isPeriodClosed(periods.find(p => p.period === activePeriod)), [periods, activePeriod]);
+
+    // Saved periods with the active period's unsaved changes applied, for reports that span periods.
+    const bookSessions = useMemo((): Session[] => [
+        ...periods.filter(p => p.period !== activePeriod),
+        {
+            ...periods.find(p => p.period === activePeriod), id: activePeriod, period: activePeriod, timestamp: Date.now(), journalEntries, reconciledTransactions,
+            statements: statementFiles.map(file => ({ file, transactions: statementTransactions.filter(tx => tx.sources?.[0]?.fileId === file.id) })),
+        },
+    ], [periods, activePeriod, journalEntries, reconciledTransactions, statementFiles, statementTransactions]);
+
+    // Learned locally from every period's reconciliations, so suggestions cost no AI requests.
+    const suggestionModel = useMemo(() => trainSuggestionModel(bookSessions, accounts, accounts.find(a => a.code === UNCATEGORIZED_CODE)?.id), [bookSessions, accounts]);
+
+    // Suggested contra accounts for unposted rows that no bank rule categorises.
+    const accountSuggestions = useMemo(() => {
+        const suggestions = new Map<string, AccountSuggestion>();
+        statementTransactions.forEach(tx => {
+            const bankAccountId = tx.bankAccountId || selectedBankAccountId;
+            if (tx.reconciliationStatus === 'posted' || !bankAccountId || findMatchingRule(bankRules, accounts, tx, bankAccountId)) return;
+            const suggestion = suggestAccount(suggestionModel, tx, bankAccountId);
+            if (suggestion) suggestions.set(tx.id, suggestion);
+        });
+        return suggestions;
+    }, [statementTransactions, selectedBankAccountId, bankRules, accounts, suggestionModel]);
+
+    const highConfidenceTxs = useMemo(() => filteredTransactions.filter(tx => (accountSuggestions.get(tx.id)?.confidence || 0) >= HIGH_CONFIDENCE && !isTxPostingBlocked(tx)), [filteredTransactions, accountSuggestions, blockedFileIds]);
     
+    const activeFiscalPeriod = useMemo(() => getFiscalPeriod(fiscalCalendar, activePeriod), [fiscalCalendar, activePeriod]);
+
     const allAvailablePeriods = useMemo(() => {
         const periodSet = new Set(periods.map(p => p.period));
         periodSet.add(activePeriod);
@@ -1823,11 +2731,15 @@ const App: React.FC = () => {
     const renderTransactionRow = (tx: Transaction) => {
         const isSelected = selectedTx.has(tx.id);
         const isExpanded = expandedRows.has(tx.id);
-        const journal = getJournalForTransaction(tx.id);
+        const journals = getJournalsForTransaction(tx.id);
+        const journal = journals[0];
         const hasDetails = !!journal || !!tx.notes;
-        const isDuplicate = duplicateGroups.some(group => group.includes(tx.id));
+        const duplicateGroup = duplicateGroups.find(group => group.ids.includes(tx.id));
+        const isDuplicate = !!duplicateGroup;
         
-        const statusColor = tx.reconciliationStatus === 'posted' ? 'bg-green-500' : 'bg-slate-400';
+        const statusColor = tx.reconciliationStatus === 'posted' ? 'bg-green-500' : tx.reconciliationStatus === 'partial' ? 'bg-amber-500' : 'bg-slate-400';
+        const suggestion = accountSuggestions.get(tx.id);
+        const suggestedAccount = suggestion && accounts.find(a => a.id === suggestion.accountId);
 
         return (
             <React.Fragment key={tx.id}>
@@ -1842,16 +2754,44 @@ const App: React.FC = () => {
                              <span className="text-xs">{tx.date}</span>
                          </div>
                     </td>
-                    <td className="p-2 text-sm">{tx.description}</td>
+                    <td className="p-2 text-sm">
+                        {tx.description}
+                        {tx.ocrConfidence !== undefined && (
+                            <span title="Read from a scanned page by OCR. Check low-confidence rows against the original statement." className={`ml-2 text-[10px] font-semibold px-1.5 py-0.5 rounded-full ${tx.ocrConfidence >= 85 ? 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300' : tx.ocrConfidence >= 60 ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300' : 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'}`}>
+                                OCR {tx.ocrConfidence}%
+                            </span>
+                        )}
+                        {tx.reconciliationStatus === 'partial' && (
+                            <span title={`Linked to ${journals.length} journal(s) so far`} className="ml-2 text-[10px] font-semibold px-1.5 py-0.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">
+                                {currencyFormatter(getUnreconciledAmount(tx, reconciledTransactions))} to reconcile
+                            </span>
+                        )}
+                        {(tx.reference || tx.valueDate) && (
+                            <span className="block text-xs text-slate-500 dark:text-slate-400">
+                                {tx.reference && `Ref: ${tx.reference}`}{tx.reference && tx.valueDate && ' · '}{tx.valueDate && `Value date: ${tx.valueDate}`}
+                            </span>
+                        )}
+                        {suggestion && suggestedAccount && (
+                            <button
+                                onClick={() => handlePostToCashbook([tx], {}, accountSuggestions)}
+                                disabled={isTxPostingBlocked(tx)}
+                                title={`Based on ${suggestion.basedOn} similar past transaction(s), e.g. "${suggestion.example}". Click to post to this account.`}
+                                className={`mt-1 flex items-center gap-1 text-[11px] font-semibold px-2 py-0.5 rounded-full disabled:opacity-40 disabled:cursor-not-allowed ${suggestion.confidence >= HIGH_CONFIDENCE ? 'bg-green-100 text-green-700 hover:bg-green-200 dark:bg-green-900/40 dark:text-green-300' : 'bg-amber-100 text-amber-700 hover:bg-amber-200 dark:bg-amber-900/40 dark:text-amber-300'}`}
+                            >
+                                <CheckIcon className="w-3 h-3" /> {suggestedAccount.code} - {suggestedAccount.name} · {Math.round(suggestion.confidence * 100)}%
+                            </button>
+                        )}
+                    </td>
                     <td className="p-2 text-right font-mono text-sm">{tx.type === 'debit' ? currencyFormatter(tx.amount) : '—'}</td>
                     <td className="p-2 text-right font-mono text-sm">{tx.type === 'credit' ? currencyFormatter(tx.amount) : '—'}</td>
                     <td className="p-2 text-center no-expand">
                         <div className="flex items-center justify-center gap-1">
-                            {isDuplicate && <FlagIcon className="w-4 h-4 text-red-500" title="Potential Duplicate" />}
+                            {duplicateGroup && <FlagIcon className="w-4 h-4 text-red-500" title={`Potential Duplicate (score ${duplicateGroup.score}): ${duplicateGroup.reason}`} />}
                             <button
                                 onClick={() => tx.reconciliationStatus === 'posted' ? handleOpenJournalModal(tx, getJournalForTransaction(tx.id)) : handleOpenJournalModal(tx)}
-                                title={tx.reconciliationStatus === 'posted' ? "Edit Journal" : "Create Journal"}
-                                className="p-1 rounded-md text-slate-500 hover:bg-slate-200 hover:text-slate-800 dark:hover:bg-slate-700"
+                                title={tx.reconciliationStatus === 'posted' ? "Edit Journal" : isTxPostingBlocked(tx) ? "Resolve or accept the statement balance difference first" : "Create Journal"}
+                                disabled={tx.reconciliationStatus !== 'posted' && isTxPostingBlocked(tx)}
+                                className="p-1 rounded-md text-slate-500 hover:bg-slate-200 hover:text-slate-800 dark:hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
                             >
                                 {tx.reconciliationStatus === 'posted' ? <PencilIcon className="w-4 h-4" /> : <PlusIcon className="w-4 h-4" />}
                             </button>
@@ -1867,8 +2807,8 @@ const App: React.FC = () => {
                     <tr className="bg-slate-50 dark:bg-slate-800/20">
                         <td colSpan={6} className="p-0">
                             <div className="p-4 border-l-4 border-indigo-500">
-                                {journal && (
-                                     <div>
+                                {journals.map((journal, index) => (
+                                     <div key={journal.id} className={index > 0 ? "mt-3" : ""}>
                                         <h5 className="font-semibold text-sm mb-1 flex items-center gap-1.5"><DocumentTextIcon className="w-4 h-4"/>Journal Entry <span className="font-normal text-xs text-slate-500">#{journal.id.substring(0,8)}</span></h5>
                                         <p className="text-xs text-slate-600 dark:text-slate-300 mb-2">{journal.description}</p>
                                         <table className="w-full text-xs bg-white dark:bg-slate-700/50 rounded-md overflow-hidden">
@@ -1893,7 +2833,7 @@ const App: React.FC = () => {
                                             </tbody>
                                         </table>
                                     </div>
-                                )}
+                                ))}
                                 {notesEdit?.id === tx.id ? (
                                     <div className="mt-3">
                                         <h5 className="font-semibold text-sm mb-1">Notes</h5>
@@ -1938,11 +2878,12 @@ const App: React.FC = () => {
                     </div>
                     <div className="flex items-center gap-4">
                          <button onClick={() => setIsCoAModalOpen(true)} className="flex items-center gap-2 text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1.5 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600"><BookOpenIcon className="w-4 h-4"/> Chart of Accounts</button>
+                         <button onClick={() => setIsDimensionsModalOpen(true)} className="flex items-center gap-2 text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1.5 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600"><ClipboardListIcon className="w-4 h-4"/> Dimensions</button>
                         <div className="flex items-center gap-2">
                              <div className="text-right">
                                  <div className="text-xs text-slate-500 dark:text-slate-400">Period</div>
                                 <select value={activePeriod} onChange={e => setActivePeriod(e.target.value)} className="bg-transparent font-semibold border-0 focus:ring-0 p-0 text-right">
-                                    {allAvailablePeriods.map(p => <option key={p} value={p}>{p}{!periods.some(per => per.period === p) ? ' (New)' : ''}</option>)}
+                                    {allAvailablePeriods.map(p => <option key={p} value={p}>{getPeriodLabel(fiscalCalendar, p)}{!periods.some(per => per.period === p) ? ' (New)' : ''}{isPeriodClosed(periods.find(per => per.period === p)) ? ' (Closed)' : ''}</option>)}
                                 </select>
                             </div>
                             <button onClick={() => setIsPeriodManagerOpen(true)} className="text-sm font-semibold text-indigo-600 hover:underline">Manage</button>
@@ -1965,6 +2906,20 @@ const App: React.FC = () => {
                         <button onClick={() => setError(null)} className="absolute top-0 bottom-0 right-0 px-4 py-3"><XIcon className="w-5 h-5"/></button>
                     </div>
                 )}
+                {warning && (
+                    <div className="bg-amber-100 border border-amber-400 text-amber-800 dark:bg-amber-900/30 dark:border-amber-600 dark:text-amber-300 px-4 py-3 rounded-lg relative mb-4" role="status">
+                        <strong className="font-bold">Warning: </strong>
+                        <span className="block sm:inline">{warning}</span>
+                        <button onClick={() => setWarning(null)} className="absolute top-0 bottom-0 right-0 px-4 py-3"><XIcon className="w-5 h-5"/></button>
+                    </div>
+                )}
+
+                {isPeriodLocked && (
+                    <div className="bg-slate-200 border border-slate-300 text-slate-700 dark:bg-slate-800 dark:border-slate-600 dark:text-slate-300 px-4 py-3 rounded-lg mb-4 flex justify-between items-center">
+                        <span><strong className="font-bold">Period {getPeriodLabel(fiscalCalendar, activePeriod)} is closed.</strong> Journals and reconciliations are read-only.</span>
+                        <button onClick={() => handleReopenPeriod(activePeriod)} className="text-sm font-semibold text-amber-600 hover:underline">Reopen Period</button>
+                    </div>
+                )}
 
                 {isLoading && (
                     <div className="fixed inset-0 bg-white/80 dark:bg-slate-900/80 flex items-center justify-center z-[100]">
@@ -1984,21 +2939,23 @@ const App: React.FC = () => {
                          <div className="flex items-center gap-4">
                             <button onClick={() => setActiveView('statement')} className={`px-4 py-2 rounded-md font-semibold ${activeView === 'statement' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}>Bank Reconciliation</button>
                             <button onClick={() => setActiveView('journal')} className={`px-4 py-2 rounded-md font-semibold ${activeView === 'journal' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}>Journal Entries</button>
+                            <button onClick={() => setActiveView('ledger')} className={`px-4 py-2 rounded-md font-semibold ${activeView === 'ledger' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}>General Ledger</button>
+                            <button onClick={() => setActiveView('trialBalance')} className={`px-4 py-2 rounded-md font-semibold ${activeView === 'trialBalance' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}>Trial Balance</button>
+                            <button onClick={() => setActiveView('statements')} className={`px-4 py-2 rounded-md font-semibold ${activeView === 'statements' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}>Financial Statements</button>
+                            <button onClick={() => setActiveView('reconciliation')} className={`px-4 py-2 rounded-md font-semibold ${activeView === 'reconciliation' ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}>Reconciliation Report</button>
                         </div>
+                        <button onClick={() => setIsExportModalOpen(true)} className="text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600 flex items-center gap-1.5"><DownloadIcon className="w-4 h-4"/> Export</button>
                     </div>
 
                     {activeView === 'statement' && (
                         <div>
-                             <div className="p-4 bg-slate-50 dark:bg-slate-900/40">
+                             <div className="p-4 bg-slate-50 dark:bg-slate-900/40" onDragOver={e => e.preventDefault()} onDrop={handleDrop}>
+                                <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" multiple accept=".csv, .xlsx, .xls, .pdf, .ofx, .qfx, .qif, .sta, .mt940, .940, .txt, .xml" />
                                 {statementTransactions.length === 0 ? (
-                                    <div
-                                        onDragOver={e => e.preventDefault()}
-                                        onDrop={handleDrop}
-                                        className="text-center p-8 border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-lg"
-                                    >
+                                    <div className="text-center p-8 border-2 border-dashed border-slate-300 dark:border-slate-600 rounded-lg">
                                         <UploadIcon className="mx-auto h-12 w-12 text-slate-400" />
-                                        <h3 className="mt-2 text-lg font-medium text-slate-800 dark:text-slate-200">Upload your bank statement</h3>
-                                        <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">Drag & drop a file here or click to select.</p>
+                                        <h3 className="mt-2 text-lg font-medium text-slate-800 dark:text-slate-200">Upload your bank statements</h3>
+                                        <p className="mt-1 text-sm text-slate-500 dark:text-slate-400">Drag & drop one or more files here or click to select. PDF, CSV, Excel, OFX/QFX, QIF, MT940 and camt.053 are supported.</p>
                                         <div className="mt-6 flex items-center justify-center gap-4">
                                             <div className="w-60">
                                                 <label htmlFor="bank-account-select" className="sr-only">Select Bank Account</label>
@@ -2015,26 +2972,69 @@ const App: React.FC = () => {
                                             <button
                                                 type="button"
                                                 onClick={() => fileInputRef.current?.click()}
-                                                disabled={!selectedBankAccountId}
-                                                className="bg-indigo-600 text-white font-semibold py-2 px-5 rounded-md shadow-sm hover:bg-indigo-700 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed"
+                                                className="bg-indigo-600 text-white font-semibold py-2 px-5 rounded-md shadow-sm hover:bg-indigo-700 transition-colors"
                                             >
-                                                Select File
+                                                Select Files
                                             </button>
-                                            <input type="file" ref={fileInputRef} onChange={handleFileSelect} className="hidden" accept=".csv, .xlsx, .xls, .pdf" />
                                         </div>
                                     </div>
                                 ) : (
                                     <div>
                                         <div className="flex justify-between items-center mb-4">
-                                            <h3 className="font-semibold text-lg">Bank Statement Transactions</h3>
+                                            <div>
+                                                <h3 className="font-semibold text-lg">Bank Statement Transactions</h3>
+                                                <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                    {statementFiles.length} file(s) across {new Set(statementFiles.map(f => f.bankAccountId)).size} bank account(s) · {statementTransactions.length} transaction(s). Drop more files here to add them.
+                                                </p>
+                                            </div>
                                             <div className="flex items-center gap-2">
-                                                 <button onClick={() => handlePostToCashbook(filteredTransactions.filter(tx => selectedTx.has(tx.id)))} disabled={selectedTx.size === 0} className="text-sm bg-indigo-600 text-white font-semibold py-1 px-3 rounded-md shadow-sm hover:bg-indigo-700 disabled:bg-slate-400">Post Selected</button>
-                                                 <button onClick={handleAiJournalize} disabled={selectedTx.size === 0} className="text-sm bg-indigo-600 text-white font-semibold py-1 px-3 rounded-md shadow-sm hover:bg-indigo-700 disabled:bg-slate-400 flex items-center gap-1.5"><BrainIcon className="w-4 h-4"/> AI Journalize</button>
-                                                 <button onClick={handleFindDuplicates} className="text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600 flex items-center gap-1.5"><SparklesIcon className="w-4 h-4 text-indigo-500"/> Find Duplicates</button>
+                                                 {selectedTx.size > 0 && activeDimensions.map(d => (
+                                                    <div key={d.id} className="w-36" title={`${d.name} for the lines posted from the selected transactions`}>
+                                                        <DimensionSelect dimension={d} value={bulkDimensions[d.id] || ''} onChange={valueId => setBulkDimensions(prev => ({ ...prev, [d.id]: valueId }))} emptyLabel={`No ${d.name}`} className="w-full p-1 border rounded-md text-xs" />
+                                                    </div>
+                                                 ))}
+                                                 <button onClick={() => handlePostToCashbook(filteredTransactions.filter(tx => selectedTx.has(tx.id)), bulkDimensions)} disabled={selectedTx.size === 0 || isSelectionBlocked} title={isSelectionBlocked ? "Resolve or accept the statement balance difference first" : undefined} className="text-sm bg-indigo-600 text-white font-semibold py-1 px-3 rounded-md shadow-sm hover:bg-indigo-700 disabled:bg-slate-400">Post Selected</button>
+                                                 {highConfidenceTxs.length > 0 && (
+                                                    <button onClick={() => handlePostToCashbook(highConfidenceTxs, {}, accountSuggestions)} title={`Post the shown rows whose suggested account is at least ${Math.round(HIGH_CONFIDENCE * 100)}% confident`} className="text-sm bg-green-600 text-white font-semibold py-1 px-3 rounded-md shadow-sm hover:bg-green-700 flex items-center gap-1.5"><CheckIcon className="w-4 h-4"/> Accept {highConfidenceTxs.length} Suggestion(s)</button>
+                                                 )}
+                                                 <button onClick={handleAiJournalize} disabled={selectedTx.size === 0 || isSelectionBlocked} title={isSelectionBlocked ? "Resolve or accept the statement balance difference first" : undefined} className="text-sm bg-indigo-600 text-white font-semibold py-1 px-3 rounded-md shadow-sm hover:bg-indigo-700 disabled:bg-slate-400 flex items-center gap-1.5"><BrainIcon className="w-4 h-4"/> AI Journalize</button>
+                                                 <button onClick={() => setIsMatchingModalOpen(true)} title="Reconcile bank lines against journals already entered by hand" className="text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600 flex items-center gap-1.5"><ArrowsPointingInIcon className="w-4 h-4 text-indigo-500"/> Match to Journals</button>
+                                                 <button onClick={() => setIsBankRulesModalOpen(true)} title="Rules that pick the account when rows are posted" className="text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600 flex items-center gap-1.5"><SparklesIcon className="w-4 h-4 text-indigo-500"/> Bank Rules{bankRules.length > 0 ? ` (${bankRules.filter(r => r.enabled).length})` : ''}</button>
+                                                 <button onClick={() => setIsDuplicateModalOpen(true)} disabled={statementTransactions.length < 2} className="text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600 flex items-center gap-1.5 disabled:text-slate-400"><FlagIcon className="w-4 h-4 text-red-500"/> Find Duplicates</button>
                                                 <button onClick={handleGenerateSummary} disabled={selectedTx.size === 0} className="text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600 flex items-center gap-1.5 disabled:text-slate-400"><BrainIcon className="w-4 h-4"/>Summarize</button>
+                                                <button onClick={() => fileInputRef.current?.click()} title="Upload more statement files" className="p-1.5 rounded-md text-slate-500 hover:bg-slate-200 hover:text-indigo-600 dark:hover:bg-slate-700"><UploadIcon className="w-4 h-4"/></button>
                                             </div>
                                         </div>
 
+                                        {statementFiles
+                                            .filter(file => (!txAccountFilter || file.bankAccountId === txAccountFilter) && (!txFileFilter || file.id === txFileFilter))
+                                            .map(file => {
+                                                const check = balanceChecks.get(file.id);
+                                                if (!check) return null;
+                                                const rows = statementTransactions.filter(tx => tx.sources?.some(source => source.fileId === file.id));
+                                                const sharedRows = rows.filter(tx => (tx.sources?.length || 0) > 1).length;
+                                                return (
+                                                    <React.Fragment key={file.id}>
+                                                        <BalanceCheckPanel
+                                                            fileLabel={[
+                                                                bankAccounts.find(acc => acc.id === file.bankAccountId)?.name,
+                                                                file.fileName,
+                                                                file.accountIdentifier && `Account ${file.accountIdentifier}`,
+                                                                `${rows.length} row(s)${sharedRows > 0 ? `, ${sharedRows} also in other files` : ''}`,
+                                                            ].filter(Boolean).join(' · ')}
+                                                            check={check}
+                                                            accepted={!!file.balanceDifferenceAccepted}
+                                                            breakTransaction={statementTransactions.find(tx => tx.id === check.firstBreak?.transactionId)}
+                                                            onChangeBalances={changes => handleUpdateStatementBalances(file.id, changes)}
+                                                            onAccept={() => handleAcceptBalanceDifference(file.id)}
+                                                            onRevokeAcceptance={() => handleUpdateStatementBalances(file.id, { balanceDifferenceAccepted: false })}
+                                                            onShowRow={handleShowBalanceBreak}
+                                                            onRemove={() => handleRemoveStatementFile(file.id)}
+                                                        />
+                                                    </React.Fragment>
+                                                );
+                                            })}
+
                                         <div className="p-3 border dark:border-slate-700 rounded-md bg-white dark:bg-slate-800">
                                             <div className="flex justify-between items-center mb-2">
                                                 <h4 className="font-semibold">Filters</h4>
@@ -2048,8 +3048,19 @@ const App: React.FC = () => {
                                                     <input type="number" placeholder="Min amount" value={txMinAmount} onChange={e => setTxMinAmount(e.target.value)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600"/>
                                                     <input type="number" placeholder="Max amount" value={txMaxAmount} onChange={e => setTxMaxAmount(e.target.value)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600"/>
                                                     <select value={txTypeFilter} onChange={e => setTxTypeFilter(e.target.value as any)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600"><option value="all">All Types</option><option value="debit">Debit</option><option value="credit">Credit</option></select>
-                                                    <select value={txStatusFilter} onChange={e => setTxStatusFilter(e.target.value as any)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600"><option value="all">All Statuses</option><option value="posted">Posted</option><option value="unposted">Unposted</option></select>
-                                                    <div className="col-span-2"><SearchableAccountSelect accounts={accounts.filter(a => !a.isBankAccount)} value={txCategoryFilter} onChange={setTxCategoryFilter} placeholder="Filter by category..."/></div>
+                                                    <select value={txStatusFilter} onChange={e => setTxStatusFilter(e.target.value as any)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600"><option value="all">All Statuses</option><option value="posted">Posted</option><option value="partial">Partly Reconciled</option><option value="unposted">Unposted</option></select>
+                                                    <select value={txAccountFilter} onChange={e => { setTxAccountFilter(e.target.value); setTxFileFilter(''); }} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                                        <option value="">All Bank Accounts</option>
+                                                        {bankAccounts.filter(acc => statementFiles.some(f => f.bankAccountId === acc.id)).map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                                                    </select>
+                                                    <select value={txFileFilter} onChange={e => setTxFileFilter(e.target.value)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                                        <option value="">All Source Files</option>
+                                                        {statementFiles.filter(f => !txAccountFilter || f.bankAccountId === txAccountFilter).map(f => <option key={f.id} value={f.id}>{f.fileName}</option>)}
+                                                    </select>
+                                                    <div className="col-span-2"><SearchableAccountSelect accounts={accounts.filter(a => !a.isBankAccount)} value={txCategoryFilter} onChange={setTxCategoryFilter} placeholder="Filter by category..." allowHeaders/></div>
+                                                    {activeDimensions.map(d => (
+                                                        <div key={d.id}><DimensionSelect dimension={d} value={txDimensionFilter[d.id] || ''} onChange={valueId => setTxDimensionFilter(prev => ({ ...prev, [d.id]: valueId }))} emptyLabel={`All ${d.name}`} className="w-full p-1.5 border rounded-md" /></div>
+                                                    ))}
                                                 </div>
                                             )}
                                         </div>
@@ -2093,7 +3104,10 @@ const App: React.FC = () => {
                                     />
                                     <SearchIcon className="w-4 h-4 absolute top-1/2 left-2.5 -translate-y-1/2 text-slate-400"/>
                                   </div>
-                                   <button onClick={() => setIsImportJournalModalOpen(true)} className="text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600 flex items-center gap-1.5"><FileImportIcon className="w-4 h-4"/> Import Journals</button>
+                                  {activeDimensions.map(d => (
+                                    <div key={d.id} className="w-40"><DimensionSelect dimension={d} value={jeDimensionFilter[d.id] || ''} onChange={valueId => setJeDimensionFilter(prev => ({ ...prev, [d.id]: valueId }))} emptyLabel={`All ${d.name}`} className="w-full p-1.5 border rounded-md text-sm" /></div>
+                                  ))}
+                                   <button onClick={() => ensurePeriodOpen() && setIsImportJournalModalOpen(true)} className="text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600 flex items-center gap-1.5"><FileImportIcon className="w-4 h-4"/> Import Journals</button>
                                   <button onClick={() => handleOpenJournalModal(null)} className="text-sm bg-indigo-600 text-white font-semibold py-1 px-3 rounded-md shadow-sm hover:bg-indigo-700 flex items-center gap-1.5"><PlusIcon className="w-4 h-4"/> New Entry</button>
                                </div>
                             </div>
@@ -2114,17 +3128,23 @@ const App: React.FC = () => {
                                             const totalDebit = je.lines.reduce((sum, line) => sum + (line.debit || 0), 0);
                                             const isReconciled = reconciledTransactions.some(rt => rt.journalEntryId === je.id);
                                             return (
-                                                <tr key={je.id} className="border-b dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/50">
+                                                <tr
+                                                    key={je.id}
+                                                    ref={highlightedItem?.type === 'je' && highlightedItem?.id === je.id ? highlightedRef : null}
+                                                    className={`border-b dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/50 ${highlightedItem?.type === 'je' && highlightedItem?.id === je.id ? 'ring-2 ring-indigo-500 ring-inset' : ''}`}
+                                                >
                                                     <td className="p-2 text-xs">{je.date}</td>
                                                     <td className="p-2">
                                                         {je.description}
                                                         {je.refNo && <span className="block text-xs text-slate-500 dark:text-slate-400 mt-1">Ref: {je.refNo}</span>}
+                                                        {(je.isOpeningBalance || je.isYearEndClose) && <span className="inline-block mt-1 text-xs font-semibold bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-300 px-2 py-0.5 rounded-full">{je.isOpeningBalance ? 'Opening balances' : 'Year-end close'}</span>}
                                                     </td>
                                                     <td className="p-2 text-xs">
                                                         <ul>
                                                             {je.lines.map(line => {
                                                                 const acc = accounts.find(a => a.id === line.accountId);
-                                                                return <li key={line.id}>{acc?.name || 'Unknown'}</li>
+                                                                const tags = describeLineDimensions(line, dimensions);
+                                                                return <li key={line.id}>{acc?.name || 'Unknown'}{tags && <span className="text-slate-400"> · {tags}</span>}</li>
                                                             })}
                                                         </ul>
                                                     </td>
@@ -2134,8 +3154,10 @@ const App: React.FC = () => {
                                                             {isReconciled && (
                                                                 <button onClick={() => handleGoToTransaction(je.id)} title="Go to Bank Transaction" className="p-1 rounded-md text-slate-500 hover:bg-slate-200 hover:text-indigo-600 dark:hover:bg-slate-700"><ArrowsPointingOutIcon className="w-4 h-4"/></button>
                                                             )}
-                                                            <button onClick={() => handleOpenJournalModal(null, je)} title="Edit Journal" className="p-1 rounded-md text-slate-500 hover:bg-slate-200 hover:text-slate-800 dark:hover:bg-slate-700"><PencilIcon className="w-4 h-4"/></button>
-                                                            <button onClick={() => handleDeleteJournal(je.id)} title="Delete Journal" className="p-1 rounded-md text-red-500 hover:bg-red-100 hover:text-red-700 dark:hover:bg-red-900/40"><TrashIcon className="w-4 h-4"/></button>
+                                                            {!je.isYearEndClose && <>
+                                                                <button onClick={() => handleOpenJournalModal(null, je)} title="Edit Journal" className="p-1 rounded-md text-slate-500 hover:bg-slate-200 hover:text-slate-800 dark:hover:bg-slate-700"><PencilIcon className="w-4 h-4"/></button>
+                                                                <button onClick={() => handleDeleteJournal(je.id)} title="Delete Journal" className="p-1 rounded-md text-red-500 hover:bg-red-100 hover:text-red-700 dark:hover:bg-red-900/40"><TrashIcon className="w-4 h-4"/></button>
+                                                            </>}
                                                         </div>
                                                     </td>
                                                 </tr>
@@ -2147,14 +3169,51 @@ const App: React.FC = () => {
                             </div>
                         </div>
                     )}
+
+                    {activeView === 'ledger' && (
+                        <GeneralLedgerView
+                            accounts={accounts}
+                            journalEntries={journalEntries}
+                            reconciledTransactions={reconciledTransactions}
+                            sessions={bookSessions}
+                            activePeriod={activePeriod}
+                            onOpenJournal={handleGoToJournal}
+                            onOpenBankTransaction={handleGoToTransaction}
+                        />
+                    )}
+
+                    {activeView === 'trialBalance' && <TrialBalanceView sessions={bookSessions} accounts={accounts} activePeriod={activePeriod} calendar={fiscalCalendar} />}
+                    {activeView === 'statements' && <FinancialStatementsView sessions={bookSessions} accounts={accounts} dimensions={activeDimensions} activePeriod={activePeriod} calendar={fiscalCalendar} />}
+                    {activeView === 'reconciliation' && <BankReconciliationView sessions={bookSessions} accounts={accounts} activePeriod={activePeriod} calendar={fiscalCalendar} />}
                 </div>
             </main>
 
-            {isCoAModalOpen && <ChartOfAccountsModal currentAccounts={accounts} onSave={setAccounts} onClose={() => setIsCoAModalOpen(false)} />}
-            {isJournalModalOpen && <JournalEntryModal isOpen={isJournalModalOpen} onClose={() => setIsJournalModalOpen(false)} onSave={handleSaveJournal} accounts={accounts} initialEntry={editingJournal} linkedTx={journalLinkedTx} openTextImprover={handleOpenTextImprover} selectedBankAccountId={selectedBankAccountId} tryAiFeature={tryAiFeature}/>}
+            {isCoAModalOpen && <ChartOfAccountsModal currentAccounts={accounts} versions={chartOfAccounts?.versions || []} sessions={bookSessions} onSave={handleSaveChartOfAccounts} onClose={() => setIsCoAModalOpen(false)} />}
+            {isJournalModalOpen && <JournalEntryModal isOpen={isJournalModalOpen} onClose={() => setIsJournalModalOpen(false)} onSave={handleSaveJournal} accounts={accounts} dimensions={activeDimensions} initialEntry={editingJournal} linkedTx={journalLinkedTx} linkedAmount={journalLinkedTx ? getUnreconciledAmount(journalLinkedTx, reconciledTransactions) : undefined} openTextImprover={handleOpenTextImprover} selectedBankAccountId={journalLinkedTx?.bankAccountId || selectedBankAccountId} tryAiFeature={tryAiFeature}/>}
             {isTextImproverOpen && <TextImproverModal isOpen={isTextImproverOpen} onClose={() => setIsTextImproverOpen(false)} onApply={improverCallback} tryAiFeature={tryAiFeature} initialText={textToImprove} />}
-            {isAiJournalModalOpen && <AiJournalEntryModal isOpen={isAiJournalModalOpen} onClose={() => setIsAiJournalModalOpen(false)} onSave={handleSaveAiJournal} accounts={accounts} selectedTransactions={statementTransactions.filter(tx => selectedTx.has(tx.id))} selectedBankAccountId={selectedBankAccountId} tryAiFeature={tryAiFeature} />}
-            {isPeriodManagerOpen && <PeriodManagerModal isOpen={isPeriodManagerOpen} onClose={() => setIsPeriodManagerOpen(false)} periods={periods} activePeriod={activePeriod} onSetActive={setActivePeriod} onDelete={handleDeletePeriod} onRename={handleRenamePeriod} onCreate={handleCreatePeriod} />}
+            {isAiJournalModalOpen && <AiJournalEntryModal isOpen={isAiJournalModalOpen} onClose={() => setIsAiJournalModalOpen(false)} onSave={handleSaveAiJournal} accounts={accounts} dimensions={activeDimensions} selectedTransactions={selectedTransactions} reconciledTransactions={reconciledTransactions} selectedBankAccountId={aiJournalBankAccountId} tryAiFeature={tryAiFeature} />}
+            {isMatchingModalOpen && (
+                <BankMatchingModal
+                    isOpen={isMatchingModalOpen}
+                    onClose={() => setIsMatchingModalOpen(false)}
+                    transactions={statementTransactions.filter(tx => tx.reconciliationStatus === 'unposted' && !isTxPostingBlocked(tx))}
+                    bookItems={getUnreconciledBookItems(journalEntries, reconciledTransactions, accounts)}
+                    accounts={accounts}
+                    defaultBankAccountId={selectedBankAccountId}
+                    initialOptions={matchOptions}
+                    onAccept={handleAcceptMatches}
+                />
+            )}
+            {isDuplicateModalOpen && <DuplicateRulesModal isOpen={isDuplicateModalOpen} onClose={() => setIsDuplicateModalOpen(false)} transactions={statementTransactions} initialRules={duplicateRules} onApply={handleApplyDuplicateGroups} />}
+            {filesToAssign && <AssignStatementFilesModal isOpen={!!filesToAssign} onClose={() => setFilesToAssign(null)} files={filesToAssign} bankAccounts={bankAccounts} defaultBankAccountId={selectedBankAccountId} onImport={handleQueueUploads} />}
+            {pendingSpreadsheet && <ColumnMappingModal isOpen={!!pendingSpreadsheet} onClose={() => { setPendingSpreadsheet(null); finishUpload(); }} rows={pendingSpreadsheet.rows} fileName={pendingSpreadsheet.fileName} bankAccountId={pendingSpreadsheet.bankAccountId} bankAccountName={accounts.find(a => a.id === pendingSpreadsheet.bankAccountId)?.name || ''} profiles={columnProfiles.filter(p => p.bankAccountId === pendingSpreadsheet.bankAccountId)} onImport={handleImportWithColumnProfile} onDeleteProfile={handleDeleteColumnProfile} onUseAi={handleInterpretSpreadsheetWithAi} />}
+            {isPeriodManagerOpen && <PeriodManagerModal isOpen={isPeriodManagerOpen} onClose={() => setIsPeriodManagerOpen(false)} periods={periods} activePeriod={activePeriod} calendar={fiscalCalendar} onSetActive={setActivePeriod} onDelete={handleDeletePeriod} onRename={handleRenamePeriod} onCreate={handleCreatePeriod} onClosePeriod={handleClosePeriod} onReopenPeriod={handleReopenPeriod} onOpenYearEnd={() => { setIsPeriodManagerOpen(false); setIsYearEndModalOpen(true); }} onOpenFiscalCalendar={() => { setIsPeriodManagerOpen(false); setIsFiscalCalendarModalOpen(true); }} />}
+            {isYearEndModalOpen && <YearEndCloseModal isOpen={isYearEndModalOpen} onClose={() => setIsYearEndModalOpen(false)} sessions={bookSessions} accounts={accounts} activePeriod={activePeriod} calendar={fiscalCalendar} onPost={handlePostYearEndClose} onReopenYear={handleReopenYear} />}
+            {isExportModalOpen && <ExportModal isOpen={isExportModalOpen} onClose={() => setIsExportModalOpen(false)} defaultStartDate={activeFiscalPeriod?.startDate || ''} defaultEndDate={activeFiscalPeriod?.endDate || ''} onExport={handleExport} />}
+            {isBankRulesModalOpen && <BankRulesModal isOpen={isBankRulesModalOpen} onClose={() => setIsBankRulesModalOpen(false)} rules={bankRules} accounts={accounts} dimensions={activeDimensions} transactions={statementTransactions.filter(tx => tx.reconciliationStatus !== 'posted')} defaultBankAccountId={selectedBankAccountId} onSave={handleSaveBankRules} />}
+            {isDimensionsModalOpen && <DimensionsModal isOpen={isDimensionsModalOpen} onClose={() => setIsDimensionsModalOpen(false)} dimensions={dimensions} usedValueIds={getUsedDimensionValueIds(bookSessions)} onSave={handleSaveDimensions} />}
+            {isFiscalCalendarModalOpen && <FiscalCalendarModal isOpen={isFiscalCalendarModalOpen} onClose={() => setIsFiscalCalendarModalOpen(false)} calendar={fiscalCalendar} existingPeriods={periods.map(p => p.period)} onSave={handleSaveFiscalCalendar} />}
+            {pendingStatements && <StatementAccountsModal fileName={pendingStatements.fileName} statements={pendingStatements.statements} bankAccounts={bankAccounts} defaultAccountIds={getStatementAccountDefaults(pendingStatements)} onImport={handleImportStatementAccounts} onCancel={handleCancelStatementAccount} />}
              {isSummaryModalOpen && (
                 <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={() => setIsSummaryModalOpen(false)}>
                     <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-2xl" onClick={e => e.stopPropagation()}>
@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react';
+import { Account } from '../types';
+import { UploadIcon } from './icons';
+
+const AssignStatementFilesModal = ({ isOpen, onClose, files, bankAccounts, defaultBankAccountId, onImport }: {
+    isOpen: boolean;
+    onClose: () => void;
+    files: File[];
+    bankAccounts: Account[];
+    defaultBankAccountId: string;
+    onImport: (uploads: { file: File, bankAccountId: string }[]) => void;
+}) => {
+    const [assignments, setAssignments] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (isOpen) {
+            setAssignments(files.map(() => defaultBankAccountId));
+        }
+    }, [isOpen, files, defaultBankAccountId]);
+
+    if (!isOpen) return null;
+
+    const isValid = assignments.length === files.length && assignments.every(Boolean);
+
+    const handleAssignAll = (bankAccountId: string) => {
+        if (bankAccountId) setAssignments(files.map(() => bankAccountId));
+    };
+
+    const handleImport = () => {
+        onImport(files.map((file, index) => ({ file, bankAccountId: assignments[index] })));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-2xl transform transition-all duration-300 scale-95 opacity-0 animate-fade-in-scale flex flex-col" style={{ maxHeight: '90vh' }} onClick={e => e.stopPropagation()}>
+                <div className="p-5 border-b dark:border-slate-700">
+                    <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <UploadIcon className="w-6 h-6 text-indigo-500" />
+                        Assign Statement Files
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">Choose the bank account each file belongs to. Rows that already came in from another file for the same account are merged automatically.</p>
+                </div>
+
+                <div className="p-5 overflow-y-auto flex-grow space-y-4">
+                    {files.length > 1 && (
+                        <div className="flex items-center justify-end gap-2 text-sm">
+                            <label htmlFor="assign-all-accounts" className="text-slate-500">Assign all to</label>
+                            <select id="assign-all-accounts" value="" onChange={e => handleAssignAll(e.target.value)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                <option value="">-- Select --</option>
+                                {bankAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    <ul className="space-y-2">
+                        {files.map((file, index) => (
+                            <li key={`${file.name}-${index}`} className="p-3 rounded-md bg-slate-50 dark:bg-slate-900/40 flex items-center justify-between gap-4">
+                                <div className="min-w-0">
+                                    <p className="font-medium text-sm truncate">{file.name}</p>
+                                    <p className="text-xs text-slate-500">{(file.size / 1024).toFixed(1)} KB</p>
+                                </div>
+                                <select
+                                    value={assignments[index] || ''}
+                                    onChange={e => setAssignments(prev => prev.map((id, i) => i === index ? e.target.value : id))}
+                                    className="w-60 text-sm p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600"
+                                >
+                                    <option value="">-- Select Bank Account --</option>
+                                    {bankAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                                </select>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+
+                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-end items-center rounded-b-lg border-t dark:border-slate-700 gap-3">
+                    <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 transition-colors px-4 py-2 rounded-md hover:bg-slate-200 dark:text-slate-300 dark:hover:text-slate-100 dark:hover:bg-slate-700">Cancel</button>
+                    <button onClick={handleImport} disabled={!isValid} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed">Import {files.length} File{files.length === 1 ? '' : 's'}</button>
+                </div>
+                <style>{`@keyframes fade-in-scale { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } } .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }`}</style>
+            </div>
+        </div>
+    );
+};
+
+export default AssignStatementFilesModal;
@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { Transaction } from '../types';
+import { BalanceCheckResult } from '../services/balanceCheck';
+import { CheckIcon, FlagIcon, TrashIcon } from './icons';
+import { currencyFormatter } from '../utils';
+
+const BalanceInput = ({ label, value, onCommit }: { label: string, value?: number, onCommit: (value?: number) => void }) => {
+    const [text, setText] = useState(value !== undefined ? String(value) : '');
+
+    useEffect(() => {
+        setText(value !== undefined ? String(value) : '');
+    }, [value]);
+
+    const handleBlur = () => {
+        const parsed = parseFloat(text.replace(/,/g, ''));
+        onCommit(text.trim() === '' || isNaN(parsed) ? undefined : parsed);
+    };
+
+    return (
+        <div>
+            <label className="block text-xs text-slate-500 dark:text-slate-400 mb-0.5">{label}</label>
+            <input type="number" step="0.01" value={text} onChange={e => setText(e.target.value)} onBlur={handleBlur} placeholder="Enter balance" className="w-36 p-1 text-right border rounded-md dark:bg-slate-700 dark:border-slate-600 font-mono text-sm" />
+        </div>
+    );
+};
+
+const Figure = ({ label, value, className = '' }: { label: string, value?: number, className?: string }) => (
+    <div>
+        <div className="text-xs text-slate-500 dark:text-slate-400 mb-0.5">{label}</div>
+        <div className={`font-mono text-sm py-1 ${className}`}>{value !== undefined ? currencyFormatter(value) : '—'}</div>
+    </div>
+);
+
+const BalanceCheckPanel = ({ fileLabel, check, accepted, breakTransaction, onChangeBalances, onAccept, onRevokeAcceptance, onShowRow, onRemove }: {
+    fileLabel?: string;
+    check: BalanceCheckResult;
+    accepted: boolean;
+    breakTransaction?: Transaction;
+    onChangeBalances: (balances: { openingBalance?: number, closingBalance?: number }) => void;
+    onAccept: () => void;
+    onRevokeAcceptance: () => void;
+    onShowRow: (transactionId: string) => void;
+    onRemove?: () => void;
+}) => {
+    const isBlocking = check.status !== 'balanced' && !accepted;
+    const tone = check.status === 'balanced'
+        ? 'border-green-300 bg-green-50 dark:border-green-700 dark:bg-green-900/20'
+        : accepted ? 'border-amber-300 bg-amber-50 dark:border-amber-700 dark:bg-amber-900/20' : 'border-red-300 bg-red-50 dark:border-red-700 dark:bg-red-900/20';
+
+    return (
+        <div className={`p-3 border rounded-md mb-4 ${tone}`}>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                <div>
+                    <h4 className="font-semibold flex items-center gap-2">
+                        {check.status === 'balanced' ? <CheckIcon className="w-4 h-4 text-green-600" /> : <FlagIcon className="w-4 h-4 text-red-500" />}
+                        Statement Balance Check
+                    </h4>
+                    {fileLabel && <p className="text-xs text-slate-500 dark:text-slate-400">{fileLabel}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className="text-xs font-medium">
+                        {check.status === 'balanced' && 'Opening balance plus movements agrees to the closing balance.'}
+                        {check.status === 'difference' && (accepted ? 'Difference accepted. Posting is allowed.' : 'Posting is blocked until the difference is resolved or accepted.')}
+                        {check.status === 'missing-balances' && (accepted ? 'Imported without balance validation.' : 'Enter the opening and closing balances from the statement to validate it.')}
+                    </span>
+                    {onRemove && (
+                        <button onClick={onRemove} title="Remove this file from the period" className="p-1 rounded-md text-red-500 hover:bg-red-100 hover:text-red-700 dark:hover:bg-red-900/40"><TrashIcon className="w-4 h-4" /></button>
+                    )}
+                </div>
+            </div>
+            <div className="flex flex-wrap items-end gap-4">
+                <BalanceInput label="Opening Balance" value={check.openingBalance} onCommit={openingBalance => onChangeBalances({ openingBalance })} />
+                <Figure label="+ Credits" value={check.totalCredits} />
+                <Figure label="− Debits" value={check.totalDebits} />
+                <Figure label="= Expected Closing" value={check.expectedClosing} className="font-semibold" />
+                <BalanceInput label="Statement Closing" value={check.closingBalance} onCommit={closingBalance => onChangeBalances({ closingBalance })} />
+                <Figure label="Difference" value={check.difference} className={check.status === 'difference' ? 'text-red-600 dark:text-red-400 font-semibold' : ''} />
+                <div className="ml-auto">
+                    {isBlocking && (
+                        <button onClick={onAccept} className="text-xs bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600">Accept {check.status === 'difference' ? 'Difference' : 'Without Validation'}</button>
+                    )}
+                    {accepted && check.status !== 'balanced' && (
+                        <button onClick={onRevokeAcceptance} className="text-xs text-indigo-600 dark:text-indigo-400 font-semibold hover:underline">Revoke Acceptance</button>
+                    )}
+                </div>
+            </div>
+            {check.firstBreak && (
+                <p className="text-xs mt-2">
+                    Running balance first goes wrong at{breakTransaction ? ` ${breakTransaction.date} "${breakTransaction.description}"` : ' a transaction'}: the statement shows {currencyFormatter(check.firstBreak.statementBalance)} but the imported rows give {currencyFormatter(check.firstBreak.expectedBalance)}.
+                    <button onClick={() => onShowRow(check.firstBreak!.transactionId)} className="ml-2 text-indigo-600 dark:text-indigo-400 font-semibold hover:underline">Show row</button>
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default BalanceCheckPanel;
@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { Account, Transaction } from '../types';
+import { BookItem, MatchOptions, MatchProposal, proposeMatches } from '../services/bankMatching';
+import { ArrowsPointingInIcon } from './icons';
+import { currencyFormatter } from '../utils';
+
+const KIND_LABELS: Record<MatchProposal['kind'], string> = {
+    'one-to-one': '1 : 1',
+    'one-to-many': '1 : many',
+    'many-to-one': 'many : 1',
+};
+
+const BankMatchingModal = ({ isOpen, onClose, transactions, bookItems, accounts, defaultBankAccountId, initialOptions, onAccept }: {
+    isOpen: boolean;
+    onClose: () => void;
+    transactions: Transaction[]; // Unposted statement rows
+    bookItems: BookItem[]; // Unreconciled bank lines of the period's journals
+    accounts: Account[];
+    defaultBankAccountId: string;
+    initialOptions: MatchOptions;
+    onAccept: (proposals: MatchProposal[], options: MatchOptions) => void;
+}) => {
+    const [options, setOptions] = useState<MatchOptions>(initialOptions);
+    const [proposals, setProposals] = useState<MatchProposal[] | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        if (isOpen) {
+            setOptions(initialOptions);
+            setProposals(null);
+            setSelected(new Set());
+        }
+    }, [isOpen, initialOptions]);
+
+    if (!isOpen) return null;
+
+    const updateOptions = (changes: Partial<MatchOptions>) => {
+        setOptions(prev => ({ ...prev, ...changes }));
+        setProposals(null); // Results no longer reflect the options
+    };
+
+    const handleFindMatches = () => {
+        const found = proposeMatches(transactions, bookItems, defaultBankAccountId, options);
+        setProposals(found);
+        setSelected(new Set(found.map(p => p.id)));
+    };
+
+    const toggleProposal = (id: string) => setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+    });
+
+    const bankName = (id: string) => accounts.find(a => a.id === id)?.name || 'Unknown bank account';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-4xl transform transition-all duration-300 scale-95 opacity-0 animate-fade-in-scale flex flex-col" style={{ maxHeight: '90vh' }} onClick={e => e.stopPropagation()}>
+                <div className="p-5 border-b dark:border-slate-700">
+                    <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <ArrowsPointingInIcon className="w-6 h-6 text-indigo-500" />
+                        Match to Journals
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">Links unposted bank lines to bank-account lines of journals you entered by hand, so they are reconciled without posting them again. Amounts must agree exactly; several lines on one side can add up to one on the other.</p>
+                </div>
+
+                <div className="p-5 overflow-y-auto flex-grow space-y-6">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Date window (days)</label>
+                            <input type="number" min={0} value={options.dateWindowDays} onChange={e => updateOptions({ dateWindowDays: Math.max(0, parseInt(e.target.value) || 0) })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Max. lines in a group</label>
+                            <input type="number" min={2} max={6} value={options.maxGroupSize} onChange={e => updateOptions({ maxGroupSize: Math.min(6, Math.max(2, parseInt(e.target.value) || 2)) })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                        </div>
+                        <div className="col-span-2 text-xs text-slate-500 self-end">
+                            {transactions.length} unposted bank line(s) · {bookItems.length} unreconciled journal line(s)
+                        </div>
+                    </div>
+
+                    {proposals === null ? (
+                        <p className="text-center text-sm text-slate-500 p-4">Find matches to review them before anything is reconciled.</p>
+                    ) : proposals.length === 0 ? (
+                        <p className="text-center text-sm text-slate-500 p-4">No bank lines match a journal with these options.</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {proposals.map(proposal => (
+                                <li key={proposal.id} className={`border rounded-md ${selected.has(proposal.id) ? 'border-indigo-300 dark:border-indigo-700' : 'dark:border-slate-700'}`}>
+                                    <label className="px-3 py-2 bg-slate-50 dark:bg-slate-900/40 flex items-center gap-2 text-xs cursor-pointer">
+                                        <input type="checkbox" checked={selected.has(proposal.id)} onChange={() => toggleProposal(proposal.id)} className="rounded" />
+                                        <span className="font-semibold bg-slate-200 dark:bg-slate-700 px-1.5 py-0.5 rounded">{KIND_LABELS[proposal.kind]}</span>
+                                        <span className="flex-grow text-slate-600 dark:text-slate-300">{proposal.reason} · {bankName(proposal.bookItems[0].bankAccountId)}</span>
+                                        <span className="font-semibold">Score {proposal.score}</span>
+                                    </label>
+                                    <div className="grid grid-cols-2 divide-x dark:divide-slate-700 text-xs">
+                                        <table className="w-full">
+                                            <tbody>
+                                                {proposal.transactions.map(tx => (
+                                                    <tr key={tx.id} className="border-t dark:border-slate-700">
+                                                        <td className="p-1.5 w-24">{tx.date}</td>
+                                                        <td className="p-1.5">{tx.description}{tx.reference && <span className="block text-slate-500">Ref: {tx.reference}</span>}</td>
+                                                        <td className="p-1.5 text-right font-mono">{tx.type === 'debit' ? '-' : ''}{currencyFormatter(tx.amount)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                        <table className="w-full">
+                                            <tbody>
+                                                {proposal.bookItems.map(item => (
+                                                    <tr key={item.lineId} className="border-t dark:border-slate-700">
+                                                        <td className="p-1.5 w-24">{item.date}</td>
+                                                        <td className="p-1.5">{item.description}{item.reference && <span className="block text-slate-500">Ref: {item.reference}</span>}</td>
+                                                        <td className="p-1.5 text-right font-mono">{item.type === 'debit' ? '-' : ''}{currencyFormatter(item.amount)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-end items-center rounded-b-lg border-t dark:border-slate-700 gap-3">
+                    <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 transition-colors px-4 py-2 rounded-md hover:bg-slate-200 dark:text-slate-300 dark:hover:text-slate-100 dark:hover:bg-slate-700">Cancel</button>
+                    {proposals === null ? (
+                        <button onClick={handleFindMatches} disabled={transactions.length === 0 || bookItems.length === 0} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors disabled:bg-slate-400">Find Matches</button>
+                    ) : (
+                        <button onClick={() => onAccept(proposals.filter(p => selected.has(p.id)), options)} disabled={selected.size === 0} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors disabled:bg-slate-400">Reconcile {selected.size} Match{selected.size === 1 ? '' : 'es'}</button>
+                    )}
+                </div>
+                <style>{`@keyframes fade-in-scale { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } } .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }`}</style>
+            </div>
+        </div>
+    );
+};
+
+export default BankMatchingModal;
@@ -0,0 +1,122 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Account, Session } from '../types';
+import { bankReconciliationToSheetRows, buildBankReconciliation, ReconcilingItem } from '../services/bankReconciliation';
+import { FiscalCalendar, getPeriodLabel } from '../services/fiscalCalendar';
+import { BanknotesIcon, CheckIcon, DownloadIcon, XIcon } from './icons';
+import { currencyFormatter } from '../utils';
+
+declare var XLSX: any;
+
+const ItemRows = ({ label, sign, items }: { label: string; sign: 1 | -1; items: ReconcilingItem[] }) => {
+    const total = items.reduce((sum, item) => sum + item.amount, 0);
+    return (
+        <tbody>
+            <tr className="bg-slate-50 dark:bg-slate-900/40">
+                <td colSpan={4} className="p-2 font-semibold text-xs uppercase tracking-wide text-slate-500">{sign > 0 ? 'Add' : 'Less'}: {label}</td>
+            </tr>
+            {items.length === 0 ? (
+                <tr className="border-b dark:border-slate-700"><td colSpan={4} className="p-2 text-xs text-slate-400">None</td></tr>
+            ) : items.map(item => (
+                <tr key={item.journalEntryId || item.transactionId} className="border-b dark:border-slate-700">
+                    <td className="p-2 text-xs w-28">{item.date}</td>
+                    <td className="p-2">{item.description}{item.reference && <span className="ml-2 text-xs text-slate-500">Ref: {item.reference}</span>}</td>
+                    <td className="p-2 text-right font-mono">{currencyFormatter(item.amount)}</td>
+                    <td className="p-2 w-36"></td>
+                </tr>
+            ))}
+            <tr className="border-b dark:border-slate-700">
+                <td></td>
+                <td className="p-2 text-xs">Total {label.toLowerCase()}</td>
+                <td></td>
+                <td className="p-2 text-right font-mono">{sign < 0 && total ? `(${currencyFormatter(total)})` : currencyFormatter(total)}</td>
+            </tr>
+        </tbody>
+    );
+};
+
+const BankReconciliationView = ({ sessions, accounts, activePeriod, calendar }: {
+    sessions: Session[]; // Saved periods, with the active period's unsaved changes applied
+    accounts: Account[];
+    activePeriod: string;
+    calendar: FiscalCalendar;
+}) => {
+    const bankAccounts = useMemo(() => accounts.filter(a => a.isBankAccount), [accounts]);
+    const periodOptions = useMemo(() => [...new Set(sessions.map(s => s.period))].sort(), [sessions]);
+    const [bankAccountId, setBankAccountId] = useState(bankAccounts[0]?.id || '');
+    const [period, setPeriod] = useState(activePeriod);
+
+    useEffect(() => {
+        setPeriod(activePeriod);
+    }, [activePeriod]);
+
+    useEffect(() => {
+        if (!bankAccounts.some(a => a.id === bankAccountId)) setBankAccountId(bankAccounts[0]?.id || '');
+    }, [bankAccounts, bankAccountId]);
+
+    const bankAccount = bankAccounts.find(a => a.id === bankAccountId);
+    const reconciliation = useMemo(() => bankAccountId ? buildBankReconciliation(sessions, accounts, bankAccountId, period) : null, [sessions, accounts, bankAccountId, period]);
+
+    const handleExport = () => {
+        if (!reconciliation || !bankAccount) return;
+        const worksheet = XLSX.utils.json_to_sheet(bankReconciliationToSheetRows(reconciliation));
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, worksheet, "Bank Reconciliation");
+        XLSX.writeFile(workbook, `BankReconciliation_${bankAccount.code}_${period}.xlsx`);
+    };
+
+    const balanceRow = (label: string, amount: number | undefined, emphasis = false) => (
+        <tbody>
+            <tr className={`border-b-2 dark:border-slate-600 ${emphasis ? 'font-semibold bg-slate-100 dark:bg-slate-700' : 'font-medium'}`}>
+                <td className="p-2" colSpan={3}>{label}</td>
+                <td className="p-2 text-right font-mono">{amount === undefined ? '—' : currencyFormatter(amount)}</td>
+            </tr>
+        </tbody>
+    );
+
+    return (
+        <div className="p-4">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <h3 className="font-semibold text-lg flex items-center gap-2"><BanknotesIcon className="w-5 h-5 text-indigo-500" /> Bank Reconciliation Statement <span className="text-sm font-normal text-slate-500">{getPeriodLabel(calendar, period)}</span></h3>
+                <div className="flex flex-wrap gap-2 items-center text-sm">
+                    <select value={bankAccountId} onChange={e => setBankAccountId(e.target.value)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                        {bankAccounts.map(a => <option key={a.id} value={a.id}>{a.code} - {a.name}</option>)}
+                    </select>
+                    <label className="text-xs text-slate-500">As at end of</label>
+                    <select value={period} onChange={e => setPeriod(e.target.value)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                        {periodOptions.map(p => <option key={p} value={p}>{getPeriodLabel(calendar, p)}</option>)}
+                    </select>
+                    <button onClick={handleExport} disabled={!reconciliation} className="text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600 flex items-center gap-1.5 disabled:opacity-50"><DownloadIcon className="w-4 h-4"/> Export XLSX</button>
+                </div>
+            </div>
+
+            {!reconciliation || !bankAccount ? (
+                <p className="text-center p-8 text-slate-500">Mark an account as a bank account in the Chart of Accounts to reconcile it.</p>
+            ) : (
+                <>
+                    <div className={`mb-4 p-3 rounded-md text-sm flex items-center gap-2 ${reconciliation.difference === 0 ? 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-300' : reconciliation.difference === undefined ? 'bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' : 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-300'}`}>
+                        {reconciliation.difference === 0 ? <CheckIcon className="w-5 h-5" /> : <XIcon className="w-5 h-5" />}
+                        {reconciliation.difference === undefined
+                            ? `No statement for ${bankAccount.name} up to ${getPeriodLabel(calendar, period)} states a closing balance. Enter it on the statement's balance check to complete the reconciliation.`
+                            : reconciliation.difference === 0
+                                ? 'The adjusted bank statement balance agrees with the adjusted cashbook balance.'
+                                : `Unreconciled difference of ${currencyFormatter(reconciliation.difference)}. Check for amounts posted differently from the bank, or statements that are missing rows.`}
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            {balanceRow(`Balance per bank statement${reconciliation.statementBalanceDate ? ` at ${reconciliation.statementBalanceDate}` : ''}${reconciliation.statementFileName ? ` (${reconciliation.statementFileName})` : ''}`, reconciliation.statementBalance)}
+                            <ItemRows label="Uncredited lodgements" sign={1} items={reconciliation.uncreditedLodgements} />
+                            <ItemRows label="Unpresented payments" sign={-1} items={reconciliation.unpresentedPayments} />
+                            {balanceRow('Adjusted bank statement balance', reconciliation.adjustedStatementBalance, true)}
+                            {balanceRow('Balance per cashbook', reconciliation.cashbookBalance)}
+                            <ItemRows label="Bank receipts not yet posted" sign={1} items={reconciliation.unpostedReceipts} />
+                            <ItemRows label="Bank payments not yet posted" sign={-1} items={reconciliation.unpostedPayments} />
+                            {balanceRow('Adjusted cashbook balance', reconciliation.adjustedCashbookBalance, true)}
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default BankReconciliationView;
@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Account, AnalysisDimension, Transaction } from '../types';
+import { BankRule, createBankRule, exportBankRules, getRegexError, importBankRules, moveBankRule, previewBankRule, validateBankRule } from '../services/bankRules';
+import { getAccountTree } from '../services/accountHierarchy';
+import { ArrowUpDownIcon, DownloadIcon, FileImportIcon, PlusIcon, SparklesIcon, TrashIcon } from './icons';
+import { currencyFormatter, getErrorMessage } from '../utils';
+
+const PREVIEW_ROWS = 25;
+
+const parseAmount = (text: string) => text.trim() === '' || isNaN(parseFloat(text)) ? undefined : parseFloat(text);
+
+const BankRulesModal = ({ isOpen, onClose, rules, accounts, dimensions, transactions, defaultBankAccountId, onSave }: {
+    isOpen: boolean;
+    onClose: () => void;
+    rules: BankRule[];
+    accounts: Account[];
+    dimensions: AnalysisDimension[]; // Only those with values
+    transactions: Transaction[]; // Unposted statement rows, for the preview
+    defaultBankAccountId: string; // Used for rows imported without a bank account
+    onSave: (rules: BankRule[]) => void;
+}) => {
+    const [draft, setDraft] = useState<BankRule[]>(rules);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(rules);
+            setSelectedId(rules[0]?.id || null);
+            setErrors({});
+        }
+    }, [isOpen, rules]);
+
+    const selected = draft.find(r => r.id === selectedId);
+    const preview = useMemo(() => selectedId ? previewBankRule(draft, accounts, selectedId, transactions, defaultBankAccountId) : null, [draft, accounts, selectedId, transactions, defaultBankAccountId]);
+
+    if (!isOpen) return null;
+
+    const bankAccounts = accounts.filter(a => a.isBankAccount);
+    const accountLabel = (id: string) => {
+        const account = accounts.find(a => a.id === id);
+        return account ? `${account.code} - ${account.name}` : 'No account';
+    };
+
+    const updateRule = (id: string, changes: Partial<BankRule>) => {
+        setDraft(prev => prev.map(r => r.id === id ? { ...r, ...changes } : r));
+        setErrors(prev => {
+            const { [id]: _cleared, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    const handleAddRule = () => {
+        const rule = createBankRule();
+        setDraft(prev => [...prev, rule]);
+        setSelectedId(rule.id);
+    };
+
+    const handleDeleteRule = (id: string) => {
+        setDraft(prev => prev.filter(r => r.id !== id));
+        if (selectedId === id) setSelectedId(draft.find(r => r.id !== id)?.id || null);
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportBankRules(draft, accounts, dimensions)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'BankRules.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Reset file input
+        if (!file) return;
+        try {
+            const { rules: imported, skipped } = importBankRules(await file.text(), accounts, dimensions);
+            setDraft(prev => [...prev, ...imported]);
+            if (imported.length > 0) setSelectedId(imported[0].id);
+            alert(`${imported.length} rule(s) imported and added after the existing rules.${skipped.length > 0 ? `\n\nSkipped:\n${skipped.join('\n')}` : ''}`);
+        } catch (e) {
+            console.error("Bank rules import error:", e);
+            alert(`Failed to import bank rules: ${getErrorMessage(e)}`);
+        }
+    };
+
+    const handleSave = () => {
+        const newErrors = Object.fromEntries(draft.map(r => [r.id, validateBankRule(r, accounts)]).filter(([, error]) => error));
+        setErrors(newErrors);
+        const firstInvalid = draft.find(r => newErrors[r.id]);
+        if (firstInvalid) {
+            setSelectedId(firstInvalid.id);
+            return;
+        }
+        onSave(draft.map(r => ({ ...r, name: r.name.trim() })));
+    };
+
+    const regexError = selected?.descriptionMatch === 'regex' && selected.descriptionPattern ? getRegexError(selected.descriptionPattern) : '';
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-5xl transform transition-all duration-300 scale-95 opacity-0 animate-fade-in-scale flex flex-col" style={{ maxHeight: '90vh' }} onClick={e => e.stopPropagation()}>
+                <div className="p-5 border-b dark:border-slate-700">
+                    <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <SparklesIcon className="w-6 h-6 text-indigo-500" />
+                        Bank Rules
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">When statement rows are posted, the first enabled rule that matches picks the account for the other side of the journal. Rows no rule matches go to Uncategorized as before.</p>
+                </div>
+
+                <div className="p-5 overflow-y-auto flex-grow grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div>
+                        <div className="flex justify-between items-center mb-2">
+                            <h4 className="font-semibold text-sm">Rules, in priority order</h4>
+                            <div className="flex gap-1">
+                                <input type="file" accept=".json,application/json" ref={fileInputRef} onChange={handleImport} className="hidden" />
+                                <button onClick={() => fileInputRef.current?.click()} title="Import rules from a JSON file" className="p-1.5 rounded-md text-slate-500 hover:bg-slate-200 hover:text-indigo-600 dark:hover:bg-slate-700"><FileImportIcon className="w-4 h-4" /></button>
+                                <button onClick={handleExport} disabled={draft.length === 0} title="Export rules to a JSON file" className="p-1.5 rounded-md text-slate-500 hover:bg-slate-200 hover:text-indigo-600 dark:hover:bg-slate-700 disabled:text-slate-300"><DownloadIcon className="w-4 h-4" /></button>
+                            </div>
+                        </div>
+                        <ul className="border dark:border-slate-700 rounded-md divide-y dark:divide-slate-700 text-sm">
+                            {draft.map((rule, index) => (
+                                <li key={rule.id} onClick={() => setSelectedId(rule.id)} className={`p-2 flex items-center gap-2 cursor-pointer ${rule.id === selectedId ? 'bg-indigo-50 dark:bg-indigo-900/30' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}>
+                                    <span className="text-xs text-slate-400 w-5">{index + 1}</span>
+                                    <input type="checkbox" checked={rule.enabled} onClick={e => e.stopPropagation()} onChange={e => updateRule(rule.id, { enabled: e.target.checked })} title="Enabled" className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+                                    <div className="flex-grow min-w-0">
+                                        <div className={`truncate ${rule.enabled ? '' : 'text-slate-400 line-through'}`}>{rule.name || 'Untitled rule'}</div>
+                                        <div className="text-xs text-slate-500 truncate">{accountLabel(rule.accountId)}</div>
+                                        {errors[rule.id] && <div className="text-xs text-red-500">{errors[rule.id]}</div>}
+                                    </div>
+                                    <button onClick={e => { e.stopPropagation(); setDraft(prev => moveBankRule(prev, rule.id, -1)); }} title="Move up" className="p-1 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full"><ArrowUpDownIcon direction="asc" className="w-3 h-3" /></button>
+                                    <button onClick={e => { e.stopPropagation(); setDraft(prev => moveBankRule(prev, rule.id, 1)); }} title="Move down" className="p-1 text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full"><ArrowUpDownIcon direction="desc" className="w-3 h-3" /></button>
+                                    <button onClick={e => { e.stopPropagation(); handleDeleteRule(rule.id); }} title="Delete rule" className="p-1 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full"><TrashIcon className="w-3 h-3" /></button>
+                                </li>
+                            ))}
+                            {draft.length === 0 && <li className="p-3 text-xs text-slate-500">No rules yet.</li>}
+                        </ul>
+                        <button onClick={handleAddRule} className="mt-3 flex items-center gap-2 text-sm text-indigo-600 font-semibold hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300">
+                            <PlusIcon className="w-4 h-4" /> Add Rule
+                        </button>
+                    </div>
+
+                    {selected ? (
+                        <div className="md:col-span-2 space-y-4 text-sm">
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 mb-1">Rule name</label>
+                                <input type="text" value={selected.name} onChange={e => updateRule(selected.id, { name: e.target.value })} placeholder="e.g. Office rent" className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                            </div>
+
+                            <fieldset className="p-3 border dark:border-slate-700 rounded-md">
+                                <legend className="px-1 text-xs font-semibold text-slate-500">When a row matches</legend>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                    <div>
+                                        <label className="block text-xs font-medium text-slate-500 mb-1">Description</label>
+                                        <select value={selected.descriptionMatch} onChange={e => updateRule(selected.id, { descriptionMatch: e.target.value as BankRule['descriptionMatch'] })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                            <option value="contains">Contains</option>
+                                            <option value="regex">Matches regular expression</option>
+                                        </select>
+                                    </div>
+                                    <div className="md:col-span-2">
+                                        <label className="block text-xs font-medium text-slate-500 mb-1">Text or pattern (empty matches any)</label>
+                                        <input type="text" value={selected.descriptionPattern} onChange={e => updateRule(selected.id, { descriptionPattern: e.target.value })} placeholder={selected.descriptionMatch === 'regex' ? 'e.g. ^POS .*(SHELL|TOTAL)' : 'e.g. landlord'} className={`w-full p-1.5 border rounded-md dark:bg-slate-700 font-mono ${regexError ? 'border-red-500' : 'dark:border-slate-600'}`} />
+                                        {regexError && <p className="text-xs text-red-500 mt-1">{regexError}</p>}
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-slate-500 mb-1">Direction</label>
+                                        <select value={selected.direction} onChange={e => updateRule(selected.id, { direction: e.target.value as BankRule['direction'] })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                            <option value="any">Money in or out</option>
+                                            <option value="debit">Money out (debit)</option>
+                                            <option value="credit">Money in (credit)</option>
+                                        </select>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-slate-500 mb-1">Amount from</label>
+                                        <input type="number" min={0} step="0.01" value={selected.minAmount ?? ''} onChange={e => updateRule(selected.id, { minAmount: parseAmount(e.target.value) })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-medium text-slate-500 mb-1">Amount to</label>
+                                        <input type="number" min={0} step="0.01" value={selected.maxAmount ?? ''} onChange={e => updateRule(selected.id, { maxAmount: parseAmount(e.target.value) })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                                    </div>
+                                    <div className="md:col-span-3">
+                                        <label className="block text-xs font-medium text-slate-500 mb-1">Bank account</label>
+                                        <select value={selected.bankAccountId} onChange={e => updateRule(selected.id, { bankAccountId: e.target.value })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                            <option value="">Any bank account</option>
+                                            {bankAccounts.map(a => <option key={a.id} value={a.id}>{a.code} - {a.name}</option>)}
+                                        </select>
+                                    </div>
+                                </div>
+                            </fieldset>
+
+                            <fieldset className="p-3 border dark:border-slate-700 rounded-md">
+                                <legend className="px-1 text-xs font-semibold text-slate-500">Post it as</legend>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                    <div className="md:col-span-3">
+                                        <label className="block text-xs font-medium text-slate-500 mb-1">Account</label>
+                                        <select value={selected.accountId} onChange={e => updateRule(selected.id, { accountId: e.target.value })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                            <option value="">— Choose an account —</option>
+                                            {getAccountTree(accounts).filter(({ account }) => !account.isBankAccount).map(({ account, depth }) => (
+                                                <option key={account.id} value={account.id} disabled={account.isHeader}>{'\u00A0\u00A0'.repeat(depth)}{account.code} - {account.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="md:col-span-3">
+                                        <label className="block text-xs font-medium text-slate-500 mb-1">Narration (empty keeps the statement description; {'{description}'} inserts it)</label>
+                                        <input type="text" value={selected.narration} onChange={e => updateRule(selected.id, { narration: e.target.value })} placeholder="e.g. Monthly office rent - {description}" className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                                    </div>
+                                    {dimensions.map(d => (
+                                        <div key={d.id}>
+                                            <label className="block text-xs font-medium text-slate-500 mb-1">{d.name}</label>
+                                            <select value={selected.dimensions[d.id] || ''} onChange={e => updateRule(selected.id, { dimensions: { ...selected.dimensions, [d.id]: e.target.value } })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                                <option value="">None</option>
+                                                {d.values.map(v => <option key={v.id} value={v.id}>{v.code} - {v.name}</option>)}
+                                            </select>
+                                        </div>
+                                    ))}
+                                </div>
+                            </fieldset>
+
+                            {errors[selected.id] && <p className="text-xs text-red-500">{errors[selected.id]}</p>}
+
+                            {preview && (
+                                <div>
+                                    <h4 className="font-semibold mb-1">Preview</h4>
+                                    <p className="text-xs text-slate-500 mb-2">
+                                        {preview.matches.length} of {transactions.length} unposted row(s) would be posted by this rule.
+                                        {preview.shadowed.length > 0 && ` ${preview.shadowed.length} more match it but are taken by a rule higher in the list.`}
+                                        {!selected.enabled && ' The rule is disabled, so it will not be used.'}
+                                    </p>
+                                    {preview.matches.length > 0 && (
+                                        <table className="w-full text-xs">
+                                            <tbody>
+                                                {preview.matches.slice(0, PREVIEW_ROWS).map(tx => (
+                                                    <tr key={tx.id} className="border-b dark:border-slate-700">
+                                                        <td className="p-1.5 whitespace-nowrap">{tx.date}</td>
+                                                        <td className="p-1.5">{tx.description}</td>
+                                                        <td className={`p-1.5 text-right font-mono ${tx.type === 'debit' ? 'text-red-600' : 'text-green-600'}`}>{tx.type === 'debit' ? '-' : '+'}{currencyFormatter(tx.amount)}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                    {preview.matches.length > PREVIEW_ROWS && <p className="text-xs text-slate-500 mt-1">…and {preview.matches.length - PREVIEW_ROWS} more.</p>}
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="md:col-span-2 flex items-center justify-center text-sm text-slate-500">Add a rule or choose one from the list.</div>
+                    )}
+                </div>
+
+                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-end items-center rounded-b-lg border-t dark:border-slate-700 gap-3">
+                    <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 transition-colors px-4 py-2 rounded-md hover:bg-slate-200 dark:text-slate-300 dark:hover:text-slate-100 dark:hover:bg-slate-700">Cancel</button>
+                    <button onClick={handleSave} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors">Save Rules</button>
+                </div>
+                <style>{`@keyframes fade-in-scale { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } } .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }`}</style>
+            </div>
+        </div>
+    );
+};
+
+export default BankRulesModal;
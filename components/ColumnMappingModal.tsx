@@ -0,0 +1,238 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ColumnMapping, ColumnProfile, StatementDateFormat } from '../types';
+import { FileImportIcon, TrashIcon, BrainIcon } from './icons';
+import { applyColumnProfile, detectHeaderRow, getHeaderSignature, guessColumnMapping, guessDateFormat } from '../services/spreadsheetImport';
+import { currencyFormatter, generateUUID } from '../utils';
+
+const FIELD_LABELS: { field: keyof ColumnMapping, label: string, hint: string }[] = [
+    { field: 'date', label: 'Date', hint: 'Required' },
+    { field: 'description', label: 'Description', hint: 'Required' },
+    { field: 'debit', label: 'Debit (money out)', hint: 'Use with Credit' },
+    { field: 'credit', label: 'Credit (money in)', hint: 'Use with Debit' },
+    { field: 'amount', label: 'Signed Amount', hint: 'Instead of Debit/Credit' },
+    { field: 'balance', label: 'Balance', hint: 'Optional' },
+];
+
+const ColumnMappingModal = ({ isOpen, onClose, rows, fileName, bankAccountId, bankAccountName, profiles, onImport, onDeleteProfile, onUseAi }: {
+    isOpen: boolean;
+    onClose: () => void;
+    rows: unknown[][];
+    fileName: string;
+    bankAccountId: string;
+    bankAccountName: string;
+    profiles: ColumnProfile[];
+    onImport: (profile: ColumnProfile, headerRowIndex: number, saveProfile: boolean) => void;
+    onDeleteProfile: (id: string) => void;
+    onUseAi: () => void;
+}) => {
+    const [headerRowIndex, setHeaderRowIndex] = useState(0);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [dateFormat, setDateFormat] = useState<StatementDateFormat>('DD/MM/YYYY');
+    const [negativeAmountIs, setNegativeAmountIs] = useState<'debit' | 'credit'>('debit');
+    const [profileName, setProfileName] = useState('');
+    const [saveProfile, setSaveProfile] = useState(true);
+
+    useEffect(() => {
+        if (isOpen) {
+            const detectedHeader = detectHeaderRow(rows);
+            const guessed = guessColumnMapping(rows[detectedHeader] || []);
+            setHeaderRowIndex(detectedHeader);
+            setMapping(guessed);
+            setDateFormat(guessDateFormat(rows.slice(detectedHeader + 1, detectedHeader + 50), guessed.date));
+            setNegativeAmountIs('debit');
+            setProfileName(`${bankAccountName} export`);
+            setSaveProfile(true);
+        }
+    }, [isOpen, rows, bankAccountName]);
+
+    const header = rows[headerRowIndex] || [];
+    const columnCount = Math.max(0, ...rows.slice(headerRowIndex, headerRowIndex + 20).map(r => r.length));
+
+    const handleHeaderRowChange = (index: number) => {
+        setHeaderRowIndex(index);
+        const guessed = guessColumnMapping(rows[index] || []);
+        setMapping(guessed);
+        setDateFormat(guessDateFormat(rows.slice(index + 1, index + 50), guessed.date));
+    };
+
+    const handleLoadProfile = (id: string) => {
+        const profile = profiles.find(p => p.id === id);
+        if (!profile) return;
+        setMapping(profile.mapping);
+        setDateFormat(profile.dateFormat);
+        setNegativeAmountIs(profile.negativeAmountIs);
+        setProfileName(profile.name);
+    };
+
+    const handleUpdateField = (field: keyof ColumnMapping, value: string) => {
+        setMapping(prev => {
+            const next = { ...prev };
+            if (value === '') delete next[field];
+            else next[field] = Number(value);
+            return next;
+        });
+    };
+
+    const preview = useMemo(
+        () => applyColumnProfile(rows, headerRowIndex, { mapping, dateFormat, negativeAmountIs }),
+        [rows, headerRowIndex, mapping, dateFormat, negativeAmountIs]
+    );
+
+    const hasAmountColumns = mapping.amount !== undefined || mapping.debit !== undefined || mapping.credit !== undefined;
+    const isValid = mapping.date !== undefined && mapping.description !== undefined && hasAmountColumns && preview.lines.length > 0;
+
+    const handleImport = () => {
+        if (!isValid) {
+            alert("Please map the Date, Description and at least one amount column.");
+            return;
+        }
+        if (saveProfile && !profileName.trim()) {
+            alert("Please give the column profile a name.");
+            return;
+        }
+        const profile: ColumnProfile = {
+            id: generateUUID(),
+            name: profileName.trim(),
+            bankAccountId,
+            headerSignature: getHeaderSignature(header),
+            mapping,
+            dateFormat,
+            negativeAmountIs,
+            createdAt: Date.now(),
+        };
+        onImport(profile, headerRowIndex, saveProfile);
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-5xl transform transition-all duration-300 scale-95 opacity-0 animate-fade-in-scale flex flex-col" style={{ maxHeight: '90vh' }} onClick={e => e.stopPropagation()}>
+                <div className="p-5 border-b dark:border-slate-700">
+                    <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <FileImportIcon className="w-6 h-6 text-indigo-500" />
+                        Map Statement Columns
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">{fileName} → {bankAccountName}. Saved profiles are reused automatically the next time this layout is uploaded.</p>
+                </div>
+
+                <div className="p-5 overflow-y-auto flex-grow space-y-6">
+                    {profiles.length > 0 && (
+                        <div className="p-4 border dark:border-slate-700 rounded-lg bg-slate-50 dark:bg-slate-900/40">
+                            <h4 className="font-semibold mb-2">Saved Profiles for this Account</h4>
+                            <ul className="space-y-1">
+                                {profiles.map(p => (
+                                    <li key={p.id} className="flex items-center justify-between text-sm">
+                                        <span>{p.name} <span className="text-xs text-slate-500">({p.dateFormat})</span></span>
+                                        <div className="flex items-center gap-2">
+                                            <button onClick={() => handleLoadProfile(p.id)} className="text-xs font-semibold text-indigo-600 hover:underline">Apply</button>
+                                            <button onClick={() => onDeleteProfile(p.id)} title="Delete profile" className="p-1 text-red-500 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full"><TrashIcon className="w-4 h-4" /></button>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div>
+                        <h4 className="font-semibold mb-2">Header Row</h4>
+                        <p className="text-xs text-slate-500 mb-2">Click the row that contains the column titles.</p>
+                        <div className="overflow-x-auto border dark:border-slate-700 rounded-md max-h-48 overflow-y-auto">
+                            <table className="w-full text-xs">
+                                <tbody>
+                                    {rows.slice(0, Math.max(headerRowIndex + 3, 10)).map((row, index) => (
+                                        <tr key={index} onClick={() => handleHeaderRowChange(index)} className={`cursor-pointer border-b dark:border-slate-700 ${index === headerRowIndex ? 'bg-indigo-100 dark:bg-indigo-900/40 font-semibold' : 'hover:bg-slate-50 dark:hover:bg-slate-700/50'}`}>
+                                            <td className="p-1 text-slate-400 w-8">{index + 1}</td>
+                                            {row.slice(0, 8).map((cell, ci) => <td key={ci} className="p-1 whitespace-nowrap">{String(cell ?? '')}</td>)}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        {FIELD_LABELS.map(({ field, label, hint }) => (
+                            <div key={field}>
+                                <label className="block text-sm font-medium mb-1">{label} <span className="text-xs text-slate-400 font-normal">{hint}</span></label>
+                                <select value={mapping[field] ?? ''} onChange={e => handleUpdateField(field, e.target.value)} className="w-full text-sm p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                    <option value="">— Not present —</option>
+                                    {Array.from({ length: columnCount }, (_, i) => (
+                                        <option key={i} value={i}>Column {i + 1}{header[i] !== undefined && String(header[i]).trim() ? `: ${String(header[i]).trim()}` : ''}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                        <div>
+                            <label className="block text-sm font-medium mb-1">Date Format</label>
+                            <select value={dateFormat} onChange={e => setDateFormat(e.target.value as StatementDateFormat)} className="w-full text-sm p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                                <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                                <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                            </select>
+                        </div>
+                        {mapping.amount !== undefined && (
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Negative Amounts Are</label>
+                                <select value={negativeAmountIs} onChange={e => setNegativeAmountIs(e.target.value as 'debit' | 'credit')} className="w-full text-sm p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                    <option value="debit">Debits (money out)</option>
+                                    <option value="credit">Credits (money in)</option>
+                                </select>
+                            </div>
+                        )}
+                    </div>
+
+                    <div>
+                        <h4 className="font-semibold mb-2">Preview <span className="text-xs font-normal text-slate-500">{preview.lines.length} transaction(s) found, {preview.skipped} row(s) skipped</span></h4>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-xs">
+                                <thead className="bg-slate-100 dark:bg-slate-700">
+                                    <tr>
+                                        <th className="p-1.5 text-left font-medium">Date</th>
+                                        <th className="p-1.5 text-left font-medium">Description</th>
+                                        <th className="p-1.5 text-right font-medium">Debit</th>
+                                        <th className="p-1.5 text-right font-medium">Credit</th>
+                                        <th className="p-1.5 text-right font-medium">Balance</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {preview.lines.slice(0, 8).map((line, i) => (
+                                        <tr key={i} className="border-b dark:border-slate-700">
+                                            <td className="p-1.5">{line.date}</td>
+                                            <td className="p-1.5">{line.description}</td>
+                                            <td className="p-1.5 text-right font-mono">{line.debit !== null ? currencyFormatter(line.debit) : ''}</td>
+                                            <td className="p-1.5 text-right font-mono">{line.credit !== null ? currencyFormatter(line.credit) : ''}</td>
+                                            <td className="p-1.5 text-right font-mono">{line.balance !== undefined ? currencyFormatter(line.balance) : ''}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {preview.lines.length === 0 && <p className="text-center p-4 text-slate-500 text-xs">No rows could be read with the current mapping.</p>}
+                        </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-3">
+                        <label className="flex items-center gap-2 text-sm">
+                            <input type="checkbox" checked={saveProfile} onChange={e => setSaveProfile(e.target.checked)} className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500" />
+                            Save as profile
+                        </label>
+                        {saveProfile && (
+                            <input type="text" value={profileName} onChange={e => setProfileName(e.target.value)} placeholder="Profile name" className="flex-grow text-sm p-2 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                        )}
+                    </div>
+                </div>
+
+                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-between items-center rounded-b-lg border-t dark:border-slate-700 gap-3">
+                    <button onClick={onUseAi} className="text-sm flex items-center gap-1.5 text-indigo-600 font-semibold hover:text-indigo-800 dark:text-indigo-400"><BrainIcon className="w-4 h-4" /> Let AI interpret instead</button>
+                    <div className="flex items-center gap-3">
+                        <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 transition-colors px-4 py-2 rounded-md hover:bg-slate-200 dark:text-slate-300 dark:hover:text-slate-100 dark:hover:bg-slate-700">Cancel</button>
+                        <button onClick={handleImport} disabled={!isValid} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed">Import {preview.lines.length} Transactions</button>
+                    </div>
+                </div>
+                <style>{`@keyframes fade-in-scale { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } } .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }`}</style>
+            </div>
+        </div>
+    );
+};
+
+export default ColumnMappingModal;
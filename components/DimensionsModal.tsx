@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { AnalysisDimension } from '../types';
+import { validateDimensions } from '../services/dimensions';
+import { ClipboardListIcon, PlusIcon, TrashIcon } from './icons';
+import { generateUUID } from '../utils';
+
+const DimensionsModal = ({ isOpen, onClose, dimensions, usedValueIds, onSave }: {
+    isOpen: boolean;
+    onClose: () => void;
+    dimensions: AnalysisDimension[];
+    usedValueIds: Set<string>; // Values on journal lines in any period; they cannot be deleted
+    onSave: (dimensions: AnalysisDimension[]) => void;
+}) => {
+    const [draft, setDraft] = useState<AnalysisDimension[]>(dimensions);
+    const [errors, setErrors] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        if (isOpen) {
+            setDraft(JSON.parse(JSON.stringify(dimensions)));
+            setErrors({});
+        }
+    }, [isOpen, dimensions]);
+
+    if (!isOpen) return null;
+
+    const updateDimension = (id: string, changes: Partial<AnalysisDimension>) =>
+        setDraft(prev => prev.map(d => d.id === id ? { ...d, ...changes } : d));
+
+    const handleAddDimension = () => setDraft(prev => [...prev, { id: generateUUID(), name: '', values: [] }]);
+
+    const handleDeleteDimension = (dimension: AnalysisDimension) => {
+        if (dimension.values.some(v => usedValueIds.has(v.id))) {
+            alert(`Some ${dimension.name || 'dimension'} values are used on journal lines, so the dimension cannot be deleted.`);
+            return;
+        }
+        setDraft(prev => prev.filter(d => d.id !== dimension.id));
+    };
+
+    const handleAddValue = (dimension: AnalysisDimension) =>
+        updateDimension(dimension.id, { values: [...dimension.values, { id: generateUUID(), code: '', name: '' }] });
+
+    const handleUpdateValue = (dimension: AnalysisDimension, valueId: string, field: 'code' | 'name', text: string) =>
+        updateDimension(dimension.id, { values: dimension.values.map(v => v.id === valueId ? { ...v, [field]: text } : v) });
+
+    const handleDeleteValue = (dimension: AnalysisDimension, valueId: string) => {
+        if (usedValueIds.has(valueId)) {
+            alert("This value is used on journal lines and cannot be deleted. Rename it instead.");
+            return;
+        }
+        updateDimension(dimension.id, { values: dimension.values.filter(v => v.id !== valueId) });
+    };
+
+    const handleSave = () => {
+        const newErrors = validateDimensions(draft);
+        setErrors(newErrors);
+        if (Object.keys(newErrors).length > 0) {
+            alert("Please fix the errors before saving.");
+            return;
+        }
+        onSave(draft.map(d => ({ ...d, name: d.name.trim(), values: d.values.map(v => ({ ...v, code: v.code.trim(), name: v.name.trim() })) })));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-3xl transform transition-all duration-300 scale-95 opacity-0 animate-fade-in-scale flex flex-col" style={{ maxHeight: '90vh' }} onClick={e => e.stopPropagation()}>
+                <div className="p-5 border-b dark:border-slate-700">
+                    <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <ClipboardListIcon className="w-6 h-6 text-indigo-500" />
+                        Analysis Dimensions
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">Tag journal lines with a cost centre, department, project or any other dimension, then filter by them and break the profit & loss down by them. A dimension only appears once it has values.</p>
+                </div>
+
+                <div className="p-5 overflow-y-auto flex-grow space-y-4">
+                    {draft.map(dimension => (
+                        <div key={dimension.id} className="p-4 border dark:border-slate-700 rounded-lg">
+                            <div className="flex items-center gap-2 mb-3">
+                                <input type="text" value={dimension.name} onChange={e => updateDimension(dimension.id, { name: e.target.value })} placeholder="Dimension name, e.g. Cost Centre" className={`flex-grow p-1.5 border rounded-md text-sm font-semibold bg-white dark:bg-slate-700 ${errors[dimension.id] ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'}`} />
+                                <button onClick={() => handleDeleteDimension(dimension)} title="Delete dimension" className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full"><TrashIcon className="w-4 h-4" /></button>
+                            </div>
+                            {errors[dimension.id] && <p className="text-xs text-red-500 -mt-2 mb-2">{errors[dimension.id]}</p>}
+                            <table className="w-full text-sm">
+                                <tbody>
+                                    {dimension.values.map(value => (
+                                        <tr key={value.id}>
+                                            <td className="p-1 w-32"><input type="text" value={value.code} onChange={e => handleUpdateValue(dimension, value.id, 'code', e.target.value)} placeholder="Code" className={`w-full p-1 border rounded-md text-sm bg-white dark:bg-slate-700 ${errors[value.id] ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'}`} /></td>
+                                            <td className="p-1">
+                                                <input type="text" value={value.name} onChange={e => handleUpdateValue(dimension, value.id, 'name', e.target.value)} placeholder="Name" className={`w-full p-1 border rounded-md text-sm bg-white dark:bg-slate-700 ${errors[value.id] ? 'border-red-500' : 'border-slate-300 dark:border-slate-600'}`} />
+                                                {errors[value.id] && <p className="text-xs text-red-500 mt-1">{errors[value.id]}</p>}
+                                            </td>
+                                            <td className="p-1 w-10 text-center"><button onClick={() => handleDeleteValue(dimension, value.id)} title={usedValueIds.has(value.id) ? 'Used on journal lines' : 'Delete value'} className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-100 dark:hover:bg-red-900/50 rounded-full"><TrashIcon className="w-4 h-4" /></button></td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <button onClick={() => handleAddValue(dimension)} className="mt-2 flex items-center gap-2 text-xs text-indigo-600 font-semibold hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300">
+                                <PlusIcon className="w-4 h-4" /> Add Value
+                            </button>
+                        </div>
+                    ))}
+                    <button onClick={handleAddDimension} className="flex items-center gap-2 text-sm text-indigo-600 font-semibold hover:text-indigo-800 dark:text-indigo-400 dark:hover:text-indigo-300">
+                        <PlusIcon className="w-4 h-4" /> Add Dimension
+                    </button>
+                </div>
+
+                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-end items-center rounded-b-lg border-t dark:border-slate-700 gap-3">
+                    <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 transition-colors px-4 py-2 rounded-md hover:bg-slate-200 dark:text-slate-300 dark:hover:text-slate-100 dark:hover:bg-slate-700">Cancel</button>
+                    <button onClick={handleSave} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors">Save Dimensions</button>
+                </div>
+                <style>{`@keyframes fade-in-scale { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } } .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }`}</style>
+            </div>
+        </div>
+    );
+};
+
+export default DimensionsModal;
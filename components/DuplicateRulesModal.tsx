@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { Transaction } from '../types';
+import { DuplicateGroup, DuplicateRules, findDuplicateGroups } from '../services/duplicateDetection';
+import { FlagIcon } from './icons';
+import { currencyFormatter } from '../utils';
+
+const DuplicateRulesModal = ({ isOpen, onClose, transactions, initialRules, onApply }: {
+    isOpen: boolean;
+    onClose: () => void;
+    transactions: Transaction[];
+    initialRules: DuplicateRules;
+    onApply: (groups: DuplicateGroup[], rules: DuplicateRules) => void;
+}) => {
+    const [rules, setRules] = useState<DuplicateRules>(initialRules);
+    const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setRules(initialRules);
+            setGroups(null);
+        }
+    }, [isOpen, initialRules]);
+
+    if (!isOpen) return null;
+
+    const updateRules = (changes: Partial<DuplicateRules>) => {
+        setRules(prev => ({ ...prev, ...changes }));
+        setGroups(null); // Results no longer reflect the rules
+    };
+
+    const byId = new Map(transactions.map(tx => [tx.id, tx]));
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-3xl transform transition-all duration-300 scale-95 opacity-0 animate-fade-in-scale flex flex-col" style={{ maxHeight: '90vh' }} onClick={e => e.stopPropagation()}>
+                <div className="p-5 border-b dark:border-slate-700">
+                    <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <FlagIcon className="w-6 h-6 text-red-500" />
+                        Find Duplicates
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">Rows are compared on this device within the same bank account and direction. No AI credits are used.</p>
+                </div>
+
+                <div className="p-5 overflow-y-auto flex-grow space-y-6">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Date window (days)</label>
+                            <input type="number" min={0} value={rules.dateWindowDays} onChange={e => updateRules({ dateWindowDays: Math.max(0, parseInt(e.target.value) || 0) })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Amount</label>
+                            <select value={rules.amountMatch} onChange={e => updateRules({ amountMatch: e.target.value as DuplicateRules['amountMatch'] })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                <option value="exact">Exact match</option>
+                                <option value="tolerance">Within tolerance</option>
+                            </select>
+                            {rules.amountMatch === 'tolerance' && (
+                                <input type="number" min={0} step="0.01" value={rules.amountTolerance} onChange={e => updateRules({ amountTolerance: Math.max(0, parseFloat(e.target.value) || 0) })} title="Largest allowed difference" className="w-full mt-1 p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                            )}
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Description matching</label>
+                            <select value={rules.descriptionMethod} onChange={e => updateRules({ descriptionMethod: e.target.value as DuplicateRules['descriptionMethod'] })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                <option value="token">Word match</option>
+                                <option value="levenshtein">Edit distance (Levenshtein)</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Min. similarity ({rules.minDescriptionSimilarity}%)</label>
+                            <input type="range" min={0} max={100} step={5} value={rules.minDescriptionSimilarity} onChange={e => updateRules({ minDescriptionSimilarity: parseInt(e.target.value) })} className="w-full" />
+                        </div>
+                    </div>
+
+                    {groups === null ? (
+                        <p className="text-center text-sm text-slate-500 p-4">Run the check to see potential duplicates among {transactions.length} transactions.</p>
+                    ) : groups.length === 0 ? (
+                        <p className="text-center text-sm text-slate-500 p-4">No potential duplicates match these rules.</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {groups.map(group => (
+                                <li key={group.ids.join('|')} className="border dark:border-slate-700 rounded-md">
+                                    <div className="px-3 py-2 bg-slate-50 dark:bg-slate-900/40 flex justify-between items-center text-xs">
+                                        <span className="text-slate-600 dark:text-slate-300">{group.reason}</span>
+                                        <span className="font-semibold">Score {group.score}</span>
+                                    </div>
+                                    <table className="w-full text-xs">
+                                        <tbody>
+                                            {group.ids.map(id => {
+                                                const tx = byId.get(id);
+                                                if (!tx) return null;
+                                                return (
+                                                    <tr key={id} className="border-t dark:border-slate-700">
+                                                        <td className="p-1.5 w-24">{tx.date}</td>
+                                                        <td className="p-1.5">{tx.description}</td>
+                                                        <td className="p-1.5 text-right font-mono">{tx.type === 'debit' ? '-' : ''}{currencyFormatter(tx.amount)}</td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-end items-center rounded-b-lg border-t dark:border-slate-700 gap-3">
+                    <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 transition-colors px-4 py-2 rounded-md hover:bg-slate-200 dark:text-slate-300 dark:hover:text-slate-100 dark:hover:bg-slate-700">Cancel</button>
+                    {groups === null ? (
+                        <button onClick={() => setGroups(findDuplicateGroups(transactions, rules))} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors">Run Check</button>
+                    ) : (
+                        <button onClick={() => onApply(groups, rules)} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors">Flag {groups.length} Group{groups.length === 1 ? '' : 's'} in Table</button>
+                    )}
+                </div>
+                <style>{`@keyframes fade-in-scale { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } } .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }`}</style>
+            </div>
+        </div>
+    );
+};
+
+export default DuplicateRulesModal;
@@ -0,0 +1,255 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Account, AnalysisDimension, Session } from '../types';
+import { buildBalanceSheet, buildProfitAndLoss, buildProfitAndLossByDimension, ProfitAndLossByDimension, StatementLine, StatementSection } from '../services/financialStatements';
+import { FiscalCalendar, getFiscalYearStartKey, getPeriodLabel } from '../services/fiscalCalendar';
+import { formatLedgerBalance } from './GeneralLedgerView';
+import { DocumentTextIcon, DownloadIcon, FlagIcon } from './icons';
+import { currencyFormatter } from '../utils';
+
+declare var XLSX: any;
+
+const formatAmount = (amount: number) => amount < 0 ? `(${currencyFormatter(-amount)})` : currencyFormatter(amount);
+
+// Parent accounts show the total of their sub-accounts, which are indented below them.
+const LineRow = ({ line }: { line: StatementLine }) => (
+    <tr className={line.isRollUp ? 'font-medium' : ''}>
+        <td className="py-1 pl-3" style={{ paddingLeft: `${0.75 + line.depth * 1.25}rem` }}><span className="font-mono text-xs text-slate-400 mr-2">{line.code}</span>{line.name}</td>
+        <td className="py-1 text-right font-mono">{formatAmount(line.amount)}</td>
+    </tr>
+);
+
+const SectionRows = ({ section }: { section: StatementSection }) => (
+    <>
+        <tr><td colSpan={2} className="pt-3 pb-1 font-semibold text-xs uppercase tracking-wide text-slate-500">{section.label}</td></tr>
+        {section.lines.map(line => <React.Fragment key={line.code}><LineRow line={line} /></React.Fragment>)}
+        {section.lines.length === 0 && <tr><td colSpan={2} className="py-1 pl-3 text-xs text-slate-400">None</td></tr>}
+        <tr className="border-t dark:border-slate-700 font-semibold">
+            <td className="py-1">Total {section.label}</td>
+            <td className="py-1 text-right font-mono">{formatAmount(section.total)}</td>
+        </tr>
+    </>
+);
+
+const TotalRow = ({ label, amount, strong }: { label: string, amount: number, strong?: boolean }) => (
+    <tr className={`border-t-2 dark:border-slate-600 ${strong ? 'font-bold' : 'font-semibold'}`}>
+        <td className="py-2">{label}</td>
+        <td className="py-2 text-right font-mono">{formatAmount(amount)}</td>
+    </tr>
+);
+
+const sectionSheetRows = (sections: StatementSection[]) => sections.flatMap(section => [
+    ...section.lines.map(line => ({ Section: section.label, Code: line.code, Account: `${'    '.repeat(line.depth)}${line.name}`, Amount: line.amount, 'Includes Sub-Accounts': line.isRollUp ? 'Yes' : '' })),
+    { Section: section.label, Code: '', Account: `Total ${section.label}`, Amount: section.total, 'Includes Sub-Accounts': '' },
+]);
+
+// Every account that has an amount in any column, in the order of the total column.
+const dimensionSectionLines = (report: ProfitAndLossByDimension, sectionIndex: number) => {
+    const lines = new Map<string, StatementLine>();
+    [report.total, ...report.columns.map(c => c.profitAndLoss)].forEach(pl => pl.sections[sectionIndex].lines.forEach(line => {
+        if (!lines.has(line.code)) lines.set(line.code, line);
+    }));
+    return [...lines.values()];
+};
+
+const columnAmount = (report: ProfitAndLossByDimension, columnIndex: number, sectionIndex: number, code: string) => {
+    const pl = columnIndex < report.columns.length ? report.columns[columnIndex].profitAndLoss : report.total;
+    return pl.sections[sectionIndex].lines.find(line => line.code === code)?.amount || 0;
+};
+
+const dimensionSheetRows = (report: ProfitAndLossByDimension) => {
+    const columnLabels = [...report.columns.map(c => c.label), 'Total'];
+    const amounts = (amountOf: (columnIndex: number) => number) => Object.fromEntries(columnLabels.map((label, i) => [label, amountOf(i)]));
+    const plOf = (i: number) => i < report.columns.length ? report.columns[i].profitAndLoss : report.total;
+    return [
+        ...report.total.sections.flatMap((section, sectionIndex) => [
+            ...dimensionSectionLines(report, sectionIndex).map(line => ({ Section: section.label, Code: line.code, Account: `${'    '.repeat(line.depth)}${line.name}`, ...amounts(i => columnAmount(report, i, sectionIndex, line.code)) })),
+            { Section: section.label, Code: '', Account: `Total ${section.label}`, ...amounts(i => plOf(i).sections[sectionIndex].total) },
+        ]),
+        { Section: '', Code: '', Account: 'Gross Profit', ...amounts(i => plOf(i).grossProfit) },
+        { Section: '', Code: '', Account: 'Net Profit', ...amounts(i => plOf(i).netProfit) },
+    ];
+};
+
+const ProfitAndLossByDimensionTable = ({ report }: { report: ProfitAndLossByDimension }) => {
+    const profitAndLosses = [...report.columns.map(c => c.profitAndLoss), report.total];
+    const amountCells = (amountOf: (columnIndex: number) => number, className = 'py-1') =>
+        profitAndLosses.map((_, i) => <td key={i} className={`${className} px-2 text-right font-mono whitespace-nowrap ${i === report.columns.length ? 'font-semibold' : ''}`}>{formatAmount(amountOf(i))}</td>);
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="border-b dark:border-slate-700 text-xs text-slate-500">
+                        <th className="py-1 text-left font-semibold">Account</th>
+                        {report.columns.map(c => <th key={c.valueId || 'unassigned'} className="py-1 px-2 text-right font-semibold whitespace-nowrap">{c.label}</th>)}
+                        <th className="py-1 px-2 text-right font-semibold">Total</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {report.total.sections.map((section, sectionIndex) => {
+                        const lines = dimensionSectionLines(report, sectionIndex);
+                        if (lines.length === 0 && section.hideWhenEmpty) return null;
+                        return (
+                            <React.Fragment key={section.label}>
+                                <tr><td colSpan={profitAndLosses.length + 1} className="pt-3 pb-1 font-semibold text-xs uppercase tracking-wide text-slate-500">{section.label}</td></tr>
+                                {lines.map(line => (
+                                    <tr key={line.code} className={line.isRollUp ? 'font-medium' : ''}>
+                                        <td className="py-1 pl-3" style={{ paddingLeft: `${0.75 + line.depth * 1.25}rem` }}><span className="font-mono text-xs text-slate-400 mr-2">{line.code}</span>{line.name}</td>
+                                        {amountCells(i => columnAmount(report, i, sectionIndex, line.code))}
+                                    </tr>
+                                ))}
+                                <tr className="border-t dark:border-slate-700 font-semibold">
+                                    <td className="py-1">Total {section.label}</td>
+                                    {amountCells(i => profitAndLosses[i].sections[sectionIndex].total)}
+                                </tr>
+                            </React.Fragment>
+                        );
+                    })}
+                    <tr className="border-t-2 dark:border-slate-600 font-semibold">
+                        <td className="py-2">Gross Profit</td>
+                        {amountCells(i => profitAndLosses[i].grossProfit, 'py-2')}
+                    </tr>
+                    <tr className="border-t-2 dark:border-slate-600 font-bold">
+                        <td className="py-2">Net Profit</td>
+                        {amountCells(i => profitAndLosses[i].netProfit, 'py-2')}
+                    </tr>
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+const FinancialStatementsView = ({ sessions, accounts, dimensions, activePeriod, calendar }: {
+    sessions: Session[]; // Saved periods, with the active period's unsaved changes applied
+    accounts: Account[];
+    dimensions: AnalysisDimension[]; // Only those with values
+    activePeriod: string;
+    calendar: FiscalCalendar;
+}) => {
+    const periodOptions = useMemo(() => [...new Set(sessions.map(s => s.period))].sort(), [sessions]);
+    const [period, setPeriod] = useState(activePeriod);
+    const [basis, setBasis] = useState<'period' | 'ytd'>('period');
+    const [dimensionId, setDimensionId] = useState('');
+
+    useEffect(() => {
+        setPeriod(activePeriod);
+    }, [activePeriod]);
+
+    const yearStart = getFiscalYearStartKey(calendar, period);
+    const profitAndLoss = useMemo(() => buildProfitAndLoss(sessions, accounts, basis === 'ytd' ? yearStart : period, period), [sessions, accounts, basis, yearStart, period]);
+    const balanceSheet = useMemo(() => buildBalanceSheet(sessions, accounts, yearStart, period), [sessions, accounts, yearStart, period]);
+    const dimension = dimensions.find(d => d.id === dimensionId);
+    const profitByDimension = useMemo(() => dimension ? buildProfitAndLossByDimension(sessions, accounts, dimension, basis === 'ytd' ? yearStart : period, period) : null, [sessions, accounts, dimension, basis, yearStart, period]);
+    const profitLabel = basis === 'ytd' ? `${getPeriodLabel(calendar, yearStart)} to ${getPeriodLabel(calendar, period)}` : getPeriodLabel(calendar, period);
+
+    const handleExport = () => {
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([
+            ...sectionSheetRows(profitAndLoss.sections),
+            { Section: '', Code: '', Account: 'Gross Profit', Amount: profitAndLoss.grossProfit },
+            { Section: '', Code: '', Account: 'Net Profit', Amount: profitAndLoss.netProfit },
+        ]), "Profit and Loss");
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet([
+            ...sectionSheetRows(balanceSheet.sections),
+            { Section: 'Equity', Code: '', Account: "Prior Years' Profit (not closed)", Amount: balanceSheet.retainedEarnings },
+            { Section: 'Equity', Code: '', Account: 'Current Year Profit', Amount: balanceSheet.currentYearProfit },
+            { Section: '', Code: '', Account: 'Suspense', Amount: balanceSheet.suspenseBalance },
+            { Section: '', Code: '', Account: 'Total Assets', Amount: balanceSheet.totalAssets },
+            { Section: '', Code: '', Account: 'Total Liabilities and Equity', Amount: balanceSheet.totalLiabilities + balanceSheet.totalEquity },
+        ]), "Balance Sheet");
+        if (profitByDimension) {
+            XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(dimensionSheetRows(profitByDimension)), `P&L by ${profitByDimension.dimension.name}`.slice(0, 31));
+        }
+        XLSX.writeFile(workbook, `FinancialStatements_${period}_${basis}.xlsx`);
+    };
+
+    const equitySection = balanceSheet.sections.find(s => s.label === 'Equity');
+
+    return (
+        <div className="p-4">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <h3 className="font-semibold text-lg flex items-center gap-2"><DocumentTextIcon className="w-5 h-5 text-indigo-500" /> Financial Statements</h3>
+                <div className="flex flex-wrap gap-2 items-center text-sm">
+                    <select value={period} onChange={e => setPeriod(e.target.value)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                        {periodOptions.map(p => <option key={p} value={p}>{getPeriodLabel(calendar, p)}</option>)}
+                    </select>
+                    <div className="flex rounded-md border border-slate-300 dark:border-slate-600 overflow-hidden">
+                        <button onClick={() => setBasis('period')} className={`px-3 py-1 ${basis === 'period' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}>Period</button>
+                        <button onClick={() => setBasis('ytd')} className={`px-3 py-1 ${basis === 'ytd' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}>Year to Date</button>
+                    </div>
+                    {dimensions.length > 0 && (
+                        <select value={dimensionId} onChange={e => setDimensionId(e.target.value)} title="Break the profit & loss down by an analysis dimension" className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                            <option value="">No breakdown</option>
+                            {dimensions.map(d => <option key={d.id} value={d.id}>P&L by {d.name}</option>)}
+                        </select>
+                    )}
+                    <button onClick={handleExport} className="text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600 flex items-center gap-1.5"><DownloadIcon className="w-4 h-4"/> Export XLSX</button>
+                </div>
+            </div>
+
+            {balanceSheet.suspenseBalance !== 0 && (
+                <div className="mb-4 p-3 rounded-md text-sm flex items-center gap-2 bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                    <FlagIcon className="w-5 h-5" />
+                    The Suspense account holds {formatLedgerBalance(balanceSheet.suspenseBalance)}. Reclassify these items to the right accounts before relying on these statements.
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="border dark:border-slate-700 rounded-lg p-4">
+                    <h4 className="font-semibold">Profit & Loss</h4>
+                    <p className="text-xs text-slate-500 mb-2">{profitLabel}</p>
+                    <table className="w-full text-sm">
+                        <tbody>
+                            <SectionRows section={profitAndLoss.sections[0]} />
+                            <SectionRows section={profitAndLoss.sections[1]} />
+                            <TotalRow label="Gross Profit" amount={profitAndLoss.grossProfit} />
+                            <SectionRows section={profitAndLoss.sections[2]} />
+                            {profitAndLoss.sections[3].lines.length > 0 && <SectionRows section={profitAndLoss.sections[3]} />}
+                            <TotalRow label={profitAndLoss.netProfit < 0 ? 'Net Loss' : 'Net Profit'} amount={profitAndLoss.netProfit} strong />
+                        </tbody>
+                    </table>
+                </div>
+
+                <div className="border dark:border-slate-700 rounded-lg p-4">
+                    <h4 className="font-semibold">Balance Sheet</h4>
+                    <p className="text-xs text-slate-500 mb-2">As at the end of {getPeriodLabel(calendar, period)}</p>
+                    <table className="w-full text-sm">
+                        <tbody>
+                            <SectionRows section={balanceSheet.sections[0]} />
+                            {balanceSheet.sections[1].lines.length > 0 && <SectionRows section={balanceSheet.sections[1]} />}
+                            <TotalRow label="Total Assets" amount={balanceSheet.totalAssets} />
+                            <SectionRows section={balanceSheet.sections[2]} />
+                            <tr><td colSpan={2} className="pt-3 pb-1 font-semibold text-xs uppercase tracking-wide text-slate-500">Equity</td></tr>
+                            {equitySection?.lines.map(line => <React.Fragment key={line.code}><LineRow line={line} /></React.Fragment>)}
+                            {balanceSheet.retainedEarnings !== 0 && (
+                                <tr><td className="py-1 pl-3">Prior Years' Profit (not closed)</td><td className="py-1 text-right font-mono">{formatAmount(balanceSheet.retainedEarnings)}</td></tr>
+                            )}
+                            <tr><td className="py-1 pl-3">Current Year Profit</td><td className="py-1 text-right font-mono">{formatAmount(balanceSheet.currentYearProfit)}</td></tr>
+                            <tr className="border-t dark:border-slate-700 font-semibold">
+                                <td className="py-1">Total Equity</td>
+                                <td className="py-1 text-right font-mono">{formatAmount(balanceSheet.totalEquity)}</td>
+                            </tr>
+                            <TotalRow label="Total Liabilities and Equity" amount={balanceSheet.totalLiabilities + balanceSheet.totalEquity} />
+                            {balanceSheet.suspenseBalance !== 0 && (
+                                <tr className="text-amber-700 dark:text-amber-400">
+                                    <td className="py-1">Suspense (not yet classified)</td>
+                                    <td className="py-1 text-right font-mono">{formatLedgerBalance(balanceSheet.suspenseBalance)}</td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                    {!balanceSheet.isBalanced && <p className="mt-3 text-xs text-red-600">The balance sheet does not balance. Check the trial balance for journals with unequal debits and credits.</p>}
+                </div>
+            </div>
+
+            {profitByDimension && (
+                <div className="mt-6 border dark:border-slate-700 rounded-lg p-4">
+                    <h4 className="font-semibold">Profit & Loss by {profitByDimension.dimension.name}</h4>
+                    <p className="text-xs text-slate-500 mb-2">{profitLabel}. Lines without a {profitByDimension.dimension.name.toLowerCase()} are shown as Unassigned.</p>
+                    <ProfitAndLossByDimensionTable report={profitByDimension} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FinancialStatementsView;
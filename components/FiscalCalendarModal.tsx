@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import { FiscalCalendar, FiscalCalendarKind, getFiscalPeriod, getFiscalYearPeriods, getPeriodForDate } from '../services/fiscalCalendar';
+import { BookOpenIcon } from './icons';
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const FiscalCalendarModal = ({ isOpen, onClose, calendar, existingPeriods, onSave }: {
+    isOpen: boolean;
+    onClose: () => void;
+    calendar: FiscalCalendar;
+    existingPeriods: string[];
+    onSave: (calendar: FiscalCalendar) => void;
+}) => {
+    const [draft, setDraft] = useState<FiscalCalendar>(calendar);
+
+    useEffect(() => {
+        if (isOpen) setDraft(calendar);
+    }, [isOpen, calendar]);
+
+    if (!isOpen) return null;
+
+    const update = (changes: Partial<FiscalCalendar>) => setDraft(prev => ({ ...prev, ...changes }));
+    const today = new Date().toISOString().slice(0, 10);
+    const previewPeriods = getFiscalYearPeriods(draft, getPeriodForDate(draft, today).fiscalYear);
+    // Month-based and week-based periods do not line up, so saved periods cannot be moved from one kind to the other.
+    const incompatiblePeriods = existingPeriods.filter(p => !getFiscalPeriod(draft, p));
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-2xl transform transition-all duration-300 scale-95 opacity-0 animate-fade-in-scale flex flex-col" style={{ maxHeight: '90vh' }} onClick={e => e.stopPropagation()}>
+                <div className="p-5 border-b dark:border-slate-700">
+                    <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <BookOpenIcon className="w-6 h-6 text-indigo-500" />
+                        Fiscal Calendar
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">Sets the period boundaries and labels used when creating periods, in the period selector, for export dates and in every report.</p>
+                </div>
+
+                <div className="p-5 overflow-y-auto flex-grow space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Periods</label>
+                            <select value={draft.kind} onChange={e => update({ kind: e.target.value as FiscalCalendarKind })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                <option value="monthly">Calendar months</option>
+                                <option value="4-4-5">4-4-5 weeks</option>
+                                <option value="4-5-4">4-5-4 weeks</option>
+                                <option value="5-4-4">5-4-4 weeks</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Fiscal year starts in</label>
+                            <select value={draft.startMonth} onChange={e => update({ startMonth: parseInt(e.target.value) })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                {MONTHS.map((month, i) => <option key={month} value={i + 1}>{month}</option>)}
+                            </select>
+                        </div>
+                        {draft.kind !== 'monthly' && (
+                            <div>
+                                <label className="block text-xs font-medium text-slate-500 mb-1">Weeks start on</label>
+                                <select value={draft.weekStartsOn} onChange={e => update({ weekStartsOn: parseInt(e.target.value) })} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                    {WEEKDAYS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+                                </select>
+                            </div>
+                        )}
+                    </div>
+                    {draft.kind !== 'monthly' && <p className="text-xs text-slate-500">Each year starts on the {WEEKDAYS[draft.weekStartsOn]} nearest to 1 {MONTHS[draft.startMonth - 1]}. In a 53-week year the extra week goes into the last period.</p>}
+
+                    <div>
+                        <h4 className="font-semibold mb-2">FY{previewPeriods[0].fiscalYear}</h4>
+                        <table className="w-full text-xs">
+                            <tbody>
+                                {previewPeriods.map(p => (
+                                    <tr key={p.key} className="border-b dark:border-slate-700">
+                                        <td className="p-1.5 font-medium">{p.label}</td>
+                                        <td className="p-1.5 text-slate-500">{p.startDate} to {p.endDate}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {incompatiblePeriods.length > 0 && (
+                        <p className="text-xs text-red-600">{incompatiblePeriods.length} saved period{incompatiblePeriods.length === 1 ? '' : 's'} ({incompatiblePeriods.slice(0, 3).join(', ')}{incompatiblePeriods.length > 3 ? ', …' : ''}) do not fit this calendar. Saved periods cannot be converted between month-based and week-based calendars, so this calendar can only be chosen while none of them are saved.</p>
+                    )}
+                </div>
+
+                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-end items-center rounded-b-lg border-t dark:border-slate-700 gap-3">
+                    <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 transition-colors px-4 py-2 rounded-md hover:bg-slate-200 dark:text-slate-300 dark:hover:text-slate-100 dark:hover:bg-slate-700">Cancel</button>
+                    <button onClick={() => onSave(draft)} disabled={incompatiblePeriods.length > 0} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed">Save Calendar</button>
+                </div>
+                <style>{`@keyframes fade-in-scale { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } } .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }`}</style>
+            </div>
+        </div>
+    );
+};
+
+export default FiscalCalendarModal;
@@ -0,0 +1,128 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Account, JournalEntry, ReconciledTransaction, Session } from '../types';
+import { buildAccountLedger } from '../services/ledger';
+import { getOpeningBalance } from '../services/trialBalance';
+import { getAccountTree } from '../services/accountHierarchy';
+import { ArrowsPointingOutIcon, BookOpenIcon } from './icons';
+import { currencyFormatter } from '../utils';
+
+/** Shows a debit-positive balance the way a ledger prints it, e.g. "1,200.00 Dr". */
+export const formatLedgerBalance = (balance: number) => {
+    if (Math.abs(balance) < 0.005) return '0.00';
+    return `${currencyFormatter(Math.abs(balance))} ${balance > 0 ? 'Dr' : 'Cr'}`;
+};
+
+const GeneralLedgerView = ({ accounts, journalEntries, reconciledTransactions, sessions, activePeriod, onOpenJournal, onOpenBankTransaction }: {
+    accounts: Account[];
+    journalEntries: JournalEntry[];
+    reconciledTransactions: ReconciledTransaction[];
+    sessions: Session[]; // Saved periods, with the active period's unsaved changes applied
+    activePeriod: string;
+    onOpenJournal: (journalId: string) => void;
+    onOpenBankTransaction: (journalId: string) => void;
+}) => {
+    const accountTree = useMemo(() => getAccountTree([...accounts].sort((a, b) => a.code.localeCompare(b.code))), [accounts]);
+    const sortedAccounts = useMemo(() => accountTree.map(item => item.account), [accountTree]);
+    const [accountId, setAccountId] = useState(sortedAccounts[0]?.id || '');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+
+    useEffect(() => {
+        if (!accounts.some(a => a.id === accountId)) setAccountId(sortedAccounts[0]?.id || '');
+    }, [accounts, accountId, sortedAccounts]);
+
+    const account = accounts.find(a => a.id === accountId);
+    const accountMap = useMemo(() => new Map(accounts.map(a => [a.id, a])), [accounts]);
+    const reconciledJournalIds = useMemo(() => new Set(reconciledTransactions.map(rt => rt.journalEntryId)), [reconciledTransactions]);
+
+    const ledger = useMemo(() => {
+        if (!account) return null;
+        const broughtForward = getOpeningBalance(sessions, accounts, activePeriod, account.code);
+        return buildAccountLedger(account, journalEntries, broughtForward, { from: fromDate || undefined, to: toDate || undefined });
+    }, [account, accounts, journalEntries, sessions, activePeriod, fromDate, toDate]);
+
+    const contraAccountNames = (entry: JournalEntry) => {
+        const names = entry.lines
+            .filter(line => line.accountId !== accountId)
+            .map(line => accountMap.get(line.accountId)?.name || 'Unknown');
+        return [...new Set(names)].join(', ') || '—';
+    };
+
+    return (
+        <div className="p-4">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <h3 className="font-semibold text-lg flex items-center gap-2"><BookOpenIcon className="w-5 h-5 text-indigo-500" /> General Ledger</h3>
+                <div className="flex flex-wrap gap-2 items-center text-sm">
+                    <select value={accountId} onChange={e => setAccountId(e.target.value)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600 max-w-xs">
+                        {accountTree.map(({ account: a, depth }) => <option key={a.id} value={a.id}>{'\u00A0\u00A0'.repeat(depth)}{a.code} - {a.name}</option>)}
+                    </select>
+                    <label className="text-xs text-slate-500">From</label>
+                    <input type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                    <label className="text-xs text-slate-500">To</label>
+                    <input type="date" value={toDate} onChange={e => setToDate(e.target.value)} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600" />
+                    {(fromDate || toDate) && <button onClick={() => { setFromDate(''); setToDate(''); }} className="text-xs text-indigo-600 hover:underline">Clear dates</button>}
+                </div>
+            </div>
+
+            {!account || !ledger ? (
+                <p className="text-center p-8 text-slate-500">Add an account to the chart of accounts to see its ledger.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-100 dark:bg-slate-700">
+                            <tr>
+                                <th className="p-2 text-left font-semibold">Date</th>
+                                <th className="p-2 text-left font-semibold w-1/3">Narration</th>
+                                <th className="p-2 text-left font-semibold">Contra Account</th>
+                                <th className="p-2 text-right font-semibold">Debit</th>
+                                <th className="p-2 text-right font-semibold">Credit</th>
+                                <th className="p-2 text-right font-semibold">Balance</th>
+                                <th className="p-2 text-center font-semibold">Links</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            <tr className="border-b dark:border-slate-700 bg-slate-50 dark:bg-slate-900/40 italic">
+                                <td className="p-2 text-xs">{fromDate || ''}</td>
+                                <td className="p-2" colSpan={4}>Opening balance{!fromDate && ' (brought forward from earlier periods)'}</td>
+                                <td className="p-2 text-right font-mono">{formatLedgerBalance(ledger.openingBalance)}</td>
+                                <td></td>
+                            </tr>
+                            {ledger.lines.map(({ entry, line, balance }) => (
+                                <tr key={line.id} className="border-b dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800/50">
+                                    <td className="p-2 text-xs">{entry.date}</td>
+                                    <td className="p-2">
+                                        <button onClick={() => onOpenJournal(entry.id)} title="Show in Journal Entries" className="text-left hover:text-indigo-600 hover:underline">{line.description || entry.description}</button>
+                                        {entry.refNo && <span className="block text-xs text-slate-500 dark:text-slate-400 mt-1">Ref: {entry.refNo}</span>}
+                                    </td>
+                                    <td className="p-2 text-xs">{contraAccountNames(entry)}</td>
+                                    <td className="p-2 text-right font-mono">{line.debit ? currencyFormatter(line.debit) : ''}</td>
+                                    <td className="p-2 text-right font-mono">{line.credit ? currencyFormatter(line.credit) : ''}</td>
+                                    <td className="p-2 text-right font-mono">{formatLedgerBalance(balance)}</td>
+                                    <td className="p-2 text-center">
+                                        {reconciledJournalIds.has(entry.id) && (
+                                            <button onClick={() => onOpenBankTransaction(entry.id)} title="Go to Bank Transaction" className="p-1 rounded-md text-slate-500 hover:bg-slate-200 hover:text-indigo-600 dark:hover:bg-slate-700"><ArrowsPointingOutIcon className="w-4 h-4"/></button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                            {ledger.lines.length === 0 && (
+                                <tr><td colSpan={7} className="text-center p-6 text-slate-500">No postings to this account{fromDate || toDate ? ' in the selected dates' : ' in this period'}.</td></tr>
+                            )}
+                        </tbody>
+                        <tfoot className="bg-slate-100 dark:bg-slate-700 font-semibold">
+                            <tr>
+                                <td className="p-2" colSpan={3}>Closing balance</td>
+                                <td className="p-2 text-right font-mono">{currencyFormatter(ledger.totalDebit)}</td>
+                                <td className="p-2 text-right font-mono">{currencyFormatter(ledger.totalCredit)}</td>
+                                <td className="p-2 text-right font-mono">{formatLedgerBalance(ledger.closingBalance)}</td>
+                                <td></td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GeneralLedgerView;
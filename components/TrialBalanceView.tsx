@@ -0,0 +1,122 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Account, Session } from '../types';
+import { buildTrialBalance, trialBalanceToSheetRows } from '../services/trialBalance';
+import { FiscalCalendar, getPeriodLabel } from '../services/fiscalCalendar';
+import { formatLedgerBalance } from './GeneralLedgerView';
+import { CheckIcon, ClipboardListIcon, DownloadIcon, XIcon } from './icons';
+import { currencyFormatter } from '../utils';
+
+declare var XLSX: any;
+
+const TrialBalanceView = ({ sessions, accounts, activePeriod, calendar }: {
+    sessions: Session[]; // Saved periods, with the active period's unsaved changes applied
+    accounts: Account[];
+    activePeriod: string;
+    calendar: FiscalCalendar;
+}) => {
+    const periodOptions = useMemo(() => [...new Set(sessions.map(s => s.period))].sort(), [sessions]);
+    const [fromPeriod, setFromPeriod] = useState(activePeriod);
+    const [toPeriod, setToPeriod] = useState(activePeriod);
+
+    useEffect(() => {
+        setFromPeriod(activePeriod);
+        setToPeriod(activePeriod);
+    }, [activePeriod]);
+
+    const trialBalance = useMemo(() => buildTrialBalance(sessions, accounts, fromPeriod, toPeriod), [sessions, accounts, fromPeriod, toPeriod]);
+    const rangeLabel = fromPeriod === toPeriod ? getPeriodLabel(calendar, fromPeriod) : `${getPeriodLabel(calendar, fromPeriod)} to ${getPeriodLabel(calendar, toPeriod)}`;
+
+    const handleExport = () => {
+        const worksheet = XLSX.utils.json_to_sheet(trialBalanceToSheetRows(trialBalance));
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, worksheet, "Trial Balance");
+        XLSX.writeFile(workbook, `TrialBalance_${fromPeriod}_to_${toPeriod}.xlsx`);
+    };
+
+    return (
+        <div className="p-4">
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <h3 className="font-semibold text-lg flex items-center gap-2"><ClipboardListIcon className="w-5 h-5 text-indigo-500" /> Trial Balance <span className="text-sm font-normal text-slate-500">{rangeLabel}</span></h3>
+                <div className="flex flex-wrap gap-2 items-center text-sm">
+                    <label className="text-xs text-slate-500">From</label>
+                    <select value={fromPeriod} onChange={e => { setFromPeriod(e.target.value); if (e.target.value > toPeriod) setToPeriod(e.target.value); }} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                        {periodOptions.map(p => <option key={p} value={p}>{getPeriodLabel(calendar, p)}</option>)}
+                    </select>
+                    <label className="text-xs text-slate-500">To</label>
+                    <select value={toPeriod} onChange={e => { setToPeriod(e.target.value); if (e.target.value < fromPeriod) setFromPeriod(e.target.value); }} className="p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                        {periodOptions.map(p => <option key={p} value={p}>{getPeriodLabel(calendar, p)}</option>)}
+                    </select>
+                    <button onClick={handleExport} disabled={trialBalance.groups.length === 0} className="text-sm bg-white dark:bg-slate-700 border border-slate-300 dark:border-slate-600 px-3 py-1 rounded-md hover:bg-slate-50 dark:hover:bg-slate-600 flex items-center gap-1.5 disabled:opacity-50"><DownloadIcon className="w-4 h-4"/> Export XLSX</button>
+                </div>
+            </div>
+
+            {trialBalance.groups.length === 0 ? (
+                <p className="text-center p-8 text-slate-500">No journal entries have been posted in {rangeLabel}.</p>
+            ) : (
+                <>
+                    <div className={`mb-4 p-3 rounded-md text-sm flex items-center gap-2 ${trialBalance.isBalanced ? 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-300' : 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-300'}`}>
+                        {trialBalance.isBalanced ? <CheckIcon className="w-5 h-5" /> : <XIcon className="w-5 h-5" />}
+                        {trialBalance.isBalanced
+                            ? 'Total debits equal total credits.'
+                            : `Out of balance: debits ${currencyFormatter(trialBalance.closingDebit)} vs credits ${currencyFormatter(trialBalance.closingCredit)} (difference ${currencyFormatter(Math.abs(trialBalance.closingDebit - trialBalance.closingCredit))}).`}
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-100 dark:bg-slate-700">
+                                <tr>
+                                    <th className="p-2 text-left font-semibold">Code</th>
+                                    <th className="p-2 text-left font-semibold">Account</th>
+                                    <th className="p-2 text-right font-semibold">Opening</th>
+                                    <th className="p-2 text-right font-semibold">Debit</th>
+                                    <th className="p-2 text-right font-semibold">Credit</th>
+                                    <th className="p-2 text-right font-semibold">Closing Debit</th>
+                                    <th className="p-2 text-right font-semibold">Closing Credit</th>
+                                </tr>
+                            </thead>
+                            {trialBalance.groups.map(group => (
+                                <tbody key={group.type}>
+                                    <tr className="bg-slate-50 dark:bg-slate-900/40">
+                                        <td colSpan={7} className="p-2 font-semibold text-xs uppercase tracking-wide text-slate-500">{group.type}</td>
+                                    </tr>
+                                    {group.rows.map(row => {
+                                        // Parent accounts show the totals of their sub-accounts, which are indented below them.
+                                        const amounts = row.rolledUp || row;
+                                        return (
+                                            <tr key={row.code} className={`border-b dark:border-slate-700 ${row.rolledUp ? 'font-medium bg-slate-50/50 dark:bg-slate-900/20' : ''}`}>
+                                                <td className="p-2 font-mono text-xs">{row.code}</td>
+                                                <td className="p-2" style={{ paddingLeft: `${0.5 + row.depth * 1.25}rem` }}>{row.name}{row.rolledUp && <span className="ml-2 text-xs font-normal text-slate-400">incl. sub-accounts</span>}</td>
+                                                <td className="p-2 text-right font-mono text-slate-500">{formatLedgerBalance(amounts.openingBalance)}</td>
+                                                <td className="p-2 text-right font-mono">{amounts.debit ? currencyFormatter(amounts.debit) : ''}</td>
+                                                <td className="p-2 text-right font-mono">{amounts.credit ? currencyFormatter(amounts.credit) : ''}</td>
+                                                <td className="p-2 text-right font-mono">{amounts.closingBalance > 0 ? currencyFormatter(amounts.closingBalance) : ''}</td>
+                                                <td className="p-2 text-right font-mono">{amounts.closingBalance < 0 ? currencyFormatter(-amounts.closingBalance) : ''}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                    <tr className="border-b-2 dark:border-slate-600 font-semibold">
+                                        <td></td>
+                                        <td className="p-2 text-xs">Total {group.type}</td>
+                                        <td colSpan={3}></td>
+                                        <td className="p-2 text-right font-mono">{currencyFormatter(group.closingDebit)}</td>
+                                        <td className="p-2 text-right font-mono">{currencyFormatter(group.closingCredit)}</td>
+                                    </tr>
+                                </tbody>
+                            ))}
+                            <tfoot className="bg-slate-100 dark:bg-slate-700 font-semibold">
+                                <tr>
+                                    <td className="p-2" colSpan={3}>Total</td>
+                                    <td className="p-2 text-right font-mono">{currencyFormatter(trialBalance.totalDebit)}</td>
+                                    <td className="p-2 text-right font-mono">{currencyFormatter(trialBalance.totalCredit)}</td>
+                                    <td className="p-2 text-right font-mono">{currencyFormatter(trialBalance.closingDebit)}</td>
+                                    <td className="p-2 text-right font-mono">{currencyFormatter(trialBalance.closingCredit)}</td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TrialBalanceView;
@@ -0,0 +1,140 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Account, Session } from '../types';
+import { buildYearEndClosingEntry, getYearPeriods, isYearClosed, RETAINED_EARNINGS_CODE, YearEndClosePreview } from '../services/yearEndClose';
+import { isPeriodClosed } from '../services/periodClose';
+import { FiscalCalendar, getFiscalPeriod, getPeriodLabel } from '../services/fiscalCalendar';
+import { BookOpenIcon } from './icons';
+import { currencyFormatter, getErrorMessage } from '../utils';
+
+const YearEndCloseModal = ({ isOpen, onClose, sessions, accounts, activePeriod, calendar, onPost, onReopenYear }: {
+    isOpen: boolean;
+    onClose: () => void;
+    sessions: Session[]; // Saved periods, with the active period's unsaved changes applied
+    accounts: Account[];
+    activePeriod: string;
+    calendar: FiscalCalendar;
+    onPost: (fiscalYear: number, preview: YearEndClosePreview) => void;
+    onReopenYear: (fiscalYear: number) => void;
+}) => {
+    const activeFiscalYear = getFiscalPeriod(calendar, activePeriod)?.fiscalYear || new Date().getFullYear();
+    const years = useMemo(() => [...new Set(sessions.map(s => getFiscalPeriod(calendar, s.period)?.fiscalYear).filter((y): y is number => !!y))].sort((a, b) => b - a), [sessions, calendar]);
+    const [year, setYear] = useState(activeFiscalYear);
+    const [retainedEarningsCode, setRetainedEarningsCode] = useState(RETAINED_EARNINGS_CODE);
+
+    useEffect(() => {
+        if (isOpen) setYear(activeFiscalYear);
+    }, [isOpen, activeFiscalYear]);
+
+    const { end } = getYearPeriods(calendar, year);
+    const endLabel = getPeriodLabel(calendar, end);
+    const yearEndSession = sessions.find(s => s.period === end);
+    const equityAccounts = accounts.filter(a => a.type === 'Equity').sort((a, b) => a.code.localeCompare(b.code));
+    const closed = isYearClosed(sessions, calendar, year);
+    const periodLocked = isPeriodClosed(yearEndSession);
+
+    const { preview, error } = useMemo(() => {
+        if (closed) return { preview: null, error: '' };
+        try {
+            return { preview: buildYearEndClosingEntry(sessions, accounts, calendar, year, retainedEarningsCode), error: '' };
+        } catch (e) {
+            return { preview: null, error: getErrorMessage(e) };
+        }
+    }, [sessions, accounts, calendar, year, retainedEarningsCode, closed]);
+
+    if (!isOpen) return null;
+
+    const accountLabel = (accountId: string) => {
+        const account = preview?.accounts.find(a => a.id === accountId);
+        return account ? `${account.code} - ${account.name}` : 'Unknown';
+    };
+    const totalDebit = preview?.entry?.lines.reduce((sum, line) => sum + line.debit, 0) || 0;
+    const totalCredit = preview?.entry?.lines.reduce((sum, line) => sum + line.credit, 0) || 0;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl w-full max-w-3xl transform transition-all duration-300 scale-95 opacity-0 animate-fade-in-scale flex flex-col" style={{ maxHeight: '90vh' }} onClick={e => e.stopPropagation()}>
+                <div className="p-5 border-b dark:border-slate-700">
+                    <h3 className="text-xl font-semibold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <BookOpenIcon className="w-6 h-6 text-indigo-500" />
+                        Year-End Close
+                    </h3>
+                    <p className="text-xs text-slate-500 mt-1">Clears every revenue and expense balance to retained earnings with one journal entry in {endLabel}. Balance sheet accounts carry forward unchanged.</p>
+                </div>
+
+                <div className="p-5 overflow-y-auto flex-grow space-y-6">
+                    <div className="grid grid-cols-2 gap-4 text-sm">
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Year</label>
+                            <select value={year} onChange={e => setYear(Number(e.target.value))} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                {years.map(y => <option key={y} value={y}>FY{y}{isYearClosed(sessions, calendar, y) ? ' (Closed)' : ''}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-medium text-slate-500 mb-1">Retained earnings account</label>
+                            <select value={retainedEarningsCode} onChange={e => setRetainedEarningsCode(e.target.value)} disabled={closed} className="w-full p-1.5 border rounded-md dark:bg-slate-700 dark:border-slate-600">
+                                {!equityAccounts.some(a => a.code === RETAINED_EARNINGS_CODE) && <option value={RETAINED_EARNINGS_CODE}>{RETAINED_EARNINGS_CODE} - Retained Earnings (new)</option>}
+                                {equityAccounts.map(a => <option key={a.id} value={a.code}>{a.code} - {a.name}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    {closed ? (
+                        <div className="p-4 rounded-md bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-300 text-sm">
+                            FY{year} was closed on {new Date(yearEndSession!.yearEndClosedAt!).toLocaleString()}. Its closing entry is in the journals of {endLabel}.
+                        </div>
+                    ) : error ? (
+                        <p className="text-center text-sm text-red-600 p-4">{error}</p>
+                    ) : !preview?.entry ? (
+                        <p className="text-center text-sm text-slate-500 p-4">No revenue or expense account has a balance in FY{year}.</p>
+                    ) : (
+                        <div>
+                            <div className="flex justify-between items-baseline mb-2">
+                                <h4 className="font-semibold">{preview.entry.description}</h4>
+                                <span className="text-xs text-slate-500">{preview.entry.date} · Ref {preview.entry.refNo}</span>
+                            </div>
+                            <table className="w-full text-sm">
+                                <thead className="bg-slate-100 dark:bg-slate-700">
+                                    <tr>
+                                        <th className="p-2 text-left font-semibold">Account</th>
+                                        <th className="p-2 text-right font-semibold">Debit</th>
+                                        <th className="p-2 text-right font-semibold">Credit</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {preview.entry.lines.map(line => (
+                                        <tr key={line.id} className="border-b dark:border-slate-700">
+                                            <td className="p-2">{accountLabel(line.accountId)}</td>
+                                            <td className="p-2 text-right font-mono">{line.debit ? currencyFormatter(line.debit) : ''}</td>
+                                            <td className="p-2 text-right font-mono">{line.credit ? currencyFormatter(line.credit) : ''}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                                <tfoot className="font-semibold">
+                                    <tr>
+                                        <td className="p-2">{preview.netProfit >= 0 ? 'Net profit' : 'Net loss'} {currencyFormatter(Math.abs(preview.netProfit))}</td>
+                                        <td className="p-2 text-right font-mono">{currencyFormatter(totalDebit)}</td>
+                                        <td className="p-2 text-right font-mono">{currencyFormatter(totalCredit)}</td>
+                                    </tr>
+                                </tfoot>
+                            </table>
+                        </div>
+                    )}
+
+                    {periodLocked && <p className="text-xs text-amber-600">{endLabel} is closed. Reopen it from Manage Periods first, then close it again afterwards so the new balances carry forward.</p>}
+                </div>
+
+                <div className="bg-slate-50 dark:bg-slate-900/50 px-6 py-4 flex justify-end items-center rounded-b-lg border-t dark:border-slate-700 gap-3">
+                    <button onClick={onClose} className="text-sm font-semibold text-slate-600 hover:text-slate-800 transition-colors px-4 py-2 rounded-md hover:bg-slate-200 dark:text-slate-300 dark:hover:text-slate-100 dark:hover:bg-slate-700">Cancel</button>
+                    {closed ? (
+                        <button onClick={() => onReopenYear(year)} disabled={periodLocked} className="bg-amber-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-amber-700 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed">Reopen Year</button>
+                    ) : (
+                        <button onClick={() => preview && onPost(year, preview)} disabled={!preview || periodLocked} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg shadow-sm hover:bg-indigo-700 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed">Post Closing Entry</button>
+                    )}
+                </div>
+                <style>{`@keyframes fade-in-scale { from { opacity: 0; transform: scale(0.95); } to { opacity: 1; transform: scale(1); } } .animate-fade-in-scale { animation: fade-in-scale 0.2s ease-out forwards; }`}</style>
+            </div>
+        </div>
+    );
+};
+
+export default YearEndCloseModal;
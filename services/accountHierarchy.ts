@@ -0,0 +1,110 @@
+import { Account } from '../types';
+
+export interface AccountTreeItem {
+    account: Account;
+    depth: number;
+    hasChildren: boolean;
+}
+
+/** Header accounts only group their sub-accounts; journal lines cannot be posted to them. */
+export const isPostingAccount = (account: Account | undefined) => !!account && !account.isHeader;
+
+const childrenByParent = <T>(items: T[], parentOf: (item: T) => string | undefined, keyOf: (item: T) => string) => {
+    const keys = new Set(items.map(keyOf));
+    const children = new Map<string | undefined, T[]>();
+    items.forEach(item => {
+        const parent = parentOf(item);
+        // Items whose parent is missing (or is themselves) are shown at the top level.
+        const key = parent && parent !== keyOf(item) && keys.has(parent) ? parent : undefined;
+        children.set(key, [...(children.get(key) || []), item]);
+    });
+    return children;
+};
+
+/**
+ * Orders items parent first, each followed by its sub-items, keeping the given order among siblings. Items caught
+ * in a parent cycle are added at the top level so none are lost.
+ */
+const orderAsTree = <T>(items: T[], parentOf: (item: T) => string | undefined, keyOf: (item: T) => string) => {
+    const children = childrenByParent(items, parentOf, keyOf);
+    const ordered: { item: T; depth: number; hasChildren: boolean }[] = [];
+    const visited = new Set<string>();
+    const visit = (item: T, depth: number) => {
+        if (visited.has(keyOf(item))) return;
+        visited.add(keyOf(item));
+        const itemChildren = children.get(keyOf(item)) || [];
+        ordered.push({ item, depth, hasChildren: itemChildren.length > 0 });
+        itemChildren.forEach(child => visit(child, depth + 1));
+    };
+    (children.get(undefined) || []).forEach(item => visit(item, 0));
+    items.forEach(item => visit(item, 0));
+    return ordered;
+};
+
+/** The chart of accounts in tree order; siblings keep their position in the chart. */
+export const getAccountTree = (accounts: Account[]): AccountTreeItem[] =>
+    orderAsTree(accounts, a => a.parentId, a => a.id).map(({ item, depth, hasChildren }) => ({ account: item, depth, hasChildren }));
+
+/** Ids of every sub-account below an account, at any depth. */
+export const getDescendantIds = (accounts: Account[], accountId: string): Set<string> => {
+    const descendants = new Set<string>();
+    const queue = [accountId];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        accounts.filter(a => a.parentId === id && !descendants.has(a.id) && a.id !== accountId).forEach(child => {
+            descendants.add(child.id);
+            queue.push(child.id);
+        });
+    }
+    return descendants;
+};
+
+/** Moves an account one place up or down among its siblings. Sub-accounts move with it in the tree. */
+export const moveAccount = (accounts: Account[], accountId: string, direction: -1 | 1): Account[] => {
+    const account = accounts.find(a => a.id === accountId);
+    if (!account) return accounts;
+    const siblings = accounts.filter(a => (a.parentId || '') === (account.parentId || ''));
+    const target = siblings[siblings.indexOf(account) + direction];
+    if (!target) return accounts;
+    const next = [...accounts];
+    const from = next.indexOf(account);
+    const to = next.indexOf(target);
+    [next[from], next[to]] = [next[to], next[from]];
+    return next;
+};
+
+/**
+ * Checks the parent links of a chart: the parent must exist, must not be the account itself or one of its
+ * sub-accounts, and must be of the same type. Returns an error message per account id.
+ */
+export const validateAccountHierarchy = (accounts: Account[]): Record<string, string> => {
+    const errors: Record<string, string> = {};
+    accounts.forEach(account => {
+        if (!account.parentId) return;
+        const parent = accounts.find(a => a.id === account.parentId);
+        if (!parent) errors[account.id] = 'Parent account no longer exists.';
+        else if (parent.id === account.id || getDescendantIds(accounts, account.id).has(parent.id)) errors[account.id] = 'An account cannot sit below itself or its own sub-accounts.';
+        else if (parent.type !== account.type) errors[account.id] = `Parent must be of the same type (${parent.type}).`;
+    });
+    return errors;
+};
+
+/** Journal lines in an entry that point at header accounts, as "code - name" labels. */
+export const findHeaderPostings = (accounts: Account[], lines: { accountId: string }[]) =>
+    [...new Set(lines.map(line => accounts.find(a => a.id === line.accountId)).filter(a => a?.isHeader).map(a => `${a!.code} - ${a!.name}`))];
+
+/**
+ * Rolls amounts up a code-based hierarchy, as used by reports that match accounts across periods by code. Rows come
+ * back in tree order with their depth; `rolledUp` holds each row's own amounts plus those of all its sub-rows.
+ */
+export const rollUpByCode = <T extends { code: string; parentCode?: string }>(rows: T[], amountsOf: (row: T) => number[]) => {
+    const ordered = orderAsTree(rows, row => row.parentCode, row => row.code);
+    const rolledUp = new Map<string, number[]>();
+    // Children follow their parent, so walking backwards totals every sub-tree before its parent is reached.
+    [...ordered].reverse().forEach(({ item }) => {
+        const own = amountsOf(item);
+        const children = ordered.filter(o => o.item.parentCode === item.code && o.item.code !== item.code && rolledUp.has(o.item.code));
+        rolledUp.set(item.code, children.reduce((sum, child) => sum.map((value, i) => value + rolledUp.get(child.item.code)![i]), own));
+    });
+    return ordered.map(({ item, depth, hasChildren }) => ({ row: item, depth, hasChildren, rolledUp: rolledUp.get(item.code)!.map(value => Math.round(value * 100) / 100 || 0) }));
+};
@@ -0,0 +1,120 @@
+import { Account, Session, Transaction } from '../types';
+import { isPostingAccount } from './accountHierarchy';
+
+/**
+ * Suggests the contra account for a statement row from how similar rows were reconciled before, entirely on this
+ * device. Descriptions are reduced to payee tokens, and each past reconciliation that shares enough tokens with the
+ * row votes for the account it was posted to.
+ */
+
+// Suggestions at or above this confidence can be accepted in bulk.
+export const HIGH_CONFIDENCE = 0.8;
+
+// Share of tokens (Jaccard similarity) a past row needs with the new one to count as similar.
+const MIN_SIMILARITY = 0.34;
+
+// Words that say how a payment was made rather than who it was to.
+const NOISE_WORDS = new Set([
+    'pos', 'atm', 'web', 'nip', 'trf', 'tfr', 'transfer', 'trx', 'txn', 'ref', 'payment', 'pymt', 'pmt', 'purchase', 'debit', 'credit', 'card', 'visa', 'mastercard',
+    'dd', 'so', 'fee', 'from', 'to', 'for', 'the', 'and', 'of', 'via', 'on', 'at', 'by', 'ltd', 'limited', 'plc', 'inc', 'llc', 'co', 'ng', 'lagos',
+    'jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec',
+]);
+
+/** Lower-cases a description and keeps the words that identify the payee, dropping numbers, references and noise. */
+export const normalizeDescription = (description: string): string[] => [...new Set(
+    description
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .split(' ')
+        .filter(token => token.length >= 2 && !/\d/.test(token) && !NOISE_WORDS.has(token))
+)];
+
+interface TrainingGroup {
+    tokens: string[];
+    direction: 'debit' | 'credit';
+    description: string; // One of the past descriptions, shown as the reason for a suggestion
+    accountCounts: Map<string, number>;
+}
+
+export interface SuggestionModel {
+    groups: TrainingGroup[];
+    exampleCount: number;
+}
+
+export interface AccountSuggestion {
+    accountId: string;
+    confidence: number; // 0-1
+    basedOn: number; // Similar past rows posted to the account
+    example: string; // A similar past description
+}
+
+/**
+ * Learns from the reconciliations of every given period. Each reconciled row counts for the account its journal
+ * posted the other side to (the largest line when the journal was split). Rows still sitting in the suspense
+ * account, and accounts that are no longer in the chart, teach nothing.
+ */
+export const trainSuggestionModel = (sessions: Session[], accounts: Account[], suspenseAccountId: string | undefined): SuggestionModel => {
+    const groups = new Map<string, TrainingGroup>();
+    let exampleCount = 0;
+    sessions.forEach(session => {
+        const journalsById = new Map(session.journalEntries.map(je => [je.id, je]));
+        (session.reconciledTransactions || []).forEach(rt => {
+            const journal = journalsById.get(rt.journalEntryId);
+            if (!journal || journal.isOpeningBalance || journal.isYearEndClose) return;
+            const contra = journal.lines
+                .filter(line => line.accountId !== rt.bankAccountId)
+                .sort((a, b) => (b.debit || 0) + (b.credit || 0) - (a.debit || 0) - (a.credit || 0))[0];
+            if (!contra || contra.accountId === suspenseAccountId || !isPostingAccount(accounts.find(a => a.id === contra.accountId))) return;
+            const tokens = normalizeDescription(rt.originalDescription);
+            if (tokens.length === 0) return;
+
+            const key = `${rt.originalType}|${[...tokens].sort().join(' ')}`;
+            const group = groups.get(key) || { tokens, direction: rt.originalType, description: rt.originalDescription, accountCounts: new Map<string, number>() };
+            group.accountCounts.set(contra.accountId, (group.accountCounts.get(contra.accountId) || 0) + 1);
+            groups.set(key, group);
+            exampleCount++;
+        });
+    });
+    return { groups: [...groups.values()], exampleCount };
+};
+
+const similarity = (a: string[], b: string[]) => {
+    const shared = a.filter(token => b.includes(token)).length;
+    return shared / (a.length + b.length - shared);
+};
+
+/**
+ * The most likely contra account for a row, or null when no past row is similar enough. Confidence is the share of
+ * the similar rows' votes that agree, times how closely the best of them matches, times how much history there is
+ * (one past row gives at most 50%, two 75%, three 87.5%). Rows in the other direction count half, and the row's own
+ * bank account is never suggested.
+ */
+export const suggestAccount = (model: SuggestionModel, tx: Transaction, bankAccountId: string): AccountSuggestion | null => {
+    const tokens = normalizeDescription(tx.description);
+    if (tokens.length === 0) return null;
+
+    const votes = new Map<string, { weight: number, count: number, bestSimilarity: number, example: string }>();
+    let totalWeight = 0;
+    model.groups.forEach(group => {
+        const score = similarity(tokens, group.tokens) * (group.direction === tx.type ? 1 : 0.5);
+        if (score < MIN_SIMILARITY) return;
+        group.accountCounts.forEach((count, accountId) => {
+            if (accountId === bankAccountId) return;
+            const vote = votes.get(accountId) || { weight: 0, count: 0, bestSimilarity: 0, example: group.description };
+            vote.weight += score * count;
+            vote.count += count;
+            if (score > vote.bestSimilarity) {
+                vote.bestSimilarity = score;
+                vote.example = group.description;
+            }
+            votes.set(accountId, vote);
+            totalWeight += score * count;
+        });
+    });
+
+    const [best] = [...votes.entries()].sort((a, b) => b[1].weight - a[1].weight);
+    if (!best) return null;
+    const [accountId, vote] = best;
+    const confidence = (vote.weight / totalWeight) * vote.bestSimilarity * (1 - Math.pow(0.5, vote.count));
+    return { accountId, confidence: Math.round(confidence * 100) / 100, basedOn: vote.count, example: vote.example };
+};
@@ -0,0 +1,76 @@
+import { Transaction } from '../types';
+import { round2 } from '../utils';
+
+const TOLERANCE = 0.005;
+
+export interface BalanceCheckResult {
+    status: 'balanced' | 'difference' | 'missing-balances';
+    openingBalance?: number;
+    closingBalance?: number;
+    totalCredits: number;
+    totalDebits: number;
+    expectedClosing?: number;
+    difference?: number; // Statement closing balance minus expected closing balance
+    firstBreak?: { transactionId: string, statementBalance: number, expectedBalance: number };
+}
+
+const netMovement = (tx: Transaction) => (tx.type === 'credit' ? tx.amount : -tx.amount);
+
+/** Statements are often listed newest first; balances must be walked oldest first. */
+export const toChronologicalOrder = (transactions: Transaction[]) => {
+    if (transactions.length > 1 && transactions[0].date > transactions[transactions.length - 1].date) {
+        return [...transactions].reverse();
+    }
+    return transactions;
+};
+
+/** Derives opening and closing balances from printed running balances when the file does not state them. */
+export const inferStatementBalances = (transactions: Transaction[]) => {
+    const ordered = toChronologicalOrder(transactions);
+    const first = ordered.find(tx => tx.balance !== undefined);
+    const last = [...ordered].reverse().find(tx => tx.balance !== undefined);
+    return {
+        // Only the very first row's balance tells us the opening balance reliably.
+        openingBalance: first && first === ordered[0] ? round2(first.balance! - netMovement(first)) : undefined,
+        closingBalance: last && last === ordered[ordered.length - 1] ? last.balance : undefined,
+    };
+};
+
+/**
+ * Checks that opening balance plus movements equals the closing balance, and walks the running balances to
+ * find the first row where the statement and the extracted transactions disagree.
+ */
+export const validateStatementBalances = (transactions: Transaction[], openingBalance?: number, closingBalance?: number): BalanceCheckResult => {
+    const ordered = toChronologicalOrder(transactions);
+    const totalCredits = round2(ordered.filter(tx => tx.type === 'credit').reduce((sum, tx) => sum + tx.amount, 0));
+    const totalDebits = round2(ordered.filter(tx => tx.type === 'debit').reduce((sum, tx) => sum + tx.amount, 0));
+
+    let firstBreak: BalanceCheckResult['firstBreak'];
+    if (openingBalance !== undefined) {
+        let running = openingBalance;
+        for (const tx of ordered) {
+            running = round2(running + netMovement(tx));
+            if (tx.balance !== undefined && Math.abs(tx.balance - running) > TOLERANCE) {
+                firstBreak = { transactionId: tx.id, statementBalance: tx.balance, expectedBalance: running };
+                break;
+            }
+        }
+    }
+
+    if (openingBalance === undefined || closingBalance === undefined) {
+        return { status: 'missing-balances', openingBalance, closingBalance, totalCredits, totalDebits, firstBreak };
+    }
+
+    const expectedClosing = round2(openingBalance + totalCredits - totalDebits);
+    const difference = round2(closingBalance - expectedClosing);
+    return {
+        status: Math.abs(difference) > TOLERANCE ? 'difference' : 'balanced',
+        openingBalance,
+        closingBalance,
+        totalCredits,
+        totalDebits,
+        expectedClosing,
+        difference,
+        firstBreak,
+    };
+};
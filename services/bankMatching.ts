@@ -0,0 +1,198 @@
+import { Account, JournalEntry, ReconciledTransaction, Transaction } from '../types';
+import { getReconciledAmount } from './reconciliationStatus';
+
+/**
+ * Matches unposted statement rows to bank-account lines of journals that were entered by hand, so a payment booked
+ * before the statement arrived can be reconciled instead of posted twice. Amounts must agree to the cent; the date
+ * window and references decide between candidates.
+ */
+
+export interface MatchOptions {
+    dateWindowDays: number; // Statement and book dates can be up to this many days apart
+    maxGroupSize: number; // Most rows on the larger side of a one-to-many or many-to-one match
+}
+
+// A bank-account line of a journal, in statement terms: 'debit' is money out of the bank.
+export interface BookItem {
+    journalEntryId: string;
+    lineId: string;
+    bankAccountId: string;
+    date: string;
+    description: string;
+    reference?: string;
+    amount: number;
+    type: 'debit' | 'credit';
+}
+
+export interface MatchProposal {
+    id: string;
+    kind: 'one-to-one' | 'one-to-many' | 'many-to-one'; // Statement rows to book items
+    transactions: Transaction[];
+    bookItems: BookItem[];
+    score: number; // 0-100
+    reason: string;
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+    dateWindowDays: 5,
+    maxGroupSize: 3,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Candidates and search steps per subset search, so a busy account cannot stall the page.
+const MAX_GROUP_CANDIDATES = 15;
+const MAX_SEARCH_STEPS = 5000;
+
+const dayNumber = (date: string) => Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+const cents = (amount: number) => Math.round(amount * 100);
+const referenceKey = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+/**
+ * Bank-account lines of the given journals, for the part no reconciliation covers yet. What a journal's reconciliations
+ * cover on a bank account is taken off its lines on that account in order, so a journal that settled only part of a
+ * statement row still offers the rest. Opening balances and year-end closing entries are never matched.
+ */
+export const getUnreconciledBookItems = (journalEntries: JournalEntry[], reconciledTransactions: ReconciledTransaction[], accounts: Account[]): BookItem[] => {
+    const bankAccountIds = new Set(accounts.filter(a => a.isBankAccount).map(a => a.id));
+    const reconciledCents = new Map<string, number>();
+    reconciledTransactions.forEach(rt => {
+        const key = `${rt.journalEntryId}|${rt.bankAccountId}`;
+        reconciledCents.set(key, (reconciledCents.get(key) || 0) + cents(getReconciledAmount(rt)));
+    });
+    return journalEntries
+        .filter(je => !je.isOpeningBalance && !je.isYearEndClose)
+        .flatMap(je => je.lines
+            .filter(line => bankAccountIds.has(line.accountId))
+            .map(line => {
+                const key = `${je.id}|${line.accountId}`;
+                const net = cents((line.debit || 0) - (line.credit || 0));
+                const covered = Math.min(reconciledCents.get(key) || 0, Math.abs(net));
+                reconciledCents.set(key, (reconciledCents.get(key) || 0) - covered);
+                return { line, net, remaining: Math.abs(net) - covered };
+            })
+            .filter(({ remaining }) => remaining > 0)
+            .map(({ line, net, remaining }): BookItem => ({
+                journalEntryId: je.id,
+                lineId: line.id,
+                bankAccountId: line.accountId,
+                date: je.date,
+                description: je.description,
+                reference: je.refNo,
+                amount: remaining / 100,
+                type: net > 0 ? 'credit' : 'debit', // Debiting the bank account is money in
+            })));
+};
+
+/** Whether a journal's reference appears in a row's reference or description. References under 3 characters are ignored. */
+const referencesMatch = (tx: Transaction, item: BookItem) => {
+    const bookReference = referenceKey(item.reference || '');
+    if (bookReference.length < 3) return false;
+    const txReference = referenceKey(tx.reference || '');
+    return (txReference.length >= 3 && (txReference.includes(bookReference) || bookReference.includes(txReference))) || referenceKey(tx.description).includes(bookReference);
+};
+
+const describeMatch = (kind: MatchProposal['kind'], maxDays: number, referenceMatched: boolean) => [
+    kind === 'one-to-one' ? 'Same amount' : kind === 'one-to-many' ? 'Journals add up to the bank line' : 'Bank lines add up to the journal',
+    maxDays === 0 ? 'same day' : `${maxDays} day${maxDays === 1 ? '' : 's'} apart`,
+    referenceMatched && 'reference matches',
+].filter(Boolean).join(', ');
+
+const buildProposal = (kind: MatchProposal['kind'], transactions: Transaction[], bookItems: BookItem[], options: MatchOptions): MatchProposal => {
+    const maxDays = Math.max(...transactions.flatMap(tx => bookItems.map(item => Math.abs(dayNumber(tx.date) - dayNumber(item.date)))));
+    const referenceMatched = transactions.some(tx => bookItems.some(item => referencesMatch(tx, item)));
+    const groupPenalty = kind === 'one-to-one' ? 0 : 10;
+    return {
+        id: [...transactions.map(tx => tx.id), ...bookItems.map(item => item.lineId)].join('|'),
+        kind,
+        transactions,
+        bookItems,
+        score: Math.round(50 + 30 * (1 - maxDays / (options.dateWindowDays + 1)) + (referenceMatched ? 20 : 0) - groupPenalty),
+        reason: describeMatch(kind, maxDays, referenceMatched),
+    };
+};
+
+/**
+ * The first subset of `candidates` (tried in the order given, so closer dates first) with 2 to `maxSize` members whose
+ * amounts add up to `target` exactly, or null.
+ */
+const findSubset = <T extends { amount: number }>(target: number, candidates: T[], maxSize: number): T[] | null => {
+    const goal = cents(target);
+    let steps = 0;
+    const search = (start: number, chosen: T[], sum: number): T[] | null => {
+        if (sum === goal) return chosen.length >= 2 ? chosen : null;
+        if (chosen.length === maxSize || sum > goal) return null;
+        for (let i = start; i < candidates.length && steps++ < MAX_SEARCH_STEPS; i++) {
+            const found = search(i + 1, [...chosen, candidates[i]], sum + cents(candidates[i].amount));
+            if (found) return found;
+        }
+        return null;
+    };
+    return search(0, [], 0);
+};
+
+/**
+ * Proposes matches between unposted statement rows and unreconciled book items on the same bank account and in the
+ * same direction. One-to-one pairs are taken first, best score first; the rows and items left over are then tried in
+ * groups, each side's amounts adding up to the other's. Every row and item is used at most once.
+ */
+export const proposeMatches = (transactions: Transaction[], bookItems: BookItem[], defaultBankAccountId: string, options: MatchOptions): MatchProposal[] => {
+    const usedTx = new Set<string>();
+    const usedItems = new Set<string>();
+    const proposals: MatchProposal[] = [];
+    const bankOf = (tx: Transaction) => tx.bankAccountId || defaultBankAccountId;
+    const inWindow = (tx: Transaction, item: BookItem) => Math.abs(dayNumber(tx.date) - dayNumber(item.date)) <= options.dateWindowDays;
+    const comparable = (tx: Transaction, item: BookItem) => bankOf(tx) === item.bankAccountId && tx.type === item.type && inWindow(tx, item);
+    const rows = transactions.filter(tx => (tx.reconciliationStatus || 'unposted') === 'unposted' && bankOf(tx));
+
+    rows.flatMap(tx => bookItems.filter(item => comparable(tx, item) && cents(item.amount) === cents(tx.amount)).map(item => buildProposal('one-to-one', [tx], [item], options)))
+        .sort((a, b) => b.score - a.score)
+        .forEach(proposal => {
+            const [tx] = proposal.transactions;
+            const [item] = proposal.bookItems;
+            if (usedTx.has(tx.id) || usedItems.has(item.lineId)) return;
+            usedTx.add(tx.id);
+            usedItems.add(item.lineId);
+            proposals.push(proposal);
+        });
+
+    const closestFirst = (date: string) => <T extends { date: string }>(a: T, b: T) => Math.abs(dayNumber(a.date) - dayNumber(date)) - Math.abs(dayNumber(b.date) - dayNumber(date));
+
+    // Several statement rows settling one journal, e.g. a payment the bank made in instalments.
+    bookItems.filter(item => !usedItems.has(item.lineId)).forEach(item => {
+        const candidates = rows.filter(tx => !usedTx.has(tx.id) && comparable(tx, item) && tx.amount < item.amount).sort(closestFirst(item.date)).slice(0, MAX_GROUP_CANDIDATES);
+        const group = findSubset(item.amount, candidates, options.maxGroupSize);
+        if (!group) return;
+        group.forEach(tx => usedTx.add(tx.id));
+        usedItems.add(item.lineId);
+        proposals.push(buildProposal('many-to-one', group, [item], options));
+    });
+
+    // One statement row settling several journals, e.g. a lodgement of several receipts.
+    rows.filter(tx => !usedTx.has(tx.id)).forEach(tx => {
+        const candidates = bookItems.filter(item => !usedItems.has(item.lineId) && comparable(tx, item) && item.amount < tx.amount).sort(closestFirst(tx.date)).slice(0, MAX_GROUP_CANDIDATES);
+        const group = findSubset(tx.amount, candidates, options.maxGroupSize);
+        if (!group) return;
+        group.forEach(item => usedItems.add(item.lineId));
+        usedTx.add(tx.id);
+        proposals.push(buildProposal('one-to-many', [tx], group, options));
+    });
+
+    return proposals.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * The reconciliation records for an accepted match: one per statement row and journal it links, each for the part of
+ * the row that journal covers.
+ */
+export const buildMatchReconciliations = (proposal: MatchProposal, period: string): ReconciledTransaction[] =>
+    proposal.transactions.flatMap(tx => proposal.bookItems.map(item => ({
+        id: tx.id,
+        period,
+        bankAccountId: item.bankAccountId,
+        journalEntryId: item.journalEntryId,
+        originalDate: tx.date,
+        originalDescription: tx.description,
+        originalAmount: tx.amount,
+        originalType: tx.type,
+        amount: proposal.kind === 'one-to-many' ? item.amount : tx.amount,
+    })));
@@ -0,0 +1,138 @@
+import { Account, Session, StatementFile, Transaction } from '../types';
+import { buildTrialBalance } from './trialBalance';
+import { getUnreconciledBookItems } from './bankMatching';
+import { inferStatementBalances } from './balanceCheck';
+import { getStatementFileRows } from './statementMerge';
+import { getUnreconciledAmount } from './reconciliationStatus';
+import { round2 } from '../utils';
+
+export interface ReconcilingItem {
+    period: string;
+    date: string;
+    description: string;
+    reference?: string;
+    amount: number;
+    journalEntryId?: string; // Set on book items
+    transactionId?: string; // Set on statement rows
+}
+
+/**
+ * A bank reconciliation statement for one bank account at the end of a period. Both sides are carried forward from
+ * every earlier period, so a cheque written months ago that the bank has still not paid stays unpresented.
+ */
+export interface BankReconciliationStatement {
+    bankAccountId: string;
+    period: string;
+    statementBalance?: number; // Closing balance of the latest statement up to the period; undefined when none states one
+    statementBalanceDate?: string;
+    statementFileName?: string;
+    cashbookBalance: number; // Balance of the bank account in the books at the end of the period, debit positive
+    unpresentedPayments: ReconcilingItem[]; // Paid in the books, not yet through the bank
+    uncreditedLodgements: ReconcilingItem[]; // Received in the books, not yet credited by the bank
+    unpostedReceipts: ReconcilingItem[]; // Credited by the bank, not yet posted to the books
+    unpostedPayments: ReconcilingItem[]; // Charged by the bank, not yet posted to the books
+    adjustedStatementBalance?: number;
+    adjustedCashbookBalance: number;
+    difference?: number; // Adjusted statement balance minus adjusted cashbook balance; 0 when reconciled
+}
+
+const total = (items: ReconcilingItem[]) => round2(items.reduce((sum, item) => sum + item.amount, 0));
+
+const byDate = (a: ReconcilingItem, b: ReconcilingItem) => a.date.localeCompare(b.date);
+
+const statementDate = (file: StatementFile, rows: Transaction[]) =>
+    file.closingBalanceDate || rows.reduce((latest, tx) => tx.date > latest ? tx.date : latest, '');
+
+/**
+ * Reconciles the statement closing balance of a bank account to its cashbook balance at the end of `period`, using
+ * every saved period up to and including it. The statement side adds lodgements and takes off payments the bank has
+ * not processed yet; the cashbook side adds and takes off statement rows not yet posted.
+ */
+export const buildBankReconciliation = (sessions: Session[], accounts: Account[], bankAccountId: string, period: string): BankReconciliationStatement => {
+    const upToPeriod = sessions.filter(s => s.period <= period);
+    const allReconciliations = upToPeriod.flatMap(s => s.reconciledTransactions || []);
+
+    const cashbookBalance = buildTrialBalance(sessions, accounts, period, period).groups
+        .flatMap(group => group.rows).find(row => row.accountId === bankAccountId)?.closingBalance || 0;
+
+    const unpresentedPayments: ReconcilingItem[] = [];
+    const uncreditedLodgements: ReconcilingItem[] = [];
+    upToPeriod.forEach(session => {
+        getUnreconciledBookItems(session.journalEntries, allReconciliations, accounts)
+            .filter(item => item.bankAccountId === bankAccountId)
+            .forEach(item => {
+                const reconcilingItem = { period: session.period, date: item.date, description: item.description, reference: item.reference, amount: item.amount, journalEntryId: item.journalEntryId };
+                (item.type === 'debit' ? unpresentedPayments : uncreditedLodgements).push(reconcilingItem);
+            });
+    });
+
+    const unpostedReceipts: ReconcilingItem[] = [];
+    const unpostedPayments: ReconcilingItem[] = [];
+    // Rows shared with another file are stored with that file, so a file's rows are looked up among all stored rows.
+    const storedRows = upToPeriod.flatMap(s => (s.statements || []).flatMap(stored => stored.transactions));
+    let latestStatement: { file: StatementFile, date: string, balance: number } | undefined;
+    upToPeriod.forEach(session => {
+        (session.statements || []).forEach(({ file, transactions }) => {
+            if (file.bankAccountId !== bankAccountId) return;
+            transactions
+                .filter(tx => (tx.bankAccountId || file.bankAccountId) === bankAccountId)
+                .map(tx => ({ tx, amount: getUnreconciledAmount(tx, allReconciliations) })) // Only what is left of partly reconciled rows
+                .filter(({ amount }) => amount > 0)
+                .forEach(({ tx, amount }) => {
+                    const reconcilingItem = { period: session.period, date: tx.date, description: tx.description, reference: tx.reference, amount, transactionId: tx.id };
+                    (tx.type === 'credit' ? unpostedReceipts : unpostedPayments).push(reconcilingItem);
+                });
+
+            const rows = getStatementFileRows(storedRows, file.id);
+            const balance = file.closingBalance ?? inferStatementBalances(rows).closingBalance;
+            const date = statementDate(file, rows);
+            if (balance !== undefined && (!latestStatement || date > latestStatement.date)) latestStatement = { file, date, balance };
+        });
+    });
+
+    const adjustedCashbookBalance = round2(cashbookBalance + total(unpostedReceipts) - total(unpostedPayments));
+    const adjustedStatementBalance = latestStatement ? round2(latestStatement.balance + total(uncreditedLodgements) - total(unpresentedPayments)) : undefined;
+    return {
+        bankAccountId,
+        period,
+        statementBalance: latestStatement?.balance,
+        statementBalanceDate: latestStatement?.date,
+        statementFileName: latestStatement?.file.fileName,
+        cashbookBalance,
+        unpresentedPayments: unpresentedPayments.sort(byDate),
+        uncreditedLodgements: uncreditedLodgements.sort(byDate),
+        unpostedReceipts: unpostedReceipts.sort(byDate),
+        unpostedPayments: unpostedPayments.sort(byDate),
+        adjustedStatementBalance,
+        adjustedCashbookBalance,
+        difference: adjustedStatementBalance !== undefined ? round2(adjustedStatementBalance - adjustedCashbookBalance) : undefined,
+    };
+};
+
+/** Flattens a reconciliation into sheet rows for XLSX export, in the order the report shows it. */
+export const bankReconciliationToSheetRows = (reconciliation: BankReconciliationStatement) => {
+    const sheetRows: Record<string, string | number>[] = [];
+    const line = (section: string, description: string, amount: number | string, item?: ReconcilingItem) => sheetRows.push({
+        Section: section,
+        Date: item?.date || '',
+        Description: description,
+        Reference: item?.reference || '',
+        Period: item?.period || '',
+        Amount: amount,
+    });
+    const section = (name: string, sign: 1 | -1, items: ReconcilingItem[]) => {
+        items.forEach(item => line(name, item.description, sign * item.amount, item));
+        line(name, `Total ${name.toLowerCase()}`, sign * total(items));
+    };
+
+    line('Bank statement', `Balance per bank statement${reconciliation.statementBalanceDate ? ` at ${reconciliation.statementBalanceDate}` : ''}`, reconciliation.statementBalance ?? 'Not stated');
+    section('Uncredited lodgements', 1, reconciliation.uncreditedLodgements);
+    section('Unpresented payments', -1, reconciliation.unpresentedPayments);
+    line('Bank statement', 'Adjusted bank statement balance', reconciliation.adjustedStatementBalance ?? '');
+    line('Cashbook', 'Balance per cashbook', reconciliation.cashbookBalance);
+    section('Bank receipts not yet posted', 1, reconciliation.unpostedReceipts);
+    section('Bank payments not yet posted', -1, reconciliation.unpostedPayments);
+    line('Cashbook', 'Adjusted cashbook balance', reconciliation.adjustedCashbookBalance);
+    line('', 'Unreconciled difference', reconciliation.difference ?? '');
+    return sheetRows;
+};
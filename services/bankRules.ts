@@ -0,0 +1,203 @@
+import { Account, AnalysisDimension, Transaction } from '../types';
+import { isPostingAccount } from './accountHierarchy';
+import { DimensionValues } from './dimensions';
+import { generateUUID } from '../utils';
+
+/**
+ * A bank rule picks the contra account for statement rows as they are posted. Every condition that is set has to
+ * match; rules are tried in list order and the first enabled match wins.
+ */
+export interface BankRule {
+    id: string;
+    name: string;
+    enabled: boolean;
+    descriptionMatch: 'contains' | 'regex';
+    descriptionPattern: string; // Empty matches any description; 'contains' ignores case
+    minAmount?: number;
+    maxAmount?: number;
+    direction: 'any' | 'debit' | 'credit'; // As on the statement: debit is money out of the bank
+    bankAccountId: string; // Empty for any bank account
+    accountId: string; // Contra account to post to
+    narration: string; // Empty keeps the statement description; {description} inserts it
+    dimensions: DimensionValues;
+}
+
+export interface BankRuleResult {
+    accountId: string;
+    narration: string;
+    dimensions: DimensionValues;
+}
+
+export interface BankRulePreview {
+    matches: Transaction[]; // Rows the rule would categorise
+    shadowed: Transaction[]; // Rows the rule matches but an earlier rule takes
+}
+
+const STORAGE_KEY = 'aiBookkeeper_bankRules';
+
+export const loadBankRules = (): BankRule[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+        console.error("Could not load bank rules from local storage.", e);
+        return [];
+    }
+};
+
+export const saveBankRules = (rules: BankRule[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const createBankRule = (): BankRule => ({
+    id: generateUUID(),
+    name: '',
+    enabled: true,
+    descriptionMatch: 'contains',
+    descriptionPattern: '',
+    direction: 'any',
+    bankAccountId: '',
+    accountId: '',
+    narration: '',
+    dimensions: {},
+});
+
+/** The error of an invalid regular expression, or an empty string when it compiles. */
+export const getRegexError = (pattern: string) => {
+    try {
+        new RegExp(pattern, 'i');
+        return '';
+    } catch (e) {
+        return e instanceof Error ? e.message : String(e);
+    }
+};
+
+/** Whether a statement row meets every condition of a rule. An invalid regular expression matches nothing. */
+export const matchesBankRule = (rule: BankRule, tx: Transaction, bankAccountId: string) => {
+    if (rule.direction !== 'any' && tx.type !== rule.direction) return false;
+    if (rule.bankAccountId && rule.bankAccountId !== bankAccountId) return false;
+    if (rule.minAmount !== undefined && tx.amount < rule.minAmount) return false;
+    if (rule.maxAmount !== undefined && tx.amount > rule.maxAmount) return false;
+    if (!rule.descriptionPattern) return true;
+    if (rule.descriptionMatch === 'contains') return tx.description.toLowerCase().includes(rule.descriptionPattern.toLowerCase());
+    return !getRegexError(rule.descriptionPattern) && new RegExp(rule.descriptionPattern, 'i').test(tx.description);
+};
+
+/** The first enabled rule that matches a row and still points at a posting account other than the row's own bank account. */
+export const findMatchingRule = (rules: BankRule[], accounts: Account[], tx: Transaction, bankAccountId: string) =>
+    rules.find(rule => rule.enabled && rule.accountId !== bankAccountId && isPostingAccount(accounts.find(a => a.id === rule.accountId)) && matchesBankRule(rule, tx, bankAccountId));
+
+/** What a rule sets on the journal posted for a row. */
+export const applyBankRule = (rule: BankRule, tx: Transaction): BankRuleResult => ({
+    accountId: rule.accountId,
+    narration: rule.narration.trim() ? rule.narration.replace(/\{description\}/gi, tx.description) : tx.description,
+    dimensions: rule.dimensions,
+});
+
+/** The rows a rule would categorise if they were posted now, and those it matches that an earlier rule takes. */
+export const previewBankRule = (rules: BankRule[], accounts: Account[], ruleId: string, transactions: Transaction[], defaultBankAccountId: string): BankRulePreview => {
+    const rule = rules.find(r => r.id === ruleId);
+    const preview: BankRulePreview = { matches: [], shadowed: [] };
+    if (!rule) return preview;
+    transactions.forEach(tx => {
+        const bankAccountId = tx.bankAccountId || defaultBankAccountId;
+        if (!matchesBankRule(rule, tx, bankAccountId)) return;
+        const winner = findMatchingRule(rules, accounts, tx, bankAccountId);
+        if (!winner || winner.id === rule.id) preview.matches.push(tx);
+        else preview.shadowed.push(tx);
+    });
+    return preview;
+};
+
+/** Checks a rule before it is saved. Returns an error message, or an empty string when the rule is usable. */
+export const validateBankRule = (rule: BankRule, accounts: Account[]) => {
+    if (!rule.name.trim()) return 'Give the rule a name.';
+    const account = accounts.find(a => a.id === rule.accountId);
+    if (!isPostingAccount(account)) return 'Choose the account to post to; header accounts cannot receive postings.';
+    // Posting to another bank account records a transfer, but a row must never be posted back to its own bank account.
+    if (account?.isBankAccount && rule.bankAccountId === account.id) return 'A rule cannot post rows back to the bank account they come from.';
+    if (account?.isBankAccount && !rule.bankAccountId) return 'A rule that posts to a bank account must be limited to the other bank account, the one the transfer comes from.';
+    if (rule.descriptionMatch === 'regex' && rule.descriptionPattern) {
+        const regexError = getRegexError(rule.descriptionPattern);
+        if (regexError) return `The regular expression is invalid: ${regexError}`;
+    }
+    if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount > rule.maxAmount) return 'The minimum amount is above the maximum.';
+    return '';
+};
+
+/** Moves a rule one place up (earlier, higher priority) or down the list. */
+export const moveBankRule = (rules: BankRule[], ruleId: string, direction: -1 | 1): BankRule[] => {
+    const from = rules.findIndex(r => r.id === ruleId);
+    const to = from + direction;
+    if (from < 0 || to < 0 || to >= rules.length) return rules;
+    const next = [...rules];
+    [next[from], next[to]] = [next[to], next[from]];
+    return next;
+};
+
+// Rules are exported with account codes and dimension names, so they can be imported into another workspace.
+interface ExportedBankRule extends Omit<BankRule, 'id' | 'accountId' | 'bankAccountId' | 'dimensions'> {
+    accountCode: string;
+    bankAccountCode: string;
+    dimensions: Record<string, string>; // Dimension name -> value code
+}
+
+export const exportBankRules = (rules: BankRule[], accounts: Account[], dimensions: AnalysisDimension[]) => {
+    const codeOf = (id: string) => accounts.find(a => a.id === id)?.code || '';
+    const exported: ExportedBankRule[] = rules.map(({ id, accountId, bankAccountId, dimensions: values, ...rest }) => ({
+        ...rest,
+        accountCode: codeOf(accountId),
+        bankAccountCode: codeOf(bankAccountId),
+        dimensions: Object.fromEntries(dimensions.flatMap(d => d.values.filter(v => v.id === values[d.id]).map(v => [d.name, v.code]))),
+    }));
+    return JSON.stringify({ bankRules: exported }, null, 2);
+};
+
+/**
+ * Reads rules exported by `exportBankRules`, matching accounts by code and dimension values by dimension name and
+ * code. Rules whose account or bank account code is not in the chart are skipped and reported.
+ */
+export const importBankRules = (json: string, accounts: Account[], dimensions: AnalysisDimension[]): { rules: BankRule[], skipped: string[] } => {
+    const parsed = JSON.parse(json);
+    const exported: ExportedBankRule[] | undefined = Array.isArray(parsed) ? parsed : parsed?.bankRules;
+    if (!Array.isArray(exported)) throw new Error("The file does not contain any bank rules.");
+
+    const rules: BankRule[] = [];
+    const skipped: string[] = [];
+    exported.forEach(item => {
+        const account = accounts.find(a => a.code === String(item.accountCode ?? ''));
+        const name = String(item.name ?? '');
+        const bankAccount = item.bankAccountCode ? accounts.find(a => a.isBankAccount && a.code === String(item.bankAccountCode)) : undefined;
+        if (!account) {
+            skipped.push(`${name || 'Unnamed rule'} (account ${item.accountCode || 'missing'} not found)`);
+            return;
+        }
+        // Without its bank account the rule would apply to every bank, so it is left out instead.
+        if (item.bankAccountCode && !bankAccount) {
+            skipped.push(`${name || 'Unnamed rule'} (bank account ${item.bankAccountCode} not found)`);
+            return;
+        }
+        const dimensionValues: DimensionValues = {};
+        Object.entries(item.dimensions || {}).forEach(([dimensionName, valueCode]) => {
+            const dimension = dimensions.find(d => d.name.toLowerCase() === dimensionName.toLowerCase());
+            const value = dimension?.values.find(v => v.code === valueCode);
+            if (dimension && value) dimensionValues[dimension.id] = value.id;
+        });
+        const amountOrUndefined = (value: unknown) => typeof value === 'number' && isFinite(value) ? value : undefined;
+        rules.push({
+            id: generateUUID(),
+            name,
+            enabled: item.enabled !== false,
+            descriptionMatch: item.descriptionMatch === 'regex' ? 'regex' : 'contains',
+            descriptionPattern: String(item.descriptionPattern ?? ''),
+            minAmount: amountOrUndefined(item.minAmount),
+            maxAmount: amountOrUndefined(item.maxAmount),
+            direction: item.direction === 'debit' || item.direction === 'credit' ? item.direction : 'any',
+            bankAccountId: bankAccount?.id || '',
+            accountId: account.id,
+            narration: String(item.narration ?? ''),
+            dimensions: dimensionValues,
+        });
+    });
+    return { rules, skipped };
+};
@@ -0,0 +1,103 @@
+import { ParsedStatement, ParsedStatementLine } from '../types';
+
+// Elements are looked up by local name so every camt.053 schema version (namespace) is accepted.
+
+const children = (parent: Element | undefined, name: string): Element[] =>
+    parent ? Array.from(parent.children).filter(el => el.localName === name) : [];
+
+const find = (parent: Element | undefined, path: string): Element | undefined =>
+    path.split('/').reduce<Element | undefined>((el, name) => children(el, name)[0], parent);
+
+const textAt = (parent: Element | undefined, path: string): string | undefined =>
+    find(parent, path)?.textContent?.trim() || undefined;
+
+const dateAt = (parent: Element | undefined, path: string): string | undefined =>
+    (textAt(parent, `${path}/Dt`) || textAt(parent, `${path}/DtTm`))?.slice(0, 10);
+
+const isProvided = (value?: string) => !!value && value.toUpperCase() !== 'NOTPROVIDED';
+
+const parseEntry = (entry: Element): ParsedStatementLine | null => {
+    // Pending and informational entries have not been booked to the account yet.
+    const status = textAt(entry, 'Sts/Cd') || textAt(entry, 'Sts');
+    if (status === 'PDNG' || status === 'INFO') return null;
+
+    const amount = parseFloat(textAt(entry, 'Amt') || '');
+    const date = dateAt(entry, 'BookgDt') || dateAt(entry, 'ValDt');
+    if (isNaN(amount) || amount === 0 || !date) return null;
+    const isDebit = textAt(entry, 'CdtDbtInd') === 'DBIT';
+
+    const details = children(find(entry, 'NtryDtls'), 'TxDtls');
+    const remittance = new Set<string>();
+    let counterparty: string | undefined;
+    let endToEndId: string | undefined;
+    details.forEach(tx => {
+        children(find(tx, 'RmtInf'), 'Ustrd').forEach(u => {
+            const line = u.textContent?.trim();
+            if (line) remittance.add(line);
+        });
+        const additional = textAt(tx, 'AddtlTxInf');
+        if (additional && remittance.size === 0) remittance.add(additional);
+        // The counterparty is the creditor for money going out and the debtor for money coming in.
+        counterparty = counterparty || textAt(tx, isDebit ? 'RltdPties/Cdtr/Nm' : 'RltdPties/Dbtr/Nm') || textAt(tx, isDebit ? 'RltdPties/Cdtr/Pty/Nm' : 'RltdPties/Dbtr/Pty/Nm');
+        const e2e = textAt(tx, 'Refs/EndToEndId');
+        endToEndId = endToEndId || (isProvided(e2e) ? e2e : undefined);
+    });
+
+    const narrative = [...remittance].join(' ') || textAt(entry, 'AddtlNtryInf');
+    const description = [counterparty, narrative].filter(Boolean).join(' - ');
+    const bankReference = textAt(entry, 'AcctSvcrRef');
+
+    return {
+        date,
+        valueDate: dateAt(entry, 'ValDt'),
+        description: textAt(entry, 'RvslInd') === 'true' ? `Reversal: ${description}` : description,
+        debit: isDebit ? amount : null,
+        credit: isDebit ? null : amount,
+        externalId: isProvided(bankReference) ? bankReference : undefined,
+        reference: endToEndId || textAt(entry, 'NtryRef') || (isProvided(bankReference) ? bankReference : undefined),
+    };
+};
+
+const findBalance = (statement: Element, codes: string[]) => {
+    const balance = children(statement, 'Bal').find(bal => codes.includes(textAt(bal, 'Tp/CdOrPrtry/Cd') || ''));
+    if (!balance) return undefined;
+    const amount = parseFloat(textAt(balance, 'Amt') || '');
+    if (isNaN(amount)) return undefined;
+    return {
+        amount: textAt(balance, 'CdtDbtInd') === 'DBIT' ? -amount : amount,
+        date: dateAt(balance, 'Dt'),
+        currency: find(balance, 'Amt')?.getAttribute('Ccy') || undefined,
+    };
+};
+
+/** Parses an ISO 20022 camt.053 bank-to-customer statement. Each <Stmt> (one per account and day) becomes a statement. */
+export const parseCamt053 = (text: string): ParsedStatement[] => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new Error("The camt.053 file is not valid XML.");
+    }
+    const statementElements = Array.from(doc.getElementsByTagNameNS('*', 'Stmt'));
+    if (statementElements.length === 0) {
+        throw new Error("No <Stmt> elements were found. Is this a camt.053 statement?");
+    }
+
+    const statements = statementElements.map((statement): ParsedStatement => {
+        const opening = findBalance(statement, ['OPBD', 'PRCD']);
+        const closing = findBalance(statement, ['CLBD']);
+        return {
+            accountIdentifier: textAt(statement, 'Acct/Id/IBAN') || textAt(statement, 'Acct/Id/Othr/Id'),
+            currency: textAt(statement, 'Acct/Ccy') || closing?.currency || opening?.currency,
+            openingBalance: opening?.amount,
+            closingBalance: closing?.amount,
+            closingBalanceDate: closing?.date,
+            lines: children(statement, 'Ntry')
+                .map(parseEntry)
+                .filter((line): line is ParsedStatementLine => line !== null),
+        };
+    });
+
+    if (statements.every(s => s.lines.length === 0)) {
+        throw new Error("No booked entries were found in the camt.053 file.");
+    }
+    return statements;
+};
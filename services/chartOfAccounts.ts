@@ -0,0 +1,196 @@
+import { Account, Session } from '../types';
+import { generateUUID } from '../utils';
+
+export interface ChartOfAccountsVersion {
+    version: number;
+    savedAt: number;
+    accounts: Account[];
+    summary: string; // What changed since the previous version, e.g. "2 added, 1 changed"
+}
+
+/** The workspace chart of accounts shared by every period, with each saved version kept in order. */
+export interface WorkspaceChartOfAccounts {
+    versions: ChartOfAccountsVersion[];
+}
+
+const STORAGE_KEY = 'aiBookkeeper_chartOfAccounts';
+
+export const loadChartOfAccounts = (): WorkspaceChartOfAccounts | null => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+        console.error("Could not load the chart of accounts from local storage.", e);
+        return null;
+    }
+};
+
+export const saveChartOfAccounts = (chart: WorkspaceChartOfAccounts) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(chart));
+};
+
+export const getCurrentVersion = (chart: WorkspaceChartOfAccounts) => chart.versions[chart.versions.length - 1];
+
+/** An account folded into another: every posting moves to `toId` and `fromId` leaves the chart. */
+export interface AccountMerge {
+    fromId: string;
+    toId: string;
+}
+
+export interface AccountMergePreview {
+    lineCount: number;
+    entryCount: number;
+    reconciliationCount: number;
+    statementFileCount: number;
+    periods: string[]; // Periods with anything to re-point
+    closedPeriods: string[]; // Of those, the ones that are closed; their reported balances change too
+}
+
+/** Describes the difference between two versions of the chart, matching accounts by id. Merges are listed by code. */
+export const summarizeChartChanges = (previous: Account[], next: Account[], merges: AccountMerge[] = []) => {
+    const previousById = new Map(previous.map(a => [a.id, a]));
+    const added = next.filter(a => !previousById.has(a.id)).length;
+    const removed = previous.filter(a => !next.some(n => n.id === a.id)).length;
+    const changed = next.filter(a => {
+        const before = previousById.get(a.id);
+        return before && (before.code !== a.code || before.name !== a.name || before.type !== a.type || !!before.isBankAccount !== !!a.isBankAccount || (before.parentId || '') !== (a.parentId || '') || !!before.isHeader !== !!a.isHeader);
+    }).length;
+    const moved = !changed && !added && !removed && previous.some((a, i) => next[i]?.id !== a.id);
+    const codeOf = (id: string) => [...previous, ...next].find(a => a.id === id)?.code || id;
+    const parts = [
+        added && `${added} added`,
+        removed && `${removed} removed`,
+        changed && `${changed} changed`,
+        moved && 'reordered',
+        ...merges.map(m => `${codeOf(m.fromId)} merged into ${codeOf(m.toId)}`),
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : 'No changes';
+};
+
+/** Appends `accounts` as a new version of the chart; returns the chart unchanged when nothing differs. */
+export const addChartVersion = (chart: WorkspaceChartOfAccounts | null, accounts: Account[], summary?: string): WorkspaceChartOfAccounts => {
+    const current = chart ? getCurrentVersion(chart) : undefined;
+    if (current && JSON.stringify(current.accounts) === JSON.stringify(accounts)) return chart!;
+    return {
+        versions: [...(chart?.versions || []), {
+            version: (current?.version || 0) + 1,
+            savedAt: Date.now(),
+            accounts,
+            summary: summary || (current ? summarizeChartChanges(current.accounts, accounts) : `${accounts.length} accounts`),
+        }],
+    };
+};
+
+// Re-points the journal lines, reconciliations and statements of a period through `remap`.
+const remapSessionAccounts = (session: Session, remap: (id: string) => string): Session => ({
+    ...session,
+    journalEntries: session.journalEntries.map(je => ({ ...je, lines: je.lines.map(line => ({ ...line, accountId: remap(line.accountId) })) })),
+    reconciledTransactions: (session.reconciledTransactions || []).map(rt => ({ ...rt, bankAccountId: remap(rt.bankAccountId) })),
+    statements: session.statements?.map(({ file, transactions }) => ({
+        file: { ...file, bankAccountId: remap(file.bankAccountId) },
+        transactions: transactions.map(tx => tx.bankAccountId ? { ...tx, bankAccountId: remap(tx.bankAccountId) } : tx),
+    })),
+});
+
+/**
+ * Moves periods saved with their own copy of the chart onto the workspace chart. Periods are taken oldest first and
+ * their accounts matched by code: an account the workspace chart has keeps the workspace id (and takes the period's
+ * name and type, so the latest period wins), and any other account is added. Journal lines, reconciliations and
+ * statements are then re-pointed at the workspace ids and the period's own chart is dropped.
+ *
+ * Returns the migrated periods and chart, or null when no period still has its own chart.
+ */
+export const migrateToWorkspaceChart = (
+    allPeriods: Record<string, Session>,
+    chart: WorkspaceChartOfAccounts | null,
+    defaultAccounts: Account[],
+): { periods: Record<string, Session>, chart: WorkspaceChartOfAccounts } | null => {
+    const legacySessions = Object.values(allPeriods).filter(s => s.accounts).sort((a, b) => a.period.localeCompare(b.period));
+    if (legacySessions.length === 0) return chart ? null : { periods: allPeriods, chart: addChartVersion(null, defaultAccounts) };
+
+    const accounts: Account[] = chart ? getCurrentVersion(chart).accounts.map(a => ({ ...a })) : [];
+    const periods = { ...allPeriods };
+
+    legacySessions.forEach(session => {
+        const idMap = new Map<string, string>();
+        session.accounts!.forEach(legacy => {
+            let shared = accounts.find(a => a.code === legacy.code);
+            if (shared) {
+                Object.assign(shared, { name: legacy.name, type: legacy.type, isBankAccount: legacy.isBankAccount, isHeader: legacy.isHeader });
+            } else {
+                shared = { ...legacy, id: accounts.some(a => a.id === legacy.id) ? generateUUID() : legacy.id };
+                accounts.push(shared);
+            }
+            idMap.set(legacy.id, shared.id);
+        });
+        // Parent links can only be mapped once every account of the period has its workspace id.
+        session.accounts!.forEach(legacy => {
+            const shared = accounts.find(a => a.id === idMap.get(legacy.id))!;
+            shared.parentId = legacy.parentId ? idMap.get(legacy.parentId) : undefined;
+        });
+
+        const { accounts: legacyAccounts, ...rest } = session;
+        periods[session.period] = remapSessionAccounts(rest, id => idMap.get(id) || id);
+    });
+
+    const migratedChart = addChartVersion(chart, accounts.length > 0 ? accounts : defaultAccounts, `Merged from ${legacySessions.length} period${legacySessions.length === 1 ? '' : 's'} by account code`);
+    const version = getCurrentVersion(migratedChart).version;
+    legacySessions.forEach(session => { periods[session.period] = { ...periods[session.period], chartVersion: version }; });
+    return { periods, chart: migratedChart };
+};
+
+/** Ids of the accounts that have journal lines or bank reconciliations in any period. */
+export const getUsedAccountIds = (sessions: Session[]) => new Set(sessions.flatMap(s => [
+    ...s.journalEntries.flatMap(je => je.lines.map(line => line.accountId)),
+    ...(s.reconciledTransactions || []).map(rt => rt.bankAccountId),
+]));
+
+/** Counts what merging the account `fromId` into another would re-point in the given periods. */
+export const previewAccountMerge = (sessions: Session[], fromId: string): AccountMergePreview => {
+    const preview: AccountMergePreview = { lineCount: 0, entryCount: 0, reconciliationCount: 0, statementFileCount: 0, periods: [], closedPeriods: [] };
+    [...sessions].sort((a, b) => a.period.localeCompare(b.period)).forEach(session => {
+        const lineCount = session.journalEntries.reduce((sum, je) => sum + je.lines.filter(line => line.accountId === fromId).length, 0);
+        const entryCount = session.journalEntries.filter(je => je.lines.some(line => line.accountId === fromId)).length;
+        const reconciliationCount = (session.reconciledTransactions || []).filter(rt => rt.bankAccountId === fromId).length;
+        const statementFileCount = (session.statements || []).filter(({ file }) => file.bankAccountId === fromId).length;
+        if (lineCount + reconciliationCount + statementFileCount === 0) return;
+        preview.lineCount += lineCount;
+        preview.entryCount += entryCount;
+        preview.reconciliationCount += reconciliationCount;
+        preview.statementFileCount += statementFileCount;
+        preview.periods.push(session.period);
+        if (session.closedAt) preview.closedPeriods.push(session.period);
+    });
+    return preview;
+};
+
+/**
+ * Checks that `fromId` can be merged into `toId`. Returns an error message, or an empty string when the merge is
+ * allowed. A merge across account types is allowed, as it is often how a mis-typed account is corrected.
+ */
+export const validateAccountMerge = (accounts: Account[], merge: AccountMerge, protectedCode: string) => {
+    const from = accounts.find(a => a.id === merge.fromId);
+    const to = accounts.find(a => a.id === merge.toId);
+    if (!from || !to) return 'Choose the account to merge into.';
+    if (from.id === to.id) return 'An account cannot be merged into itself.';
+    if (from.code === protectedCode) return `The '${from.name}' account is essential and cannot be merged away.`;
+    if (to.isHeader) return 'Postings cannot be moved to a header account.';
+    if (from.isBankAccount && !to.isBankAccount) return 'A bank account can only be merged into another bank account, so its statements and reconciliations stay with a bank.';
+    return '';
+};
+
+/** Re-points every journal line, reconciliation and statement of a period from one account to the other. */
+export const applyAccountMerge = (session: Session, merge: AccountMerge): Session =>
+    remapSessionAccounts(session, id => id === merge.fromId ? merge.toId : id);
+
+/**
+ * Removes the merged account from the chart. Its sub-accounts move below the account it was merged into; if that
+ * account was itself one of them, it takes the merged account's place in the tree.
+ */
+export const mergeAccountInChart = (accounts: Account[], merge: AccountMerge): Account[] => {
+    const from = accounts.find(a => a.id === merge.fromId);
+    if (!from) return accounts;
+    return accounts
+        .filter(a => a.id !== merge.fromId)
+        .map(a => a.parentId !== merge.fromId ? a : { ...a, parentId: a.id === merge.toId ? from.parentId : merge.toId });
+};
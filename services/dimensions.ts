@@ -0,0 +1,87 @@
+import { AnalysisDimension, JournalEntry, JournalLine, Session } from '../types';
+
+export const DEFAULT_DIMENSIONS: AnalysisDimension[] = [
+    { id: 'cost-centre', name: 'Cost Centre', values: [] },
+    { id: 'department', name: 'Department', values: [] },
+    { id: 'project', name: 'Project', values: [] },
+];
+
+const STORAGE_KEY = 'aiBookkeeper_dimensions';
+
+export const loadDimensions = (): AnalysisDimension[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? JSON.parse(stored) : DEFAULT_DIMENSIONS;
+    } catch (e) {
+        console.error("Could not load analysis dimensions from local storage.", e);
+        return DEFAULT_DIMENSIONS;
+    }
+};
+
+export const saveDimensions = (dimensions: AnalysisDimension[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(dimensions));
+};
+
+/** A value id per dimension id. Dimensions that are left out or set to '' are not filtered on or assigned. */
+export type DimensionValues = Record<string, string>;
+
+/** Dimensions with values to choose from; the others are not shown on journal lines or in filters. */
+export const getActiveDimensions = (dimensions: AnalysisDimension[]) => dimensions.filter(d => d.values.length > 0);
+
+/** Sets (or with an empty `valueId`, clears) one dimension of a journal line. */
+export const setLineDimension = (line: JournalLine, dimensionId: string, valueId: string): JournalLine => {
+    const { [dimensionId]: _previous, ...others } = line.dimensions || {};
+    const dimensions = valueId ? { ...others, [dimensionId]: valueId } : others;
+    return { ...line, dimensions: Object.keys(dimensions).length > 0 ? dimensions : undefined };
+};
+
+/** Sets every dimension given in `values` on a journal line, leaving the others as they are. */
+export const applyLineDimensions = (line: JournalLine, values: DimensionValues): JournalLine =>
+    Object.entries(values).filter(([, valueId]) => valueId).reduce((current, [dimensionId, valueId]) => setLineDimension(current, dimensionId, valueId), line);
+
+export const hasDimensionFilter = (filter: DimensionValues) => Object.values(filter).some(Boolean);
+
+export const lineMatchesDimensions = (line: JournalLine, filter: DimensionValues) =>
+    Object.entries(filter).every(([dimensionId, valueId]) => !valueId || line.dimensions?.[dimensionId] === valueId);
+
+/** Whether one line of the entry carries every value in the filter. */
+export const entryMatchesDimensions = (entry: JournalEntry, filter: DimensionValues) =>
+    !hasDimensionFilter(filter) || entry.lines.some(line => lineMatchesDimensions(line, filter));
+
+/**
+ * Keeps only the journal lines tagged with `valueId` for a dimension, or the lines without a value when `valueId` is
+ * null. The entries no longer balance, so the result is only meant for reports on revenue and expense movements.
+ */
+export const filterSessionsByDimension = (sessions: Session[], dimensionId: string, valueId: string | null): Session[] =>
+    sessions.map(session => ({
+        ...session,
+        journalEntries: session.journalEntries.map(je => ({ ...je, lines: je.lines.filter(line => (line.dimensions?.[dimensionId] || null) === valueId) })),
+    }));
+
+/** Ids of the dimension values used on a journal line in any period. */
+export const getUsedDimensionValueIds = (sessions: Session[]) =>
+    new Set(sessions.flatMap(s => s.journalEntries.flatMap(je => je.lines.flatMap(line => Object.values(line.dimensions || {})))));
+
+/** The codes of the dimension values on a line, in dimension order, e.g. "CC01 · PRJ-7". */
+export const describeLineDimensions = (line: JournalLine, dimensions: AnalysisDimension[]) =>
+    dimensions.flatMap(d => d.values.filter(v => v.id === line.dimensions?.[d.id]).map(v => v.code)).join(' · ');
+
+/**
+ * Checks dimension and value names, and that value codes are unique within their dimension. Returns an error message
+ * per dimension or value id.
+ */
+export const validateDimensions = (dimensions: AnalysisDimension[]): Record<string, string> => {
+    const errors: Record<string, string> = {};
+    dimensions.forEach(dimension => {
+        if (!dimension.name.trim()) errors[dimension.id] = 'Name cannot be empty.';
+        else if (dimensions.some(d => d.id !== dimension.id && d.name.trim().toLowerCase() === dimension.name.trim().toLowerCase())) errors[dimension.id] = 'Name must be unique.';
+        const seenCodes = new Set<string>();
+        dimension.values.forEach(value => {
+            const code = value.code.trim().toLowerCase();
+            if (!code || !value.name.trim()) errors[value.id] = 'Code and name are required.';
+            else if (seenCodes.has(code)) errors[value.id] = 'Code must be unique within the dimension.';
+            seenCodes.add(code);
+        });
+    });
+    return errors;
+};
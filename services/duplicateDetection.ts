@@ -0,0 +1,148 @@
+import { Transaction } from '../types';
+
+export interface DuplicateRules {
+    dateWindowDays: number; // Rows up to this many days apart can be duplicates
+    amountMatch: 'exact' | 'tolerance';
+    amountTolerance: number; // Absolute difference allowed when amountMatch is 'tolerance'
+    descriptionMethod: 'token' | 'levenshtein';
+    minDescriptionSimilarity: number; // 0-100
+}
+
+export interface DuplicateGroup {
+    ids: string[];
+    score: number; // 0-100, the weakest link that holds the group together
+    reason: string;
+}
+
+export const DEFAULT_DUPLICATE_RULES: DuplicateRules = {
+    dateWindowDays: 2,
+    amountMatch: 'exact',
+    amountTolerance: 1,
+    descriptionMethod: 'token',
+    minDescriptionSimilarity: 70,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_LEVENSHTEIN_CHARS = 120;
+
+const RULES_STORAGE_KEY = 'aiBookkeeper_duplicateRules';
+
+export const loadDuplicateRules = (): DuplicateRules => {
+    try {
+        const stored = localStorage.getItem(RULES_STORAGE_KEY);
+        return stored ? { ...DEFAULT_DUPLICATE_RULES, ...JSON.parse(stored) } : DEFAULT_DUPLICATE_RULES;
+    } catch (e) {
+        console.error("Could not load duplicate rules from local storage.", e);
+        return DEFAULT_DUPLICATE_RULES;
+    }
+};
+
+export const saveDuplicateRules = (rules: DuplicateRules) => {
+    localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+const normalise = (description: string) => description.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Dice coefficient over the sets of words, so word order and repeated words do not matter. */
+const tokenSimilarity = (a: string, b: string) => {
+    const tokensA = new Set(a.split(' ').filter(Boolean));
+    const tokensB = new Set(b.split(' ').filter(Boolean));
+    if (tokensA.size === 0 && tokensB.size === 0) return 1;
+    const shared = [...tokensA].filter(t => tokensB.has(t)).length;
+    return (2 * shared) / (tokensA.size + tokensB.size);
+};
+
+const levenshteinSimilarity = (a: string, b: string) => {
+    const s = a.slice(0, MAX_LEVENSHTEIN_CHARS);
+    const t = b.slice(0, MAX_LEVENSHTEIN_CHARS);
+    if (!s.length && !t.length) return 1;
+    let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= s.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= t.length; j++) {
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (s[i - 1] === t[j - 1] ? 0 : 1));
+        }
+        previous = current;
+    }
+    return 1 - previous[t.length] / Math.max(s.length, t.length);
+};
+
+const dayNumber = (date: string) => Math.floor(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+
+type PairMatch = { score: number, reason: string };
+
+const comparePair = (a: Transaction, b: Transaction, rules: DuplicateRules, descriptions: Map<string, string>): PairMatch | null => {
+    if (a.type !== b.type || (a.bankAccountId || '') !== (b.bankAccountId || '')) return null;
+
+    const amountDifference = Math.abs(a.amount - b.amount);
+    const amountLimit = rules.amountMatch === 'exact' ? 0.005 : Math.max(rules.amountTolerance, 0.005);
+    if (amountDifference > amountLimit) return null;
+
+    const descA = descriptions.get(a.id) || '';
+    const descB = descriptions.get(b.id) || '';
+    const similarity = Math.round(100 * (rules.descriptionMethod === 'token' ? tokenSimilarity(descA, descB) : levenshteinSimilarity(descA, descB)));
+    if (similarity < rules.minDescriptionSimilarity) return null;
+
+    const daysApart = Math.abs(dayNumber(a.date) - dayNumber(b.date));
+    const dateScore = rules.dateWindowDays > 0 ? 1 - daysApart / (rules.dateWindowDays + 1) : 1;
+    const amountScore = amountLimit > 0.005 ? 1 - amountDifference / (amountLimit * 2) : 1;
+    const score = Math.round(similarity * 0.6 + dateScore * 100 * 0.25 + amountScore * 100 * 0.15);
+
+    const reason = [
+        amountDifference < 0.005 ? 'same amount' : `amounts ${amountDifference.toFixed(2)} apart`,
+        daysApart === 0 ? 'same day' : `${daysApart} day${daysApart === 1 ? '' : 's'} apart`,
+        `descriptions ${similarity}% similar (${rules.descriptionMethod === 'token' ? 'word match' : 'edit distance'})`,
+    ].join(', ');
+    return { score, reason };
+};
+
+/**
+ * Finds potential duplicate rows without any AI call. Rows are compared pairwise within the date window (same bank
+ * account and direction only), and rows linked by qualifying pairs form one group.
+ */
+export const findDuplicateGroups = (transactions: Transaction[], rules: DuplicateRules): DuplicateGroup[] => {
+    const descriptions = new Map(transactions.map(tx => [tx.id, normalise(tx.description)]));
+    const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+    const parent = new Map<string, string>(sorted.map(tx => [tx.id, tx.id]));
+    const find = (id: string): string => {
+        const p = parent.get(id)!;
+        if (p === id) return id;
+        const root = find(p);
+        parent.set(id, root);
+        return root;
+    };
+
+    const links: { a: string, b: string, match: PairMatch }[] = [];
+    sorted.forEach((tx, i) => {
+        const day = dayNumber(tx.date);
+        for (let j = i + 1; j < sorted.length && dayNumber(sorted[j].date) - day <= rules.dateWindowDays; j++) {
+            const match = comparePair(tx, sorted[j], rules, descriptions);
+            if (match) {
+                links.push({ a: tx.id, b: sorted[j].id, match });
+                parent.set(find(tx.id), find(sorted[j].id));
+            }
+        }
+    });
+
+    const groups = new Map<string, { ids: Set<string>, links: PairMatch[] }>();
+    links.forEach(({ a, b, match }) => {
+        const root = find(a);
+        const group = groups.get(root) || { ids: new Set<string>(), links: [] };
+        group.ids.add(a);
+        group.ids.add(b);
+        group.links.push(match);
+        groups.set(root, group);
+    });
+
+    return [...groups.values()]
+        .map(group => {
+            // A group is only as likely a duplicate as its weakest link, so that link gives both the score and the reason.
+            const weakest = group.links.reduce((worst, link) => link.score < worst.score ? link : worst);
+            return {
+                ids: sorted.filter(tx => group.ids.has(tx.id)).map(tx => tx.id),
+                score: weakest.score,
+                reason: weakest.reason,
+            };
+        })
+        .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,145 @@
+import { Account, AnalysisDimension, Session } from '../types';
+import { buildTrialBalance, TrialBalanceRow } from './trialBalance';
+import { rollUpByCode } from './accountHierarchy';
+import { filterSessionsByDimension } from './dimensions';
+import { round2 } from '../utils';
+
+interface StatementSectionDefinition {
+    label: string;
+    matches: (row: TrialBalanceRow) => boolean;
+    sign: 1 | -1; // 1 shows debit balances as positive, -1 shows credit balances as positive
+    hideWhenEmpty?: boolean; // Left out of multi-column reports when no column has a line in it
+}
+
+// Codes are compared by their leading number, so "999" comes before "1500" and "5100-01" is a cost of sales account.
+const codeNumber = (code: string) => parseInt(code, 10);
+const inCodeRange = (code: string, from: number, to: number) => codeNumber(code) >= from && codeNumber(code) <= to;
+const isCurrentAsset = (code: string) => codeNumber(code) < 1500;
+
+/**
+ * Profit & loss sections. Expenses are split by the usual code ranges: 5000-5999 cost of sales, 6000-6999 operating
+ * expenses; anything else of type Expense is shown as other expenses.
+ */
+const PROFIT_AND_LOSS_SECTIONS: StatementSectionDefinition[] = [
+    { label: 'Revenue', matches: row => row.type === 'Revenue', sign: -1 },
+    { label: 'Cost of Sales', matches: row => row.type === 'Expense' && inCodeRange(row.code, 5000, 5999), sign: 1 },
+    { label: 'Operating Expenses', matches: row => row.type === 'Expense' && inCodeRange(row.code, 6000, 6999), sign: 1 },
+    { label: 'Other Expenses', matches: row => row.type === 'Expense' && !inCodeRange(row.code, 5000, 6999), sign: 1, hideWhenEmpty: true },
+];
+
+/** Balance sheet sections; assets are split into current (below 1500) and non-current by code. */
+const BALANCE_SHEET_SECTIONS: StatementSectionDefinition[] = [
+    { label: 'Current Assets', matches: row => row.type === 'Asset' && isCurrentAsset(row.code), sign: 1 },
+    { label: 'Non-Current Assets', matches: row => row.type === 'Asset' && !isCurrentAsset(row.code), sign: 1 },
+    { label: 'Liabilities', matches: row => row.type === 'Liability', sign: -1 },
+    { label: 'Equity', matches: row => row.type === 'Equity', sign: -1 },
+];
+
+export interface StatementLine {
+    code: string;
+    name: string;
+    amount: number; // For parent accounts, includes every sub-account in the same section
+    depth: number;
+    isRollUp: boolean;
+}
+
+export interface StatementSection {
+    label: string;
+    lines: StatementLine[];
+    total: number;
+    hideWhenEmpty?: boolean;
+}
+
+export interface ProfitAndLoss {
+    fromPeriod: string;
+    toPeriod: string;
+    sections: StatementSection[];
+    totalRevenue: number;
+    grossProfit: number;
+    netProfit: number;
+}
+
+export interface ProfitAndLossByDimension {
+    dimension: AnalysisDimension;
+    columns: { valueId: string | null; label: string; profitAndLoss: ProfitAndLoss }[]; // One per value, then lines with no value
+    total: ProfitAndLoss;
+}
+
+export interface BalanceSheet {
+    asAtPeriod: string;
+    sections: StatementSection[];
+    retainedEarnings: number; // Profit of earlier years not yet closed to an equity account
+    currentYearProfit: number;
+    totalAssets: number;
+    totalLiabilities: number;
+    totalEquity: number;
+    suspenseBalance: number; // Debit positive; anything other than zero still needs to be reclassified
+    isBalanced: boolean;
+}
+
+// Sub-accounts roll up within a section; a sub-account whose code falls in another section is shown and totalled there.
+const buildSections = (definitions: StatementSectionDefinition[], rows: TrialBalanceRow[], amountOf: (row: TrialBalanceRow) => number): StatementSection[] =>
+    definitions.map(definition => {
+        const sectionRows = rows.filter(definition.matches);
+        const lines = rollUpByCode(sectionRows, row => [definition.sign * amountOf(row)])
+            .map(({ row, depth, hasChildren, rolledUp }) => ({ code: row.code, name: row.name, amount: rolledUp[0], depth, isRollUp: hasChildren }))
+            .filter(line => line.amount !== 0);
+        return { label: definition.label, lines, total: round2(sectionRows.reduce((sum, row) => sum + definition.sign * amountOf(row), 0)), hideWhenEmpty: definition.hideWhenEmpty };
+    });
+
+const sectionTotal = (sections: StatementSection[], label: string) => sections.find(s => s.label === label)?.total || 0;
+
+const isProfitAndLossType = (type: string) => type === 'Revenue' || type === 'Expense';
+
+/** Profit & loss for the movement in the periods from `fromPeriod` to `toPeriod`, before any year-end close. */
+export const buildProfitAndLoss = (sessions: Session[], accounts: Account[], fromPeriod: string, toPeriod: string): ProfitAndLoss => {
+    const rows = buildTrialBalance(sessions, accounts, fromPeriod, toPeriod, { excludeYearEndClose: true }).groups.flatMap(group => group.rows);
+    const sections = buildSections(PROFIT_AND_LOSS_SECTIONS, rows, row => row.debit - row.credit);
+    const totalRevenue = sectionTotal(sections, 'Revenue');
+    const grossProfit = round2(totalRevenue - sectionTotal(sections, 'Cost of Sales'));
+    const netProfit = round2(grossProfit - sectionTotal(sections, 'Operating Expenses') - sectionTotal(sections, 'Other Expenses'));
+    return { fromPeriod, toPeriod, sections, totalRevenue, grossProfit, netProfit };
+};
+
+/**
+ * Profit & loss with a column per value of an analysis dimension. Lines without a value for the dimension are shown
+ * as "Unassigned", so the columns add up to the total.
+ */
+export const buildProfitAndLossByDimension = (sessions: Session[], accounts: Account[], dimension: AnalysisDimension, fromPeriod: string, toPeriod: string): ProfitAndLossByDimension => ({
+    dimension,
+    columns: [...dimension.values.map(v => ({ valueId: v.id, label: `${v.code} - ${v.name}` })), { valueId: null, label: 'Unassigned' }]
+        .map(column => ({ ...column, profitAndLoss: buildProfitAndLoss(filterSessionsByDimension(sessions, dimension.id, column.valueId), accounts, fromPeriod, toPeriod) })),
+    total: buildProfitAndLoss(sessions, accounts, fromPeriod, toPeriod),
+});
+
+/**
+ * Balance sheet at the end of `asAtPeriod`. Revenue and expense balances are not listed; instead the profit of the
+ * year starting at `yearStartPeriod` is shown in equity as current-year profit and anything earlier as retained
+ * earnings.
+ */
+export const buildBalanceSheet = (sessions: Session[], accounts: Account[], yearStartPeriod: string, asAtPeriod: string): BalanceSheet => {
+    const rows = buildTrialBalance(sessions, accounts, yearStartPeriod, asAtPeriod).groups.flatMap(group => group.rows);
+    const sections = buildSections(BALANCE_SHEET_SECTIONS, rows, row => row.closingBalance);
+
+    const profitRows = rows.filter(row => isProfitAndLossType(row.type));
+    const retainedEarnings = round2(-profitRows.reduce((sum, row) => sum + row.openingBalance, 0));
+    const currentYearProfit = round2(-profitRows.reduce((sum, row) => sum + row.debit - row.credit, 0));
+    const suspenseBalance = round2(rows.filter(row => row.type === 'Suspense').reduce((sum, row) => sum + row.closingBalance, 0));
+
+    const totalAssets = round2(sectionTotal(sections, 'Current Assets') + sectionTotal(sections, 'Non-Current Assets'));
+    const totalLiabilities = sectionTotal(sections, 'Liabilities');
+    const totalEquity = round2(sectionTotal(sections, 'Equity') + retainedEarnings + currentYearProfit);
+
+    return {
+        asAtPeriod,
+        sections,
+        retainedEarnings,
+        currentYearProfit,
+        totalAssets,
+        totalLiabilities,
+        totalEquity,
+        suspenseBalance,
+        // The suspense balance is part of the books, so it is counted on the side it sits on.
+        isBalanced: Math.abs(totalAssets + suspenseBalance - totalLiabilities - totalEquity) < 0.005,
+    };
+};
@@ -0,0 +1,154 @@
+export type FiscalCalendarKind = 'monthly' | '4-4-5' | '4-5-4' | '5-4-4';
+
+export interface FiscalCalendar {
+    kind: FiscalCalendarKind;
+    startMonth: number; // 1-12, the month the fiscal year starts in
+    weekStartsOn: number; // 0 (Sunday) - 6 (Saturday); only used by the week-based kinds
+}
+
+export interface FiscalPeriod {
+    key: string; // Stored as Session.period
+    label: string;
+    fiscalYear: number; // Named after the calendar year the fiscal year ends in, e.g. July 2024 - June 2025 is 2025
+    index: number; // 1-12 within the fiscal year
+    startDate: string; // YYYY-MM-DD
+    endDate: string;
+}
+
+export const DEFAULT_FISCAL_CALENDAR: FiscalCalendar = { kind: 'monthly', startMonth: 1, weekStartsOn: 1 };
+
+const STORAGE_KEY = 'aiBookkeeper_fiscalCalendar';
+
+export const loadFiscalCalendar = (): FiscalCalendar => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored ? { ...DEFAULT_FISCAL_CALENDAR, ...JSON.parse(stored) } : DEFAULT_FISCAL_CALENDAR;
+    } catch (e) {
+        console.error("Could not load the fiscal calendar from local storage.", e);
+        return DEFAULT_FISCAL_CALENDAR;
+    }
+};
+
+export const saveFiscalCalendar = (calendar: FiscalCalendar) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(calendar));
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_PATTERNS: Record<Exclude<FiscalCalendarKind, 'monthly'>, number[]> = {
+    '4-4-5': [4, 4, 5],
+    '4-5-4': [4, 5, 4],
+    '5-4-4': [5, 4, 4],
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const toDate = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const toIso = (date: Date) => date.toISOString().slice(0, 10);
+const addDays = (iso: string, days: number) => toIso(new Date(toDate(iso).getTime() + days * DAY_MS));
+const monthKey = (year: number, month: number) => `${year}-${pad(month)}`;
+const lastDayOfMonth = (year: number, month: number) => toIso(new Date(Date.UTC(year, month, 0)));
+
+/** The calendar year and month a fiscal year starts in. */
+const fiscalYearStartMonth = (calendar: FiscalCalendar, fiscalYear: number) => ({
+    year: calendar.startMonth === 1 ? fiscalYear : fiscalYear - 1,
+    month: calendar.startMonth,
+});
+
+/**
+ * First day of a week-based fiscal year: the `weekStartsOn` day nearest to the 1st of the start month, so years are
+ * 52 weeks long with an occasional 53-week year.
+ */
+const weekYearStartDate = (calendar: FiscalCalendar, fiscalYear: number) => {
+    const { year, month } = fiscalYearStartMonth(calendar, fiscalYear);
+    const nominal = toDate(`${monthKey(year, month)}-01`);
+    let offset = (calendar.weekStartsOn - nominal.getUTCDay() + 7) % 7;
+    if (offset > 3) offset -= 7;
+    return toIso(new Date(nominal.getTime() + offset * DAY_MS));
+};
+
+const isMonthly = (calendar: FiscalCalendar) => calendar.kind === 'monthly';
+
+const monthlyPeriod = (calendar: FiscalCalendar, year: number, month: number): FiscalPeriod => {
+    const index = ((month - calendar.startMonth + 12) % 12) + 1;
+    const fiscalYear = calendar.startMonth === 1 || month < calendar.startMonth ? year : year + 1;
+    const key = monthKey(year, month);
+    return {
+        key,
+        label: calendar.startMonth === 1 ? key : `FY${fiscalYear} P${pad(index)} (${MONTH_NAMES[month - 1]} ${year})`,
+        fiscalYear,
+        index,
+        startDate: `${key}-01`,
+        endDate: lastDayOfMonth(year, month),
+    };
+};
+
+/** Every period of a fiscal year, in order. */
+export const getFiscalYearPeriods = (calendar: FiscalCalendar, fiscalYear: number): FiscalPeriod[] => {
+    if (isMonthly(calendar)) {
+        const { year, month } = fiscalYearStartMonth(calendar, fiscalYear);
+        return Array.from({ length: 12 }, (_, i) => monthlyPeriod(calendar, year + Math.floor((month - 1 + i) / 12), ((month - 1 + i) % 12) + 1));
+    }
+
+    const pattern = WEEK_PATTERNS[calendar.kind as keyof typeof WEEK_PATTERNS];
+    const yearStart = weekYearStartDate(calendar, fiscalYear);
+    const nextYearStart = weekYearStartDate(calendar, fiscalYear + 1);
+    let start = yearStart;
+    return Array.from({ length: 12 }, (_, i) => {
+        const index = i + 1;
+        // A 53rd week is added to the last period of the year.
+        const endDate = index === 12 ? addDays(nextYearStart, -1) : addDays(start, pattern[i % 3] * 7 - 1);
+        const period: FiscalPeriod = {
+            key: `FY${fiscalYear}-P${pad(index)}`,
+            label: `FY${fiscalYear} P${pad(index)} (${start} to ${endDate})`,
+            fiscalYear,
+            index,
+            startDate: start,
+            endDate,
+        };
+        start = addDays(endDate, 1);
+        return period;
+    });
+};
+
+/** Reads a stored period key under the calendar; returns null when the key does not belong to it. */
+export const getFiscalPeriod = (calendar: FiscalCalendar, key: string): FiscalPeriod | null => {
+    if (isMonthly(calendar)) {
+        const match = key.match(/^(\d{4})-(\d{2})$/);
+        if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) return null;
+        return monthlyPeriod(calendar, Number(match[1]), Number(match[2]));
+    }
+    const match = key.match(/^FY(\d{4})-P(\d{2})$/);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) return null;
+    return getFiscalYearPeriods(calendar, Number(match[1]))[Number(match[2]) - 1];
+};
+
+export const isValidPeriodKey = (calendar: FiscalCalendar, key: string) => getFiscalPeriod(calendar, key) !== null;
+
+/** Label for a stored period key; keys from a previous calendar are shown as they are. */
+export const getPeriodLabel = (calendar: FiscalCalendar, key: string) => getFiscalPeriod(calendar, key)?.label || key;
+
+/** The period containing a date (YYYY-MM-DD). */
+export const getPeriodForDate = (calendar: FiscalCalendar, date: string): FiscalPeriod => {
+    const [year, month] = date.split('-').map(Number);
+    if (isMonthly(calendar)) return monthlyPeriod(calendar, year, month);
+    // The fiscal year containing a date ends in the same calendar year or the one after it.
+    for (const fiscalYear of [year, year + 1, year - 1]) {
+        const found = getFiscalYearPeriods(calendar, fiscalYear).find(p => p.startDate <= date && p.endDate >= date);
+        if (found) return found;
+    }
+    throw new Error(`No fiscal period contains ${date}.`);
+};
+
+export const getNextPeriodKey = (calendar: FiscalCalendar, key: string) => {
+    const period = getFiscalPeriod(calendar, key);
+    if (!period) throw new Error(`Period ${key} does not belong to the current fiscal calendar.`);
+    return getPeriodForDate(calendar, addDays(period.endDate, 1)).key;
+};
+
+export const getCurrentPeriodKey = (calendar: FiscalCalendar) => getPeriodForDate(calendar, toIso(new Date())).key;
+
+/** Key of the first period of the fiscal year a period belongs to. */
+export const getFiscalYearStartKey = (calendar: FiscalCalendar, key: string) => {
+    const period = getFiscalPeriod(calendar, key);
+    return period ? getFiscalYearPeriods(calendar, period.fiscalYear)[0].key : key;
+};
@@ -0,0 +1,64 @@
+import { Account, JournalEntry, JournalLine } from '../types';
+import { round2 } from '../utils';
+
+// Accounts whose balance normally sits on the debit side; the rest (Liability, Equity, Revenue) are credit-normal.
+const DEBIT_NORMAL_TYPES = ['Asset', 'Expense', 'Suspense'];
+
+export const isDebitNormal = (type: string) => DEBIT_NORMAL_TYPES.includes(type);
+
+/** Net debit (positive) or credit (negative) posted to an account by a set of journals. */
+export const netPostings = (journalEntries: JournalEntry[], accountId: string, filter?: (entry: JournalEntry) => boolean) => round2(
+    journalEntries
+        .filter(entry => !filter || filter(entry))
+        .flatMap(entry => entry.lines)
+        .filter(line => line.accountId === accountId)
+        .reduce((sum, line) => sum + (line.debit || 0) - (line.credit || 0), 0)
+);
+
+export interface LedgerLine {
+    entry: JournalEntry;
+    line: JournalLine;
+    balance: number; // Running balance after this line, debit positive
+}
+
+export interface AccountLedger {
+    openingBalance: number;
+    lines: LedgerLine[];
+    totalDebit: number;
+    totalCredit: number;
+    closingBalance: number;
+}
+
+/**
+ * Lists every posting to an account in date order with a running balance. Postings dated before the range are
+ * folded into the opening balance; balances are debit positive and credit negative. Opening-balance entries are
+ * left out, as `broughtForward` already includes them.
+ */
+export const buildAccountLedger = (account: Account, journalEntries: JournalEntry[], broughtForward: number, range: { from?: string, to?: string } = {}): AccountLedger => {
+    const postings = journalEntries
+        .filter(entry => !entry.isOpeningBalance)
+        .flatMap(entry => entry.lines.filter(line => line.accountId === account.id).map(line => ({ entry, line })))
+        .sort((a, b) => a.entry.date.localeCompare(b.entry.date));
+
+    let balance = broughtForward;
+    const lines: LedgerLine[] = [];
+    let totalDebit = 0;
+    let totalCredit = 0;
+    postings.forEach(({ entry, line }) => {
+        if (range.to && entry.date > range.to) return;
+        balance = round2(balance + (line.debit || 0) - (line.credit || 0));
+        if (range.from && entry.date < range.from) return;
+        totalDebit += line.debit || 0;
+        totalCredit += line.credit || 0;
+        lines.push({ entry, line, balance });
+    });
+
+    const closingBalance = balance;
+    return {
+        openingBalance: round2(closingBalance - totalDebit + totalCredit),
+        lines,
+        totalDebit: round2(totalDebit),
+        totalCredit: round2(totalCredit),
+        closingBalance,
+    };
+};
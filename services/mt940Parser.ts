@@ -0,0 +1,137 @@
+import { ParsedStatement, ParsedStatementLine } from '../types';
+
+type Mt940Field = { tag: string, value: string };
+
+// :61: value date (YYMMDD), optional booking date (MMDD), debit/credit mark, optional funds code, amount,
+// transaction type, customer reference, optional "//" bank reference and an optional supplementary details line.
+const STATEMENT_LINE_PATTERN = /^(\d{2})(\d{2})(\d{2})(\d{2})?(\d{2})?(RC|RD|EC|ED|C|D)([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+const BALANCE_PATTERN = /^([CD])(\d{2})(\d{2})(\d{2})([A-Z]{3})(\d+,\d*)/;
+
+const toYear = (yy: string) => 2000 + Number(yy);
+
+const parseMtAmount = (value: string) => parseFloat(value.replace(',', '.'));
+
+const splitFields = (text: string): Mt940Field[] => {
+    const fields: Mt940Field[] = [];
+    // Drop SWIFT envelope blocks such as "{1:...}{2:...}{4:" and the "-}" trailer.
+    const body = text.replace(/\{[1-3]:[^}]*\}/g, '').replace(/\{4:/g, '').replace(/-\}/g, '');
+    body.split(/\r?\n/).forEach(line => {
+        const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+        if (match) {
+            fields.push({ tag: match[1], value: match[2] });
+        } else if (fields.length > 0 && line.trim() && line.trim() !== '-') {
+            fields[fields.length - 1].value += `\n${line}`;
+        }
+    });
+    return fields;
+};
+
+const parseBalance = (value: string) => {
+    const match = value.trim().match(BALANCE_PATTERN);
+    if (!match) return null;
+    const amount = parseMtAmount(match[6]);
+    return {
+        amount: match[1] === 'D' ? -amount : amount,
+        date: `${toYear(match[2])}-${match[3]}-${match[4]}`,
+        currency: match[5],
+    };
+};
+
+/** Cleans a :86: narrative, including the "?20".."?63" sub-field layout used by many European banks. */
+const cleanNarrative = (value: string) => value
+    .replace(/\r?\n/g, '')
+    .replace(/\?\d{2}/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const parseStatementLine = (value: string): ParsedStatementLine | null => {
+    const match = value.match(STATEMENT_LINE_PATTERN);
+    if (!match) return null;
+    const [, yy, mm, dd, bookingMonth, bookingDay, mark, , rawAmount, , customerRef, bankRef, details] = match;
+
+    const valueDate = `${toYear(yy)}-${mm}-${dd}`;
+    let date = valueDate;
+    if (bookingMonth && bookingDay) {
+        // The booking date has no year; it can fall in the year before or after the value date around New Year.
+        let year = toYear(yy);
+        if (mm === '01' && bookingMonth === '12') year--;
+        if (mm === '12' && bookingMonth === '01') year++;
+        date = `${year}-${bookingMonth}-${bookingDay}`;
+    }
+
+    const amount = parseMtAmount(rawAmount);
+    if (isNaN(amount) || amount === 0) return null;
+    // A reversal of a credit (RC) takes money out of the account and a reversal of a debit (RD) puts it back.
+    const isDebit = mark === 'D' || mark === 'ED' || mark === 'RC';
+    const reference = customerRef.trim() && customerRef.trim().toUpperCase() !== 'NONREF' ? customerRef.trim() : bankRef?.trim();
+
+    return {
+        date,
+        valueDate,
+        description: details?.trim() || reference || '',
+        debit: isDebit ? amount : null,
+        credit: isDebit ? null : amount,
+        reference: reference || undefined,
+    };
+};
+
+/** Whether a text file is an MT940 statement rather than, say, a tab-delimited export: it has a ":20:" line and an account or transaction line. */
+export const looksLikeMt940 = (text: string) => /^:20:/m.test(text) && /^:(25|61):/m.test(text);
+
+/** Parses a SWIFT MT940 file. Every ":20:" starts a new statement, so multi-account and multi-day files are supported. */
+export const parseMt940 = (text: string): ParsedStatement[] => {
+    const statements: ParsedStatement[] = [];
+    let current: ParsedStatement | null = null;
+    let lastLine: ParsedStatementLine | null = null;
+
+    splitFields(text).forEach(({ tag, value }) => {
+        if (tag === '20') {
+            current = { lines: [] };
+            statements.push(current);
+            lastLine = null;
+            return;
+        }
+        if (!current) return;
+
+        switch (tag) {
+            case '25':
+                current.accountIdentifier = value.trim();
+                break;
+            case '60F':
+            case '60M': {
+                const balance = parseBalance(value);
+                if (balance) {
+                    current.openingBalance = balance.amount;
+                    current.currency = balance.currency;
+                }
+                lastLine = null;
+                break;
+            }
+            case '62F':
+            case '62M': {
+                const balance = parseBalance(value);
+                if (balance) {
+                    current.closingBalance = balance.amount;
+                    current.closingBalanceDate = balance.date;
+                    current.currency = current.currency || balance.currency;
+                }
+                lastLine = null;
+                break;
+            }
+            case '61':
+                lastLine = parseStatementLine(value);
+                if (lastLine) current.lines.push(lastLine);
+                break;
+            case '86': {
+                const narrative = cleanNarrative(value);
+                if (lastLine && narrative) lastLine.description = narrative;
+                break;
+            }
+        }
+    });
+
+    if (statements.every(s => s.lines.length === 0)) {
+        throw new Error("No transactions were found in the MT940 file.");
+    }
+    return statements;
+};
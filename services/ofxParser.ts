@@ -0,0 +1,84 @@
+import { ParsedStatement, ParsedStatementLine } from '../types';
+
+// OFX 1.x is SGML where leaf elements have no closing tag, OFX 2.x is XML. Reading leaf values up to the
+// next tag or line break and aggregates by their (always present) closing tags handles both.
+
+const decodeEntities = (value: string) => value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const readTag = (block: string, tag: string): string | undefined => {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    const value = match?.[1].trim();
+    return value ? decodeEntities(value) : undefined;
+};
+
+const readBlocks = (text: string, tag: string): string[] => {
+    const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+    return Array.from(text.matchAll(pattern), match => match[1]);
+};
+
+/** Converts an OFX date such as "20240105120000.000[-5:EST]" to YYYY-MM-DD. */
+export const parseOfxDate = (value?: string): string | null => {
+    const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const parseOfxAmount = (value?: string): number | null => {
+    if (!value) return null;
+    // Some banks export a comma as the decimal separator.
+    const normalised = value.includes('.') ? value.replace(/,/g, '') : value.replace(',', '.');
+    const amount = parseFloat(normalised.replace(/[^0-9.+-]/g, ''));
+    return isNaN(amount) ? null : amount;
+};
+
+const parseTransaction = (block: string): ParsedStatementLine | null => {
+    const date = parseOfxDate(readTag(block, 'DTPOSTED') || readTag(block, 'DTUSER'));
+    const amount = parseOfxAmount(readTag(block, 'TRNAMT'));
+    if (!date || amount === null || amount === 0) return null;
+
+    const name = readTag(block, 'NAME') || readTag(block, 'PAYEE');
+    const memo = readTag(block, 'MEMO');
+    let description = name || memo || readTag(block, 'TRNTYPE') || '';
+    if (name && memo && !name.toLowerCase().includes(memo.toLowerCase())) {
+        description = `${name} - ${memo}`;
+    }
+
+    return {
+        date,
+        description,
+        debit: amount < 0 ? Math.abs(amount) : null,
+        credit: amount > 0 ? amount : null,
+        externalId: readTag(block, 'FITID'),
+        reference: readTag(block, 'CHECKNUM') || readTag(block, 'REFNUM'),
+    };
+};
+
+const parseStatementBlock = (block: string): ParsedStatement => {
+    const accountBlock = readBlocks(block, 'BANKACCTFROM')[0] || readBlocks(block, 'CCACCTFROM')[0] || '';
+    const ledgerBlock = readBlocks(block, 'LEDGERBAL')[0];
+    const closingBalance = ledgerBlock ? parseOfxAmount(readTag(ledgerBlock, 'BALAMT')) : null;
+
+    return {
+        accountIdentifier: readTag(accountBlock, 'ACCTID'),
+        currency: readTag(block, 'CURDEF'),
+        ...(closingBalance !== null && { closingBalance }),
+        closingBalanceDate: ledgerBlock ? parseOfxDate(readTag(ledgerBlock, 'DTASOF')) || undefined : undefined,
+        lines: readBlocks(block, 'STMTTRN')
+            .map(parseTransaction)
+            .filter((line): line is ParsedStatementLine => line !== null),
+    };
+};
+
+/** Parses an OFX or QFX download into one statement per bank or credit card account it contains. */
+export const parseOfx = (text: string): ParsedStatement[] => {
+    const statementBlocks = [...readBlocks(text, 'STMTRS'), ...readBlocks(text, 'CCSTMTRS')];
+    const statements = (statementBlocks.length > 0 ? statementBlocks : [text]).map(parseStatementBlock);
+    if (statements.every(s => s.lines.length === 0)) {
+        throw new Error("No transactions were found in the OFX/QFX file.");
+    }
+    return statements;
+};
@@ -0,0 +1,135 @@
+import * as pdfjsLib from 'pdfjs-dist';
+// Bundled with the app like the OCR engine, so PDFs are read without going online.
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+const MAX_CHUNK_CHARS = 12000;
+const OVERLAP_LINES = 6;
+
+export interface PdfChunk {
+    pages: number[]; // 1-based page numbers whose rows should be extracted from this chunk
+    overlapPage?: number; // Page whose tail is repeated from the previous chunk for context
+    text: string;
+}
+
+// A row returned by the model for one chunk; "page" is read from the page markers in the chunk text.
+export interface PdfExtractedRow {
+    date?: string;
+    description?: string;
+    debit?: number | null;
+    credit?: number | null;
+    balance?: number | null;
+    page?: number;
+    ocrConfidence?: number;
+}
+
+export const loadPdfDocument = (fileBuffer: ArrayBuffer) => {
+    // Set worker source. It's crucial for performance and to avoid issues in some environments.
+    pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+    return pdfjsLib.getDocument({ data: fileBuffer }).promise;
+};
+
+/** Returns the text of every page in order, keeping the line breaks pdf.js reports. */
+export const extractPdfPageTexts = async (pdfDoc: pdfjsLib.PDFDocumentProxy): Promise<string[]> => {
+    const pages: string[] = [];
+    for (let i = 1; i <= pdfDoc.numPages; i++) {
+        const page = await pdfDoc.getPage(i);
+        const textContent = await page.getTextContent();
+        pages.push(textContent.items.map((item: any) => item.str + (item.hasEOL ? '\n' : ' ')).join('').trim());
+    }
+    return pages;
+};
+
+const pageMarker = (page: number) => `--- Page ${page} ---`;
+
+/**
+ * Groups pages into chunks that fit the model prompt. A chunk repeats the last few lines of the previous
+ * page so a transaction split across a page break is still seen whole; the repeats are removed on merge.
+ */
+export const buildPdfChunks = (pageTexts: string[], maxChars = MAX_CHUNK_CHARS): PdfChunk[] => {
+    const chunks: PdfChunk[] = [];
+    let current: PdfChunk | null = null;
+
+    const startChunk = (previousPage?: number) => {
+        const overlap = previousPage ? pageTexts[previousPage - 1].split('\n').slice(-OVERLAP_LINES).join('\n') : '';
+        current = {
+            pages: [],
+            overlapPage: overlap ? previousPage : undefined,
+            text: overlap ? `${pageMarker(previousPage!)}\n${overlap}\n` : '',
+        };
+        chunks.push(current);
+        return current;
+    };
+
+    pageTexts.forEach((pageText, index) => {
+        const page = index + 1;
+        const section = `${pageMarker(page)}\n${pageText}\n`;
+        let chunk: PdfChunk = current || startChunk();
+        if (chunk.pages.length > 0 && chunk.text.length + section.length > maxChars) {
+            chunk = startChunk(page - 1);
+        }
+        if (section.length <= maxChars) {
+            chunk.text += section;
+            chunk.pages.push(page);
+            return;
+        }
+        // A single oversized page is split on line boundaries; every part keeps the page's marker.
+        let part = '';
+        pageText.split('\n').forEach(line => {
+            if (part && part.length + line.length > maxChars) {
+                chunk.text += `${pageMarker(page)}\n${part}`;
+                if (!chunk.pages.includes(page)) chunk.pages.push(page);
+                chunk = startChunk();
+                part = '';
+            }
+            part += `${line}\n`;
+        });
+        chunk.text += `${pageMarker(page)}\n${part}`;
+        if (!chunk.pages.includes(page)) chunk.pages.push(page);
+    });
+
+    return chunks.filter(c => c.pages.length > 0);
+};
+
+const rowKey = (row: PdfExtractedRow) => [
+    String(row.date ?? '').trim(),
+    String(row.description ?? '').trim().toLowerCase().replace(/\s+/g, ' '),
+    Number(row.debit || 0).toFixed(2),
+    Number(row.credit || 0).toFixed(2),
+].join('|');
+
+/**
+ * Merges per-chunk results in document order. Rows a chunk returns for its overlap page are dropped when the
+ * previous chunk already produced the same row, matching one-for-one so genuine repeated charges survive.
+ */
+export const mergePdfChunkRows = (chunks: PdfChunk[], results: PdfExtractedRow[][]) => {
+    const merged: PdfExtractedRow[] = [];
+    const pagesWithRows = new Set<number>();
+
+    results.forEach((rows, index) => {
+        const chunk = chunks[index];
+        const previousRows = index > 0 ? results[index - 1] : [];
+        const available = new Map<string, number>();
+        if (chunk.overlapPage) {
+            previousRows.filter(r => r.page === chunk.overlapPage).forEach(r => {
+                available.set(rowKey(r), (available.get(rowKey(r)) || 0) + 1);
+            });
+        }
+
+        rows.forEach(row => {
+            const page = row.page && (chunk.pages.includes(row.page) || row.page === chunk.overlapPage) ? row.page : chunk.pages[0];
+            const key = rowKey(row);
+            if (page === chunk.overlapPage) {
+                const remaining = available.get(key) || 0;
+                if (remaining > 0) {
+                    available.set(key, remaining - 1);
+                    return;
+                }
+            }
+            merged.push({ ...row, page });
+            pagesWithRows.add(page);
+        });
+    });
+
+    const allPages = [...new Set(chunks.flatMap(c => c.pages))];
+    return { rows: merged, emptyPages: allPages.filter(p => !pagesWithRows.has(p)) };
+};
@@ -0,0 +1,101 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { PdfExtractedRow } from './pdfExtraction';
+// The OCR engine and its English data are bundled with the app, so scanned statements are read without going online.
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreSimdUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import engTrainedDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+const RENDER_SCALE = 2; // Roughly 150 DPI for a typical A4 statement, enough for Tesseract on small print
+const MIN_TEXT_CHARS = 20;
+
+export interface OcrLine {
+    text: string;
+    confidence: number; // 0-100, as reported by Tesseract
+}
+
+export interface OcrPage {
+    page: number;
+    text: string;
+    confidence: number;
+    lines: OcrLine[];
+}
+
+/** A page whose text layer is empty (or only a stray header) is treated as a scanned image. */
+export const findImageOnlyPages = (pageTexts: string[]) => pageTexts
+    .map((text, index) => ({ page: index + 1, chars: text.replace(/\s/g, '').length }))
+    .filter(p => p.chars < MIN_TEXT_CHARS)
+    .map(p => p.page);
+
+// Smallest module using a SIMD instruction; browsers without WebAssembly SIMD get the slower core.
+const WASM_SIMD_PROBE = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11]);
+
+const createOcrWorker = async () => {
+    // Loaded on first use, so the engine only weighs on imports that need OCR.
+    const { createWorker } = await import('tesseract.js');
+    return createWorker('eng', 1, {
+        workerPath: workerUrl,
+        corePath: WebAssembly.validate(WASM_SIMD_PROBE) ? coreSimdUrl : coreUrl,
+        // Tesseract appends "/eng.traineddata.gz"; the build keeps that file name (see vite.config.ts).
+        langPath: engTrainedDataUrl.slice(0, engTrainedDataUrl.lastIndexOf('/')),
+    });
+};
+
+const renderPage = async (pdfDoc: PDFDocumentProxy, pageNumber: number) => {
+    const page = await pdfDoc.getPage(pageNumber);
+    const viewport = page.getViewport({ scale: RENDER_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas rendering is not available in this browser.");
+    await page.render({ canvasContext: context, viewport }).promise;
+    return canvas;
+};
+
+/** Renders the given pages through pdf.js and recognises them with the in-browser Tesseract engine. */
+export const recognizePdfPages = async (pdfDoc: PDFDocumentProxy, pages: number[], onProgress?: (page: number, index: number) => void): Promise<OcrPage[]> => {
+    const worker = await createOcrWorker();
+    try {
+        const results: OcrPage[] = [];
+        for (const [index, page] of pages.entries()) {
+            onProgress?.(page, index);
+            const canvas = await renderPage(pdfDoc, page);
+            const { data } = await worker.recognize(canvas);
+            results.push({
+                page,
+                text: data.text.trim(),
+                confidence: Math.round(data.confidence),
+                lines: (data.lines || []).map(line => ({ text: line.text.trim(), confidence: Math.round(line.confidence) })),
+            });
+        }
+        return results;
+    } finally {
+        await worker.terminate();
+    }
+};
+
+const normalise = (value: string) => value.toLowerCase().replace(/[^a-z0-9.]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Finds the OCR line a transaction was read from, preferring lines that carry its amount, and returns that line's
+ * confidence. Falls back to the page confidence when no line can be matched.
+ */
+export const estimateRowConfidence = (row: PdfExtractedRow, ocrPage: OcrPage) => {
+    const amount = Number(row.debit || row.credit || 0);
+    const amountTexts = amount ? [amount.toFixed(2), amount.toLocaleString('en-US', { minimumFractionDigits: 2 })] : [];
+    const descriptionTokens = normalise(String(row.description ?? '')).split(' ').filter(t => t.length > 2);
+
+    let bestLine: OcrLine | null = null;
+    let bestScore = 0;
+    for (const line of ocrPage.lines) {
+        const text = normalise(line.text.replace(/,/g, ''));
+        const hasAmount = amountTexts.some(a => line.text.includes(a) || text.includes(a.replace(/,/g, '')));
+        const score = (hasAmount ? 10 : 0) + descriptionTokens.filter(t => text.includes(t)).length;
+        if (score > bestScore) {
+            bestLine = line;
+            bestScore = score;
+        }
+    }
+    return bestLine ? bestLine.confidence : ocrPage.confidence;
+};
@@ -0,0 +1,85 @@
+import { Account, JournalEntry, Session } from '../types';
+import { buildTrialBalance } from './trialBalance';
+import { FiscalCalendar, getFiscalPeriod, getNextPeriodKey, getPeriodLabel } from './fiscalCalendar';
+import { generateUUID } from '../utils';
+
+/** Finds the account with `code` in a chart, adding a copy of `template` (with a new id) when it is missing. */
+export const ensureAccountByCode = (accounts: Account[], code: string, template: Omit<Account, 'id' | 'code'>) => {
+    let account = accounts.find(a => a.code === code);
+    if (!account) {
+        account = { ...template, id: generateUUID(), code };
+        accounts.push(account);
+    }
+    return account;
+};
+
+export const isPeriodClosed = (session: Session | undefined) => !!session?.closedAt;
+
+/** Builds the entry that opens `nextPeriod` on `openingDate` with the closing balance of every account at the end of `period`. */
+export const buildOpeningBalanceEntry = (sessions: Session[], accounts: Account[], period: string, nextPeriod: string, openingDate: string): JournalEntry | null => {
+    const rows = buildTrialBalance(sessions, accounts, period, period).groups.flatMap(group => group.rows).filter(row => row.closingBalance !== 0);
+    const lines = rows.map(row => ({
+        id: generateUUID(),
+        accountId: row.accountId,
+        debit: row.closingBalance > 0 ? row.closingBalance : 0,
+        credit: row.closingBalance < 0 ? -row.closingBalance : 0,
+    }));
+
+    if (lines.length === 0) return null;
+    return {
+        id: generateUUID(),
+        date: openingDate,
+        description: `Opening balances brought forward from ${period}`,
+        refNo: `OB-${nextPeriod}`,
+        lines,
+        isOpeningBalance: true,
+    };
+};
+
+/**
+ * Writes the closing balances of `period` as the opening-balance entry of the next period, replacing any earlier one.
+ * The next period is created if it does not exist yet; a closed next period is never changed.
+ */
+export const carryForwardBalances = (allPeriods: Record<string, Session>, accounts: Account[], period: string, calendar: FiscalCalendar): Record<string, Session> => {
+    const nextPeriod = getNextPeriodKey(calendar, period);
+    if (isPeriodClosed(allPeriods[nextPeriod])) {
+        throw new Error(`${getPeriodLabel(calendar, nextPeriod)} is closed, so its opening balances cannot be replaced. Reopen it first.`);
+    }
+    const nextSession: Session = allPeriods[nextPeriod] || { id: nextPeriod, period: nextPeriod, timestamp: Date.now(), chartVersion: allPeriods[period].chartVersion, journalEntries: [], reconciledTransactions: [], statements: [] };
+
+    const entry = buildOpeningBalanceEntry(Object.values(allPeriods), accounts, period, nextPeriod, getFiscalPeriod(calendar, nextPeriod)!.startDate);
+    const journalEntries = [...(entry ? [entry] : []), ...nextSession.journalEntries.filter(je => !je.isOpeningBalance)];
+    return { ...allPeriods, [nextPeriod]: { ...nextSession, journalEntries } };
+};
+
+/**
+ * Closes a period: it is locked against journal and reconciliation changes, and its closing balances are carried
+ * into the next period. Returns the updated set of periods keyed by period.
+ */
+export const closePeriod = (allPeriods: Record<string, Session>, accounts: Account[], period: string, calendar: FiscalCalendar): Record<string, Session> => {
+    const session = allPeriods[period];
+    if (!session) throw new Error(`Period ${period} has not been saved yet.`);
+    const now = Date.now();
+    return carryForwardBalances({
+        ...allPeriods,
+        [period]: { ...session, closedAt: now, statusHistory: [...(session.statusHistory || []), { action: 'closed', timestamp: now }] },
+    }, accounts, period, calendar);
+};
+
+/**
+ * Reopens a closed period. The reason is kept in the period's status history. Later periods must be reopened first,
+ * since closing this period again rewrites the opening balances they were built on.
+ */
+export const reopenPeriod = (allPeriods: Record<string, Session>, period: string, reason: string, calendar: FiscalCalendar): Record<string, Session> => {
+    const session = allPeriods[period];
+    if (!session?.closedAt) return allPeriods;
+    const closedLater = Object.values(allPeriods).filter(s => s.period > period && isPeriodClosed(s)).map(s => s.period).sort();
+    if (closedLater.length > 0) {
+        throw new Error(`Later periods are closed. Reopen ${closedLater.reverse().map(p => getPeriodLabel(calendar, p)).join(', ')} first, latest first.`);
+    }
+    const { closedAt, ...rest } = session;
+    return {
+        ...allPeriods,
+        [period]: { ...rest, statusHistory: [...(session.statusHistory || []), { action: 'reopened', timestamp: Date.now(), reason }] },
+    };
+};
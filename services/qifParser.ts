@@ -0,0 +1,103 @@
+import { ParsedStatement, ParsedStatementLine, StatementDateFormat } from '../types';
+import { parseStatementAmount, parseStatementDate } from './spreadsheetImport';
+
+const TRANSACTION_SECTIONS = ['bank', 'cash', 'ccard', 'oth a', 'oth l'];
+
+type QifRecord = { [field: string]: string };
+
+// QIF dates are written like "01/05/2024", "1/ 5'24" or "2024-01-05".
+const normaliseQifDate = (value: string) => value.replace(/'/g, '/').replace(/\s+/g, '');
+
+const guessQifDateFormat = (records: QifRecord[]): StatementDateFormat => {
+    for (const record of records) {
+        const parts = normaliseQifDate(record.D || '').split(/[-/.]/).map(p => parseInt(p, 10));
+        if (parts.length < 3 || parts[0] > 31) continue;
+        if (parts[0] > 12) return 'DD/MM/YYYY';
+    }
+    // QIF originated in US software, so month-first is the convention when the dates are ambiguous.
+    return 'MM/DD/YYYY';
+};
+
+const isOpeningBalanceRecord = (record: QifRecord, index: number) =>
+    index === 0 && /^opening balance$/i.test((record.P || '').trim());
+
+const toStatement = (accountName: string | undefined, records: QifRecord[]): ParsedStatement => {
+    const dateFormat = guessQifDateFormat(records);
+    let openingBalance: number | undefined;
+    const lines: ParsedStatementLine[] = [];
+
+    records.forEach((record, index) => {
+        const amount = parseStatementAmount(record.T ?? record.U);
+        if (isOpeningBalanceRecord(record, index) && amount !== null) {
+            openingBalance = amount;
+            return;
+        }
+        const date = parseStatementDate(normaliseQifDate(record.D || ''), dateFormat);
+        if (!date || amount === null || amount === 0) return;
+
+        const payee = record.P?.trim();
+        const memo = record.M?.trim();
+        lines.push({
+            date,
+            description: payee && memo ? `${payee} - ${memo}` : payee || memo || '',
+            debit: amount < 0 ? Math.abs(amount) : null,
+            credit: amount > 0 ? amount : null,
+            reference: record.N?.trim() || undefined,
+        });
+    });
+
+    return { accountIdentifier: accountName, ...(openingBalance !== undefined && { openingBalance }), lines };
+};
+
+/** Parses a QIF export. Each "!Account" section becomes its own statement; category and memorised lists are ignored. */
+export const parseQif = (text: string): ParsedStatement[] => {
+    const statements: ParsedStatement[] = [];
+    let accountName: string | undefined;
+    let section = '';
+    let records: QifRecord[] = [];
+    let current: QifRecord = {};
+
+    const flushStatement = () => {
+        if (records.length > 0) statements.push(toStatement(accountName, records));
+        records = [];
+    };
+
+    text.split(/\r?\n/).forEach(rawLine => {
+        const line = rawLine.trimEnd();
+        if (!line) return;
+
+        if (line.startsWith('!')) {
+            const header = line.slice(1).toLowerCase();
+            if (header === 'account') {
+                flushStatement();
+                section = 'account';
+            } else if (header.startsWith('type:')) {
+                section = header.slice(5).trim();
+            } else {
+                section = header;
+            }
+            current = {};
+            return;
+        }
+
+        if (line === '^') {
+            if (section === 'account' && current.N) {
+                accountName = current.N;
+            } else if (TRANSACTION_SECTIONS.includes(section)) {
+                records.push(current);
+            }
+            current = {};
+            return;
+        }
+
+        const field = line[0];
+        // Split lines (S/E/$) repeat per split; only the first occurrence of a field is kept for the transaction.
+        if (current[field] === undefined) current[field] = line.slice(1);
+    });
+    flushStatement();
+
+    if (statements.every(s => s.lines.length === 0)) {
+        throw new Error("No bank transactions were found in the QIF file.");
+    }
+    return statements;
+};
@@ -0,0 +1,36 @@
+import { JournalEntry, ReconciledTransaction, Transaction } from '../types';
+import { netPostings } from './ledger';
+import { round2 } from '../utils';
+
+const TOLERANCE = 0.005;
+
+/** The part of its statement row a reconciliation covers. Records saved before amounts were kept cover the whole row. */
+export const getReconciledAmount = (rt: ReconciledTransaction) => rt.amount ?? rt.originalAmount;
+
+/** How much of a statement row its reconciliations cover, across every journal it is linked to. */
+export const getReconciledTotal = (txId: string, reconciledTransactions: ReconciledTransaction[]) =>
+    round2(reconciledTransactions.filter(rt => rt.id === txId).reduce((sum, rt) => sum + getReconciledAmount(rt), 0));
+
+/** The part of a statement row no journal covers yet. */
+export const getUnreconciledAmount = (tx: Transaction, reconciledTransactions: ReconciledTransaction[]) =>
+    round2(Math.max(tx.amount - getReconciledTotal(tx.id, reconciledTransactions), 0));
+
+/**
+ * How much of a statement row a journal covers: what it posts to the row's bank account, up to the part of the row
+ * still unreconciled. A journal that does not touch the bank account is taken to cover all of that part.
+ */
+export const getAmountCoveredByJournal = (entry: JournalEntry, bankAccountId: string, unreconciledAmount: number) => {
+    const posted = Math.abs(netPostings([entry], bankAccountId));
+    return posted > 0 ? Math.min(posted, unreconciledAmount) : unreconciledAmount;
+};
+
+/** A row is posted once its reconciliations add up to its amount exactly, and partial while they cover only some of it. */
+export const getReconciliationStatus = (tx: Transaction, reconciledTransactions: ReconciledTransaction[]): NonNullable<Transaction['reconciliationStatus']> => {
+    const reconciled = getReconciledTotal(tx.id, reconciledTransactions);
+    if (reconciled < TOLERANCE) return 'unposted';
+    return tx.amount - reconciled < TOLERANCE ? 'posted' : 'partial';
+};
+
+/** Sets the status of the given rows (or of every row) from their reconciliations. */
+export const withReconciliationStatus = (transactions: Transaction[], reconciledTransactions: ReconciledTransaction[], ids?: Set<string>) =>
+    transactions.map((tx): Transaction => !ids || ids.has(tx.id) ? { ...tx, reconciliationStatus: getReconciliationStatus(tx, reconciledTransactions) } : tx);
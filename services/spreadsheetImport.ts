@@ -0,0 +1,205 @@
+import { ColumnMapping, ColumnProfile, ParsedStatementLine, StatementDateFormat } from '../types';
+
+const PROFILES_STORAGE_KEY = 'aiBookkeeper_columnProfiles';
+const HEADER_SCAN_ROWS = 30;
+
+type MappedField = keyof ColumnMapping;
+
+// Order matters: specific columns are claimed before the generic "amount" column.
+const HEADER_KEYWORDS: [MappedField, string[]][] = [
+    ['date', ['transaction date', 'trans date', 'txn date', 'posting date', 'post date', 'booking date', 'date']],
+    ['description', ['description', 'narration', 'narrative', 'details', 'particulars', 'memo', 'remarks', 'payee']],
+    ['debit', ['debit', 'withdrawal', 'withdrawals', 'money out', 'paid out', 'dr']],
+    ['credit', ['credit', 'deposit', 'deposits', 'lodgement', 'lodgements', 'money in', 'paid in', 'cr']],
+    ['balance', ['running balance', 'balance']],
+    ['amount', ['transaction amount', 'amount']],
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const normaliseCell = (cell: unknown) => String(cell ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+const keywordMatches = (cell: string, keyword: string) =>
+    // Short abbreviations such as "dr"/"cr" only count as an exact match.
+    keyword.length <= 2 ? cell === keyword || cell === `${keyword}.` : cell.includes(keyword);
+
+const fieldForCell = (cell: string, taken: Set<MappedField>): MappedField | null => {
+    if (!cell) return null;
+    for (const [field, keywords] of HEADER_KEYWORDS) {
+        if (taken.has(field)) continue;
+        if (keywords.some(k => keywordMatches(cell, k))) return field;
+    }
+    return null;
+};
+
+export const getHeaderSignature = (header: unknown[]) => header.map(normaliseCell).join('|');
+
+/** Finds the row most likely to be the column header, skipping bank letterhead rows above the table. */
+export const detectHeaderRow = (rows: unknown[][]): number => {
+    let bestIndex = 0;
+    let bestScore = 1;
+    rows.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+        const taken = new Set<MappedField>();
+        row.forEach(cell => {
+            const field = fieldForCell(normaliseCell(cell), taken);
+            if (field) taken.add(field);
+        });
+        if (taken.size > bestScore) {
+            bestScore = taken.size;
+            bestIndex = index;
+        }
+    });
+    return bestIndex;
+};
+
+export const guessColumnMapping = (header: unknown[]): ColumnMapping => {
+    const mapping: ColumnMapping = {};
+    const taken = new Set<MappedField>();
+    header.forEach((cell, index) => {
+        const field = fieldForCell(normaliseCell(cell), taken);
+        if (field) {
+            mapping[field] = index;
+            taken.add(field);
+        }
+    });
+    if (mapping.debit !== undefined && mapping.credit !== undefined) delete mapping.amount;
+    return mapping;
+};
+
+/** Guesses day/month order by looking for a date component that can only be a day (greater than 12). */
+export const guessDateFormat = (rows: unknown[][], dateColumn?: number): StatementDateFormat => {
+    if (dateColumn === undefined) return 'DD/MM/YYYY';
+    for (const row of rows) {
+        const value = String(row[dateColumn] ?? '').trim();
+        if (/^\d{4}[-/.]\d{1,2}[-/.]\d{1,2}/.test(value)) return 'YYYY-MM-DD';
+        const parts = value.split(/[-/.\s]/).map(p => parseInt(p, 10));
+        if (parts.length < 3 || parts.some(isNaN)) continue;
+        if (parts[0] > 12) return 'DD/MM/YYYY';
+        if (parts[1] > 12) return 'MM/DD/YYYY';
+    }
+    return 'DD/MM/YYYY';
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+    if (year < 100) year += 2000;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date.toISOString().split('T')[0];
+};
+
+export const parseStatementDate = (value: unknown, format: StatementDateFormat): string | null => {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number') {
+        // Excel stores dates as serial day numbers counted from 1899-12-30.
+        if (value < 20000 || value > 80000) return null;
+        return new Date(Math.round((value - 25569) * 86400000)).toISOString().split('T')[0];
+    }
+
+    const text = String(value).trim();
+    const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    if (iso) return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+    // Formats like "05 Jan 2024", "05-Jan-24" or "Jan 5, 2024".
+    const named = text.match(/^(\d{1,2})[-\s/]([a-z]{3})[a-z]*[-\s/,]+(\d{2,4})$/i) || text.match(/^([a-z]{3})[a-z]*[-\s/](\d{1,2}),?[-\s/]+(\d{2,4})$/i);
+    if (named) {
+        const [dayPart, monthPart] = /^\d/.test(named[1]) ? [named[1], named[2]] : [named[2], named[1]];
+        const month = MONTHS.indexOf(monthPart.toLowerCase()) + 1;
+        return month > 0 ? toIsoDate(Number(named[3]), month, Number(dayPart)) : null;
+    }
+
+    const parts = text.split(/[-/.\s]+/).map(p => parseInt(p, 10));
+    if (parts.length < 3 || parts.slice(0, 3).some(isNaN)) return null;
+    return format === 'MM/DD/YYYY'
+        ? toIsoDate(parts[2], parts[0], parts[1])
+        : toIsoDate(parts[2], parts[1], parts[0]);
+};
+
+/** Parses bank-formatted amounts such as "1,250.00", "(300.00)", "45.10-" or "100.00 DR" into a signed number. */
+export const parseStatementAmount = (value: unknown): number | null => {
+    if (value === null || value === undefined || value === '') return null;
+    if (typeof value === 'number') return isNaN(value) ? null : value;
+
+    let text = String(value).trim();
+    if (!text) return null;
+    let negative = false;
+    if (/^\(.*\)$/.test(text)) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+    if (/\bDR\.?$/i.test(text)) negative = true;
+    if (/^-|-$/.test(text.replace(/\s*(CR|DR)\.?$/i, ''))) negative = true;
+
+    const digits = text.replace(/[^0-9.]/g, '');
+    if (!digits) return null;
+    const amount = parseFloat(digits);
+    if (isNaN(amount)) return null;
+    return negative ? -amount : amount;
+};
+
+/** Converts spreadsheet rows below the header into statement lines using a saved column profile. No row limit is applied. */
+export const applyColumnProfile = (rows: unknown[][], headerRowIndex: number, profile: Pick<ColumnProfile, 'mapping' | 'dateFormat' | 'negativeAmountIs'>) => {
+    const { mapping, dateFormat, negativeAmountIs } = profile;
+    const lines: ParsedStatementLine[] = [];
+    let skipped = 0;
+
+    rows.slice(headerRowIndex + 1).forEach(row => {
+        if (!row || row.every(cell => cell === null || cell === undefined || String(cell).trim() === '')) return;
+
+        const date = mapping.date !== undefined ? parseStatementDate(row[mapping.date], dateFormat) : null;
+        if (!date) {
+            skipped++;
+            return;
+        }
+
+        let debit: number | null = null;
+        let credit: number | null = null;
+        if (mapping.amount !== undefined) {
+            const amount = parseStatementAmount(row[mapping.amount]);
+            if (amount !== null && amount !== 0) {
+                const isNegative = amount < 0;
+                if (isNegative === (negativeAmountIs === 'debit')) debit = Math.abs(amount);
+                else credit = Math.abs(amount);
+            }
+        } else {
+            const debitValue = mapping.debit !== undefined ? parseStatementAmount(row[mapping.debit]) : null;
+            const creditValue = mapping.credit !== undefined ? parseStatementAmount(row[mapping.credit]) : null;
+            if (debitValue) debit = Math.abs(debitValue);
+            else if (creditValue) credit = Math.abs(creditValue);
+        }
+
+        if (debit === null && credit === null) {
+            skipped++;
+            return;
+        }
+
+        const balance = mapping.balance !== undefined ? parseStatementAmount(row[mapping.balance]) : null;
+        lines.push({
+            date,
+            description: mapping.description !== undefined ? String(row[mapping.description] ?? '').trim() : '',
+            debit,
+            credit,
+            ...(balance !== null && { balance }),
+        });
+    });
+
+    return { lines, skipped };
+};
+
+export const loadColumnProfiles = (): ColumnProfile[] => {
+    try {
+        const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch (e) {
+        console.error("Could not load column profiles from local storage.", e);
+        return [];
+    }
+};
+
+export const saveColumnProfiles = (profiles: ColumnProfile[]) => {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+export const findColumnProfile = (profiles: ColumnProfile[], bankAccountId: string, header: unknown[]) => {
+    const signature = getHeaderSignature(header);
+    return profiles.find(p => p.bankAccountId === bankAccountId && p.headerSignature === signature);
+};
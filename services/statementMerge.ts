@@ -0,0 +1,59 @@
+import { Transaction } from '../types';
+
+/**
+ * Identifies the same bank line across overlapping exports. The bank's own transaction id is used when both
+ * copies carry one; otherwise the account, bank reference, date, amount, direction and normalised description must agree.
+ */
+const rowKey = (tx: Transaction) => tx.externalId
+    ? `${tx.bankAccountId}|id|${tx.externalId}`
+    : [tx.bankAccountId, tx.reference || '', tx.date, tx.amount.toFixed(2), tx.type, tx.description.toLowerCase().replace(/\s+/g, ' ').trim()].join('|');
+
+/**
+ * Adds the rows of one statement file to the working set. A row already imported from another file is collapsed
+ * into the existing row, which gains a link to the new file. Matching is one-for-one, so two identical charges in
+ * one file only absorb two copies from another file, and rows are never collapsed with rows of the same file.
+ */
+export const mergeStatementRows = (existing: Transaction[], incoming: Transaction[], fileId: string) => {
+    const candidates = new Map<string, number[]>();
+    existing.forEach((tx, index) => {
+        if (tx.sources?.some(s => s.fileId === fileId)) return;
+        const key = rowKey(tx);
+        candidates.set(key, [...(candidates.get(key) || []), index]);
+    });
+
+    const merged = [...existing];
+    const added: Transaction[] = [];
+    let collapsed = 0;
+    incoming.forEach(tx => {
+        const source = tx.sources?.find(s => s.fileId === fileId);
+        const match = candidates.get(rowKey(tx))?.shift();
+        if (match === undefined || !source) {
+            added.push(tx);
+            return;
+        }
+        const current = merged[match];
+        merged[match] = {
+            ...current,
+            sources: [...(current.sources || []), source],
+            // Fill in details the earlier export did not have.
+            balance: current.balance ?? tx.balance,
+            reference: current.reference ?? tx.reference,
+            valueDate: current.valueDate ?? tx.valueDate,
+        };
+        collapsed++;
+    });
+
+    return { transactions: [...merged, ...added], collapsed };
+};
+
+/** The rows of one statement file in the order they appear in the file. */
+export const getStatementFileRows = (transactions: Transaction[], fileId: string) => transactions
+    .map(tx => ({ tx, line: tx.sources?.find(s => s.fileId === fileId)?.line }))
+    .filter((row): row is { tx: Transaction, line: number } => row.line !== undefined)
+    .sort((a, b) => a.line - b.line)
+    .map(row => row.tx);
+
+/** Detaches a statement file from the working set, dropping rows that no other file contains. */
+export const removeStatementFileRows = (transactions: Transaction[], fileId: string) => transactions
+    .map(tx => tx.sources?.some(s => s.fileId === fileId) ? { ...tx, sources: tx.sources.filter(s => s.fileId !== fileId) } : tx)
+    .filter(tx => !tx.sources || tx.sources.length > 0);
@@ -0,0 +1,111 @@
+import { ReconciledTransaction, Session, Transaction } from '../types';
+
+const FINGERPRINT_PREFIX = 'fp-';
+
+// 53-bit string hash (cyrb53); collisions are negligible at the size of a bank statement.
+const hash53 = (value: string) => {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < value.length; i++) {
+        const ch = value.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const normaliseDescription = (description: string) => description.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * The part of a row's identity that does not depend on its position. A bank-assigned id (OFX FITID, camt.053
+ * AcctSvcrRef) is unique per account, so the statement it came from does not matter; otherwise the source
+ * statement, the line's own reference and its date, amount, direction and description are combined.
+ */
+const fingerprintBase = (tx: Transaction, bankAccountId: string, statementKey: string) => tx.externalId
+    ? [bankAccountId, 'ref', tx.externalId].join('|')
+    : [bankAccountId, statementKey, tx.reference || '', tx.date, tx.amount.toFixed(2), tx.type, normaliseDescription(tx.description)].join('|');
+
+/**
+ * Identifies a statement by the dates its rows cover. It is read from the rows rather than the file, so importing
+ * the same statement again gives the same ids whatever the file is called.
+ */
+const getStatementKey = (transactions: Transaction[]) => {
+    const dates = transactions.map(tx => tx.date).sort();
+    return dates.length > 0 ? `${dates[0]}..${dates[dates.length - 1]}` : '';
+};
+
+/**
+ * Gives each row of one statement a stable id. Identical rows (e.g. two equal bank charges on the same day) are
+ * told apart by their occurrence index within the statement, in statement order.
+ */
+export const assignTransactionIds = <T extends Transaction>(transactions: T[], bankAccountId: string): T[] => {
+    const statementKey = getStatementKey(transactions);
+    const occurrences = new Map<string, number>();
+    return transactions.map(tx => {
+        const base = fingerprintBase(tx, bankAccountId, statementKey);
+        const occurrence = occurrences.get(base) || 0;
+        occurrences.set(base, occurrence + 1);
+        return { ...tx, id: `${FINGERPRINT_PREFIX}${hash53(`${base}#${occurrence}`)}` };
+    });
+};
+
+export const isLegacyTransactionId = (id: string) => !id.startsWith(FINGERPRINT_PREFIX);
+
+/** The id older versions gave a row: the bank-assigned id when present, otherwise date-description-amount-type. */
+export const getLegacyTransactionId = (tx: Transaction, bankAccountId: string) => tx.externalId
+    ? `${bankAccountId}-${tx.externalId}`
+    : `${tx.date}-${tx.description}-${tx.amount}-${tx.type}`;
+
+/**
+ * Re-points reconciliations saved under a legacy id at the matching row. Legacy ids were shared by identical rows,
+ * so each reconciliation claims the first matching row not already claimed, in statement order; any further
+ * identical rows stay unposted instead of inheriting a posting that belonged to another row.
+ */
+export const adoptLegacyReconciliations = (transactions: Transaction[], reconciledTransactions: ReconciledTransaction[]): ReconciledTransaction[] => {
+    if (!reconciledTransactions.some(rt => isLegacyTransactionId(rt.id))) return reconciledTransactions;
+
+    const claimed = new Set(reconciledTransactions.filter(rt => !isLegacyTransactionId(rt.id)).map(rt => rt.id));
+    const candidates = new Map<string, Transaction[]>();
+    transactions.forEach(tx => {
+        if (isLegacyTransactionId(tx.id) || !tx.bankAccountId) return;
+        const key = `${tx.bankAccountId}|${getLegacyTransactionId(tx, tx.bankAccountId)}`;
+        candidates.set(key, [...(candidates.get(key) || []), tx]);
+    });
+
+    let changed = false;
+    const adopted = reconciledTransactions.map(rt => {
+        if (!isLegacyTransactionId(rt.id)) return rt;
+        const rows = candidates.get(`${rt.bankAccountId}|${rt.id}`) || [];
+        const row = rows.find(tx => !claimed.has(tx.id));
+        if (!row) return rt; // The statement has not been imported again yet; it will be matched on import.
+        claimed.add(row.id);
+        changed = true;
+        return { ...rt, id: row.id };
+    });
+    return changed ? adopted : reconciledTransactions;
+};
+
+/**
+ * Moves a saved period from legacy ids to fingerprint ids: stored statement rows are re-identified per source file
+ * and the period's reconciliations are re-pointed at them. Returns the same object when nothing needed migrating.
+ */
+export const migrateSessionTransactionIds = (session: Session): Session => {
+    const statements = session.statements || [];
+    const needsMigration = statements.some(s => s.transactions.some(tx => isLegacyTransactionId(tx.id)));
+    if (!needsMigration) return session;
+
+    const migratedStatements = statements.map(({ file, transactions }) => {
+        const rows = transactions.map((tx, line) => ({ ...tx, bankAccountId: tx.bankAccountId || file.bankAccountId, sources: tx.sources?.length ? tx.sources : [{ fileId: file.id, line }] }));
+        const ordered = [...rows].sort((a, b) => a.sources[0].line - b.sources[0].line);
+        const ids = new Map(assignTransactionIds(ordered, file.bankAccountId).map((tx, index) => [ordered[index], tx.id]));
+        return { file, transactions: rows.map(tx => isLegacyTransactionId(tx.id) ? { ...tx, id: ids.get(tx)! } : tx) };
+    });
+
+    return {
+        ...session,
+        statements: migratedStatements,
+        reconciledTransactions: adoptLegacyReconciliations(migratedStatements.flatMap(s => s.transactions), session.reconciledTransactions || []),
+    };
+};
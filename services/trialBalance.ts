@@ -0,0 +1,167 @@
+import { Account, Session } from '../types';
+import { netPostings } from './ledger';
+import { rollUpByCode } from './accountHierarchy';
+import { round2 } from '../utils';
+
+// Order in which account types are listed on the trial balance and financial statements.
+export const ACCOUNT_TYPE_ORDER = ['Asset', 'Liability', 'Equity', 'Revenue', 'Expense', 'Suspense'];
+
+export interface TrialBalanceAmounts {
+    openingBalance: number; // Debit positive, brought forward from periods before the range
+    debit: number; // Movement within the range
+    credit: number;
+    closingBalance: number;
+}
+
+export interface TrialBalanceRow extends TrialBalanceAmounts {
+    accountId: string;
+    code: string;
+    name: string;
+    type: string;
+    parentCode?: string;
+    isHeader?: boolean;
+    depth: number; // Nesting level below parent accounts of the same type
+    rolledUp?: TrialBalanceAmounts; // Set on parent accounts: their own amounts plus those of every sub-account
+}
+
+export interface TrialBalanceGroup {
+    type: string;
+    rows: TrialBalanceRow[];
+    closingDebit: number;
+    closingCredit: number;
+}
+
+export interface TrialBalance {
+    fromPeriod: string;
+    toPeriod: string;
+    groups: TrialBalanceGroup[];
+    totalDebit: number;
+    totalCredit: number;
+    closingDebit: number;
+    closingCredit: number;
+    isBalanced: boolean;
+}
+
+/**
+ * Totals the journals of every saved period up to and including `toPeriod`. Periods before `fromPeriod` only
+ * contribute to the opening balance. Every period posts to the workspace chart of accounts, so rows are kept per
+ * account id and show the account's current code, name, type and parent. Within each type, rows are
+ * listed in tree order and parent accounts carry the totals of their sub-accounts in `rolledUp`; the type and grand
+ * totals only count each account's own amounts.
+ *
+ * An opening-balance entry restates every balance at the start of its period, so it replaces whatever was brought
+ * forward from earlier periods. Opening-balance entries inside the range after its first period are skipped, as the
+ * movements they restate are already counted.
+ *
+ * With `excludeYearEndClose` the year-end closing entry is left out of the movements, so revenue and expense
+ * accounts still show what they earned and spent in the year.
+ */
+export const buildTrialBalance = (sessions: Session[], accounts: Account[], fromPeriod: string, toPeriod: string, options: { excludeYearEndClose?: boolean } = {}): TrialBalance => {
+    const rows = new Map<string, TrialBalanceRow>(accounts.map(account => [account.id, {
+        accountId: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        parentCode: accounts.find(a => a.id === account.parentId)?.code,
+        isHeader: account.isHeader,
+        depth: 0,
+        openingBalance: 0,
+        debit: 0,
+        credit: 0,
+        closingBalance: 0,
+    }]));
+    const sorted = [...sessions]
+        .filter(session => session.period <= toPeriod)
+        .sort((a, b) => a.period.localeCompare(b.period));
+    const firstPeriodInRange = sorted.find(session => session.period >= fromPeriod)?.period || toPeriod;
+
+    sorted.forEach(session => {
+        const inRange = session.period >= fromPeriod;
+        const openingEntries = session.journalEntries.filter(entry => entry.isOpeningBalance);
+        const usesOpeningEntries = openingEntries.length > 0 && session.period <= firstPeriodInRange;
+        if (usesOpeningEntries) rows.forEach(row => { row.openingBalance = 0; });
+
+        rows.forEach((row, accountId) => {
+            if (usesOpeningEntries) row.openingBalance = round2(row.openingBalance + netPostings(openingEntries, accountId));
+            if (inRange) {
+                const lines = session.journalEntries.filter(entry => !entry.isOpeningBalance && !(options.excludeYearEndClose && entry.isYearEndClose)).flatMap(entry => entry.lines).filter(line => line.accountId === accountId);
+                row.debit = round2(row.debit + lines.reduce((sum, line) => sum + (line.debit || 0), 0));
+                row.credit = round2(row.credit + lines.reduce((sum, line) => sum + (line.credit || 0), 0));
+            } else {
+                row.openingBalance = round2(row.openingBalance + netPostings(session.journalEntries, accountId, entry => !entry.isOpeningBalance));
+            }
+        });
+    });
+
+    const allRows = [...rows.values()]
+        .map(row => ({ ...row, closingBalance: round2(row.openingBalance + row.debit - row.credit) }))
+        .sort((a, b) => a.code.localeCompare(b.code));
+
+    const types = [...ACCOUNT_TYPE_ORDER, ...new Set(allRows.map(row => row.type).filter(type => !ACCOUNT_TYPE_ORDER.includes(type)))];
+    const groups = types
+        .map(type => {
+            const groupRows = rollUpByCode(allRows.filter(row => row.type === type), row => [row.openingBalance, row.debit, row.credit, row.closingBalance])
+                // Accounts without balances are left out, unless one of their sub-accounts has one.
+                .filter(({ rolledUp }) => rolledUp[0] !== 0 || rolledUp[1] !== 0 || rolledUp[2] !== 0)
+                .map(({ row, depth, hasChildren, rolledUp }) => ({
+                    ...row,
+                    depth,
+                    rolledUp: hasChildren ? { openingBalance: rolledUp[0], debit: rolledUp[1], credit: rolledUp[2], closingBalance: rolledUp[3] } : undefined,
+                }));
+            return {
+                type,
+                rows: groupRows,
+                closingDebit: round2(groupRows.reduce((sum, row) => sum + Math.max(row.closingBalance, 0), 0)),
+                closingCredit: round2(groupRows.reduce((sum, row) => sum + Math.max(-row.closingBalance, 0), 0)),
+            };
+        })
+        .filter(group => group.rows.length > 0);
+
+    const totalDebit = round2(allRows.reduce((sum, row) => sum + row.debit, 0));
+    const totalCredit = round2(allRows.reduce((sum, row) => sum + row.credit, 0));
+    const closingDebit = round2(groups.reduce((sum, group) => sum + group.closingDebit, 0));
+    const closingCredit = round2(groups.reduce((sum, group) => sum + group.closingCredit, 0));
+
+    return {
+        fromPeriod,
+        toPeriod,
+        groups,
+        totalDebit,
+        totalCredit,
+        closingDebit,
+        closingCredit,
+        isBalanced: Math.abs(totalDebit - totalCredit) < 0.005 && Math.abs(closingDebit - closingCredit) < 0.005,
+    };
+};
+
+/**
+ * Flattens a trial balance into sheet rows for XLSX export, with a subtotal per account type and a grand total.
+ * Parent accounts show their rolled-up amounts and are marked, as adding them to their sub-accounts would count twice.
+ */
+export const trialBalanceToSheetRows = (trialBalance: TrialBalance) => {
+    const sheetRows: Record<string, string | number>[] = [];
+    trialBalance.groups.forEach(group => {
+        group.rows.forEach(row => {
+            const amounts = row.rolledUp || row;
+            sheetRows.push({
+                Type: row.type,
+                Code: row.code,
+                'Parent Code': row.parentCode || '',
+                Account: `${'    '.repeat(row.depth)}${row.name}`,
+                'Includes Sub-Accounts': row.rolledUp ? 'Yes' : '',
+                'Opening Balance': amounts.openingBalance,
+                'Period Debit': amounts.debit,
+                'Period Credit': amounts.credit,
+                'Closing Debit': amounts.closingBalance > 0 ? amounts.closingBalance : '',
+                'Closing Credit': amounts.closingBalance < 0 ? -amounts.closingBalance : '',
+            });
+        });
+        sheetRows.push({ Type: group.type, Code: '', 'Parent Code': '', Account: `Total ${group.type}`, 'Includes Sub-Accounts': '', 'Opening Balance': '', 'Period Debit': '', 'Period Credit': '', 'Closing Debit': group.closingDebit, 'Closing Credit': group.closingCredit });
+    });
+    sheetRows.push({ Type: '', Code: '', 'Parent Code': '', Account: 'Total', 'Includes Sub-Accounts': '', 'Opening Balance': '', 'Period Debit': trialBalance.totalDebit, 'Period Credit': trialBalance.totalCredit, 'Closing Debit': trialBalance.closingDebit, 'Closing Credit': trialBalance.closingCredit });
+    return sheetRows;
+};
+
+/** Balance of an account (by code) at the start of a period, debit positive. */
+export const getOpeningBalance = (sessions: Session[], accounts: Account[], period: string, accountCode: string) =>
+    buildTrialBalance(sessions, accounts, period, period).groups.flatMap(group => group.rows).find(row => row.code === accountCode)?.openingBalance || 0;
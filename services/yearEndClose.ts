@@ -0,0 +1,97 @@
+import { Account, JournalEntry, Session } from '../types';
+import { buildTrialBalance } from './trialBalance';
+import { ensureAccountByCode } from './periodClose';
+import { FiscalCalendar, getFiscalYearPeriods } from './fiscalCalendar';
+import { generateUUID, round2 } from '../utils';
+
+export const RETAINED_EARNINGS_CODE = '3100';
+
+/** First and last period of a fiscal year, and the year's last day. */
+export const getYearPeriods = (calendar: FiscalCalendar, fiscalYear: number) => {
+    const periods = getFiscalYearPeriods(calendar, fiscalYear);
+    return { start: periods[0].key, end: periods[periods.length - 1].key, endDate: periods[periods.length - 1].endDate };
+};
+
+export const isYearClosed = (sessions: Session[], calendar: FiscalCalendar, fiscalYear: number) =>
+    !!sessions.find(s => s.period === getYearPeriods(calendar, fiscalYear).end)?.yearEndClosedAt;
+
+export interface YearEndClosePreview {
+    entry: JournalEntry | null; // Null when no revenue or expense account has a balance
+    accounts: Account[]; // Workspace chart, with the retained earnings account added if it was missing
+    netProfit: number;
+}
+
+/**
+ * Builds the closing entry for a year: every Revenue and Expense balance at the end of the year is reversed, and the
+ * net (the year's profit or loss) goes to the retained earnings account. The entry is dated the last day of the
+ * fiscal year and is not posted; see `postYearEndClose`.
+ */
+export const buildYearEndClosingEntry = (sessions: Session[], chart: Account[], calendar: FiscalCalendar, fiscalYear: number, retainedEarningsCode: string): YearEndClosePreview => {
+    const { start, end, endDate } = getYearPeriods(calendar, fiscalYear);
+    if (!sessions.some(s => s.period === end)) throw new Error(`Period ${end} has not been saved yet.`);
+
+    const accounts = [...chart];
+    const profitRows = buildTrialBalance(sessions, chart, start, end).groups
+        .flatMap(group => group.rows)
+        .filter(row => (row.type === 'Revenue' || row.type === 'Expense') && row.closingBalance !== 0);
+
+    const lines = profitRows.map(row => ({
+        id: generateUUID(),
+        accountId: row.accountId,
+        debit: row.closingBalance < 0 ? -row.closingBalance : 0,
+        credit: row.closingBalance > 0 ? row.closingBalance : 0,
+    }));
+    const netProfit = round2(-profitRows.reduce((sum, row) => sum + row.closingBalance, 0));
+    if (lines.length === 0) return { entry: null, accounts, netProfit };
+
+    const retainedEarnings = ensureAccountByCode(accounts, retainedEarningsCode, { name: 'Retained Earnings', type: 'Equity' });
+    if (netProfit !== 0) {
+        lines.push({
+            id: generateUUID(),
+            accountId: retainedEarnings.id,
+            debit: netProfit < 0 ? -netProfit : 0,
+            credit: netProfit > 0 ? netProfit : 0,
+        });
+    }
+
+    return {
+        entry: {
+            id: generateUUID(),
+            date: endDate,
+            description: `Year-end close FY${fiscalYear}: revenue and expenses to retained earnings`,
+            refNo: `YE-FY${fiscalYear}`,
+            lines,
+            isYearEndClose: true,
+        },
+        accounts,
+        netProfit,
+    };
+};
+
+/**
+ * Adds a reviewed closing entry to the year-end period and marks the year as closed. A retained earnings account
+ * added by the preview still has to be saved to the workspace chart by the caller.
+ */
+export const postYearEndClose = (allPeriods: Record<string, Session>, calendar: FiscalCalendar, fiscalYear: number, preview: YearEndClosePreview): Record<string, Session> => {
+    const { end } = getYearPeriods(calendar, fiscalYear);
+    const session = allPeriods[end];
+    if (session.closedAt) throw new Error(`Period ${end} is closed. Reopen it before closing the year.`);
+    return {
+        ...allPeriods,
+        [end]: {
+            ...session,
+            journalEntries: [...session.journalEntries.filter(je => !je.isYearEndClose), ...(preview.entry ? [preview.entry] : [])],
+            yearEndClosedAt: Date.now(),
+        },
+    };
+};
+
+/** Removes the closing entry of a year so it can be corrected and closed again. */
+export const reopenYear = (allPeriods: Record<string, Session>, calendar: FiscalCalendar, fiscalYear: number): Record<string, Session> => {
+    const { end } = getYearPeriods(calendar, fiscalYear);
+    const session = allPeriods[end];
+    if (!session?.yearEndClosedAt) return allPeriods;
+    if (session.closedAt) throw new Error(`Period ${end} is closed. Reopen it before reopening the year.`);
+    const { yearEndClosedAt, ...rest } = session;
+    return { ...allPeriods, [end]: { ...rest, journalEntries: session.journalEntries.filter(je => !je.isYearEndClose) } };
+};
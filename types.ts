@@ -4,8 +4,20 @@ export interface Transaction {
   description: string;
   amount: number;
   type: 'debit' | 'credit';
-  reconciliationStatus?: 'posted' | 'unposted';
+  reconciliationStatus?: 'posted' | 'unposted' | 'partial'; // Partial while the row's reconciliations cover only some of its amount
   notes?: string;
+  balance?: number; // Running balance as printed on the statement, when available
+  externalId?: string; // Bank-assigned transaction id, e.g. the OFX FITID
+  valueDate?: string;
+  reference?: string; // Bank or customer reference from the statement line
+  bankAccountId?: string; // Bank account the statement was imported into
+  sources?: StatementRowSource[]; // Statement files containing this row; the first is the file it is stored with
+  ocrConfidence?: number; // 0-100, set when the row was read from a scanned PDF page
+}
+
+export interface StatementRowSource {
+  fileId: string;
+  line: number; // Position of the row within the file
 }
 
 export interface Account {
@@ -14,26 +26,40 @@ export interface Account {
   name: string;
   type: string;
   isBankAccount?: boolean;
+  parentId?: string; // Id of the parent account in the same chart; balances roll up into it in reports
+  isHeader?: boolean; // Groups sub-accounts only and cannot receive postings
 }
 
 export interface ReconciledTransaction {
-    id: string; // Composite key: date-desc-amount-type
-    period: string; // YYYY-MM
+    id: string; // Id of the statement row, see services/transactionIdentity.ts
+    period: string; // Fiscal period key, e.g. 2024-07 or FY2025-P01 (see services/fiscalCalendar.ts)
     bankAccountId: string;
     journalEntryId: string;
     originalDate: string;
     originalDescription: string;
     originalAmount: number;
     originalType: 'debit' | 'credit';
+    amount?: number; // Part of the statement row this journal covers; a row can be split across several journals. Absent on older records, which cover the whole row
 }
 
 export interface Session {
   id: string;
-  period: string; // YYYY-MM
+  period: string; // Fiscal period key, e.g. 2024-07 or FY2025-P01 (see services/fiscalCalendar.ts)
   timestamp: number;
-  accounts: Account[];
+  accounts?: Account[]; // Legacy per-period chart; moved into the workspace chart on load (services/chartOfAccounts.ts)
+  chartVersion?: number; // Version of the workspace chart of accounts the period was last saved with
   journalEntries: JournalEntry[];
   reconciledTransactions: ReconciledTransaction[];
+  statements?: StoredStatement[]; // Imported statements, one per source file; each file belongs to one bank account
+  closedAt?: number; // Set while the period is closed; its journals and reconciliations cannot be changed
+  statusHistory?: PeriodStatusChange[];
+  yearEndClosedAt?: number; // Set on the last period of a year once revenue and expenses are closed to retained earnings
+}
+
+export interface PeriodStatusChange {
+  action: 'closed' | 'reopened';
+  timestamp: number;
+  reason?: string; // Why a closed period was reopened
 }
 
 export interface JournalLine {
@@ -42,6 +68,20 @@ export interface JournalLine {
   debit: number;
   credit: number;
   description?: string;
+  dimensions?: Record<string, string>; // Analysis dimension id -> value id, e.g. the line's cost centre and project
+}
+
+// A configurable analysis dimension, such as cost centre, department or project.
+export interface AnalysisDimension {
+  id: string;
+  name: string;
+  values: DimensionValue[];
+}
+
+export interface DimensionValue {
+  id: string;
+  code: string;
+  name: string;
 }
 
 export interface JournalEntry {
@@ -51,4 +91,75 @@ export interface JournalEntry {
   refNo?: string;
   lines: JournalLine[];
   notes?: string;
-}
\ No newline at end of file
+  isOpeningBalance?: boolean; // Balances brought forward when the previous period was closed
+  isYearEndClose?: boolean; // Clears the year's revenue and expenses to retained earnings
+}
+
+// A statement row as produced by a parser, before it is normalised into a Transaction.
+export interface ParsedStatementLine {
+  date: string; // Booking date
+  valueDate?: string;
+  description: string;
+  debit: number | null;
+  credit: number | null;
+  balance?: number;
+  externalId?: string;
+  reference?: string;
+}
+
+// One account statement read from a bank file. A single file may contain several.
+export interface ParsedStatement {
+  accountIdentifier?: string;
+  currency?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  closingBalanceDate?: string;
+  lines: ParsedStatementLine[];
+}
+
+export type StatementFormat = 'pdf' | 'spreadsheet' | 'ofx' | 'qif' | 'mt940' | 'camt053';
+
+// Details of an imported statement file.
+export interface StatementFile {
+  id: string;
+  bankAccountId: string;
+  fileName: string;
+  format: StatementFormat;
+  importedAt: number;
+  accountIdentifier?: string;
+  currency?: string;
+  openingBalance?: number;
+  closingBalance?: number; // Ledger balance reported by the bank
+  closingBalanceDate?: string;
+  balanceDifferenceAccepted?: boolean; // Set when a user accepts an unreconciled opening/closing difference
+}
+
+export type StatementDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+export interface ColumnMapping {
+  // Zero-based column indexes in the statement spreadsheet; undefined when the column is not present.
+  date?: number;
+  description?: number;
+  debit?: number;
+  credit?: number;
+  amount?: number; // Single signed amount column, used instead of debit/credit
+  balance?: number;
+}
+
+export interface ColumnProfile {
+  id: string;
+  name: string;
+  bankAccountId: string;
+  headerSignature: string; // Normalised header row used to recognise the same export layout
+  mapping: ColumnMapping;
+  dateFormat: StatementDateFormat;
+  negativeAmountIs: 'debit' | 'credit';
+  createdAt: number;
+}
+
+// An imported statement file and the transactions stored with it (including notes), kept with the period it was loaded into.
+// Rows that also appeared in a later file are stored once, with the file that first contained them.
+export interface StoredStatement {
+  file: StatementFile;
+  transactions: Transaction[];
+}
@@ -11,6 +11,9 @@ export const currencyFormatter = (amount: number) => new Intl.NumberFormat('en-U
 
 export const generateUUID = () => crypto.randomUUID();
 
+// Rounds to cents; `|| 0` turns -0 into 0 so it never prints as "-0.00".
+export const round2 = (value: number) => Math.round(value * 100) / 100 || 0;
+
 export const safeParseJson = (text: string) => {
     // Find the start and end of the JSON content, stripping markdown fences if they exist.
     let jsonText = text.trim();
@@ -73,3 +76,9 @@ export const getErrorMessage = (error: unknown): string => {
     }
     return String(error);
 };
+
+export const decodeTextFile = (buffer: ArrayBuffer): string => {
+    const text = new TextDecoder('utf-8').decode(buffer);
+    // Older OFX and QIF exports are often Windows-1252 rather than UTF-8 encoded.
+    return text.includes('\uFFFD') ? new TextDecoder('windows-1252').decode(buffer) : text;
+};
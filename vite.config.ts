@@ -9,6 +9,14 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
+      build: {
+        rollupOptions: {
+          output: {
+            // Tesseract looks its language data up by file name, so that asset is not hashed.
+            assetFileNames: assetInfo => assetInfo.names?.some(name => name.endsWith('.traineddata.gz')) ? 'assets/tesseract/[name][extname]' : 'assets/[name]-[hash][extname]',
+          },
+        },
+      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),